@@ -0,0 +1,31 @@
+-- Migration: Create order_backfill_jobs table
+-- Description: Progreso de sincronizaciones históricas de órdenes (reanudables)
+
+CREATE TYPE order_backfill_jobs_status_enum AS ENUM ('pending', 'running', 'completed', 'failed');
+
+CREATE TABLE IF NOT EXISTS order_backfill_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id BIGINT NOT NULL,
+  date_from VARCHAR(10) NOT NULL,
+  date_to VARCHAR(10) NOT NULL,
+  cursor_date VARCHAR(10) NOT NULL,
+  cursor_offset INTEGER NOT NULL DEFAULT 0,
+  status order_backfill_jobs_status_enum NOT NULL DEFAULT 'pending',
+  days_done INTEGER NOT NULL DEFAULT 0,
+  orders_saved INTEGER NOT NULL DEFAULT 0,
+  orders_failed INTEGER NOT NULL DEFAULT 0,
+  failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_error TEXT,
+  finished_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Crear índices
+CREATE INDEX idx_order_backfill_jobs_seller_status ON order_backfill_jobs(seller_id, status);
+
+-- Agregar comentarios
+COMMENT ON TABLE order_backfill_jobs IS 'Trabajos de sincronización histórica de órdenes desde Mercado Libre';
+COMMENT ON COLUMN order_backfill_jobs.cursor_date IS 'Próximo día a sincronizar (punto de reanudación)';
+COMMENT ON COLUMN order_backfill_jobs.cursor_offset IS 'Próximo offset de paginación dentro de cursor_date';
+COMMENT ON COLUMN order_backfill_jobs.failures IS 'Órdenes que no se pudieron guardar, con su error';
@@ -0,0 +1,33 @@
+-- Migration: Create order_claims table
+-- Description: Reembolsos, reclamos y devoluciones de órdenes de Mercado Libre
+
+CREATE TYPE order_claims_type_enum AS ENUM ('refund', 'claim', 'return');
+CREATE TYPE order_claims_restock_status_enum AS ENUM ('pending', 'restocked', 'written_off', 'not_applicable');
+
+CREATE TABLE IF NOT EXISTS order_claims (
+  claim_id SERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES "order"(id) ON DELETE CASCADE,
+  type order_claims_type_enum NOT NULL,
+  ml_claim_id BIGINT,
+  payment_id BIGINT,
+  status VARCHAR(50),
+  stage VARCHAR(50),
+  reason_id VARCHAR(50),
+  reason TEXT,
+  refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  restock_status order_claims_restock_status_enum NOT NULL DEFAULT 'not_applicable',
+  raw_data JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Crear índices
+CREATE INDEX idx_order_claims_order ON order_claims(order_id);
+CREATE INDEX idx_order_claims_restock_status ON order_claims(restock_status);
+CREATE UNIQUE INDEX idx_order_claims_ml_claim ON order_claims(ml_claim_id) WHERE ml_claim_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_order_claims_refund_payment ON order_claims(payment_id) WHERE type = 'refund';
+
+-- Agregar comentarios
+COMMENT ON TABLE order_claims IS 'Reembolsos, reclamos y devoluciones asociados a órdenes';
+COMMENT ON COLUMN order_claims.refunded_amount IS 'Monto devuelto al comprador (solo filas refund), se descuenta de la ganancia neta';
+COMMENT ON COLUMN order_claims.restock_status IS 'Estado del reingreso a inventario para devoluciones';
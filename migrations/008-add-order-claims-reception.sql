@@ -0,0 +1,13 @@
+-- Migration: Add reception fields to order_claims
+-- Description: Condición y fecha de recepción de devoluciones en bodega
+
+CREATE TYPE order_claims_return_condition_enum AS ENUM ('good', 'damaged');
+
+ALTER TABLE order_claims
+  ADD COLUMN IF NOT EXISTS return_condition order_claims_return_condition_enum,
+  ADD COLUMN IF NOT EXISTS received_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS received_by VARCHAR(255);
+
+-- Agregar comentarios
+COMMENT ON COLUMN order_claims.return_condition IS 'good: vuelve a stock, damaged: se da de baja (write_off en product_history)';
+COMMENT ON COLUMN order_claims.received_at IS 'Fecha en que la devolución llegó a bodega';
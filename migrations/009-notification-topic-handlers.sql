@@ -0,0 +1,33 @@
+-- Migration: Notification topic handlers
+-- Description: Registro del handler que procesó cada notificación, estado de entrega
+-- de las órdenes (tópico shipments) y datos de publicaciones de ML (tópico items)
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS handled_by VARCHAR(50);
+
+ALTER TABLE "order"
+  ADD COLUMN IF NOT EXISTS delivery_status VARCHAR,
+  ADD COLUMN IF NOT EXISTS delivery_substatus VARCHAR;
+
+CREATE TABLE IF NOT EXISTS ml_listings (
+  item_id VARCHAR(50) PRIMARY KEY,
+  seller_id BIGINT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  seller_sku VARCHAR(255),
+  price DECIMAL(10,2) NOT NULL DEFAULT 0,
+  available_quantity INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(50),
+  logistic_type VARCHAR(50),
+  permalink VARCHAR(2083),
+  thumbnail VARCHAR(2083),
+  raw_data JSONB,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Crear índices
+CREATE INDEX idx_ml_listings_seller_sku ON ml_listings(seller_sku);
+
+-- Agregar comentarios
+COMMENT ON COLUMN notifications.handled_by IS 'Handler del tópico que procesó la notificación (orders, shipments, items, claims)';
+COMMENT ON COLUMN "order".delivery_status IS 'Estado del envío en Mercado Libre (shipments.status)';
+COMMENT ON TABLE ml_listings IS 'Último estado conocido de las publicaciones de Mercado Libre';
@@ -0,0 +1,26 @@
+-- Migration: Notification processing queue
+-- Description: Cola de procesamiento sobre la tabla notifications con reintentos
+-- (backoff exponencial) y estado failed (dead-letter)
+
+CREATE TYPE notifications_status_enum AS ENUM ('pending', 'processing', 'processed', 'skipped', 'failed');
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS status notifications_status_enum NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP;
+
+-- Notificaciones existentes: las procesadas quedan processed, el resto skipped
+-- (no se reprocesan notificaciones antiguas automáticamente)
+UPDATE notifications SET status = 'processed' WHERE processed = true;
+UPDATE notifications SET status = 'skipped' WHERE processed = false;
+
+-- Crear índices
+CREATE INDEX idx_notifications_queue ON notifications(status, next_attempt_at);
+
+-- Agregar comentarios
+COMMENT ON COLUMN notifications.status IS 'pending: en cola, processing: tomada por el worker, failed: sin más reintentos';
+COMMENT ON COLUMN notifications.processing_attempts IS 'Intentos de procesamiento (attempts es el contador de reintentos de ML)';
+COMMENT ON COLUMN notifications.next_attempt_at IS 'Próximo reintento, con backoff exponencial';
@@ -0,0 +1,34 @@
+-- Migration: Create stock_ledger table
+-- Description: Registro de idempotencia del descuento de stock por línea de orden
+-- (plataforma, orden, ítem): reprocesar una orden no vuelve a descontar y una
+-- cancelación restaura solo lo que realmente se descontó
+
+-- Idempotente: la migración puede volver a ejecutarse
+DO $$ BEGIN
+  CREATE TYPE stock_ledger_status_enum AS ENUM ('deducted', 'restored');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS stock_ledger (
+  ledger_id SERIAL PRIMARY KEY,
+  platform_id INTEGER NOT NULL,
+  platform_order_id VARCHAR(255) NOT NULL,
+  platform_item_id VARCHAR(255) NOT NULL,
+  product_id INTEGER NOT NULL,
+  quantity_deducted INTEGER NOT NULL,
+  quantity_restored INTEGER NOT NULL DEFAULT 0,
+  status stock_ledger_status_enum NOT NULL DEFAULT 'deducted',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_stock_ledger_line UNIQUE (platform_id, platform_order_id, platform_item_id)
+);
+
+-- Crear índices
+CREATE INDEX IF NOT EXISTS idx_stock_ledger_product ON stock_ledger(product_id);
+
+-- Agregar comentarios
+COMMENT ON TABLE stock_ledger IS 'Un registro por línea de orden que descontó stock';
+COMMENT ON COLUMN stock_ledger.platform_item_id IS 'ID de la publicación/SKU en la plataforma';
+COMMENT ON COLUMN stock_ledger.quantity_deducted IS 'Unidades del producto descontadas (pack * cantidad)';
+COMMENT ON COLUMN stock_ledger.status IS 'deducted: stock descontado, restored: cancelación ya restauró el stock';
@@ -0,0 +1,33 @@
+-- Migration: Create stock_reservations table
+-- Description: Reservas de stock para órdenes sin pago aprobado. La orden creada
+-- aparta unidades (products.reserved_stock), el pago aprobado la convierte en
+-- descuento y la cancelación o el vencimiento (expiration_date) la liberan
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS reserved_stock INTEGER NOT NULL DEFAULT 0;
+
+CREATE TYPE stock_reservations_status_enum AS ENUM ('active', 'converted', 'released', 'expired');
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  reservation_id SERIAL PRIMARY KEY,
+  platform_id INTEGER NOT NULL,
+  platform_order_id VARCHAR(255) NOT NULL,
+  platform_item_id VARCHAR(255) NOT NULL,
+  product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL,
+  status stock_reservations_status_enum NOT NULL DEFAULT 'active',
+  expires_at TIMESTAMP,
+  closed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_stock_reservations_line UNIQUE (platform_id, platform_order_id, platform_item_id)
+);
+
+-- Crear índices
+CREATE INDEX idx_stock_reservations_status_expires ON stock_reservations(status, expires_at);
+CREATE INDEX idx_stock_reservations_product ON stock_reservations(product_id);
+
+-- Agregar comentarios
+COMMENT ON COLUMN products.reserved_stock IS 'Unidades apartadas por órdenes sin pago (disponible = stock - reserved_stock)';
+COMMENT ON COLUMN stock_reservations.quantity IS 'Unidades del producto reservadas (pack * cantidad)';
+COMMENT ON COLUMN stock_reservations.status IS 'active: apartada, converted: pago aprobado, released: cancelada, expired: venció sin pago';
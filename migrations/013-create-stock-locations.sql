@@ -0,0 +1,44 @@
+-- Migration: Create stock locations
+-- Description: Stock por ubicación (bodega propia, punto Flex y bodegas Full de ML).
+-- products.stock pasa a ser la suma de product_stock_locations del producto
+
+CREATE TABLE IF NOT EXISTS stock_locations (
+  location_id SERIAL PRIMARY KEY,
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO stock_locations (code, name) VALUES
+  ('BODEGA', 'Bodega propia'),
+  ('FLEX', 'Punto de entrega Flex'),
+  ('FULL', 'Mercado Libre Full')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS product_stock_locations (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  location_id INTEGER NOT NULL REFERENCES stock_locations(location_id),
+  quantity INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_product_stock_locations UNIQUE (product_id, location_id)
+);
+
+ALTER TABLE product_history
+  ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES stock_locations(location_id);
+
+-- El stock actual de cada producto queda en la bodega propia
+INSERT INTO product_stock_locations (product_id, location_id, quantity)
+SELECT p.product_id, l.location_id, p.stock
+FROM products p
+CROSS JOIN stock_locations l
+WHERE l.code = 'BODEGA'
+ON CONFLICT (product_id, location_id) DO NOTHING;
+
+-- Crear índices
+CREATE INDEX idx_product_stock_locations_location ON product_stock_locations(location_id);
+
+-- Agregar comentarios
+COMMENT ON TABLE product_stock_locations IS 'Stock por producto y ubicación; products.stock es la suma';
+COMMENT ON COLUMN product_history.location_id IS 'Ubicación afectada por el movimiento de stock';
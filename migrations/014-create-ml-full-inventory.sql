@@ -0,0 +1,27 @@
+-- Migration: Create ml_full_inventory table
+-- Description: Stock de Mercado Libre Full por inventory_id, sincronizado
+-- periódicamente; alimenta la ubicación FULL de product_stock_locations
+
+ALTER TABLE ml_listings
+  ADD COLUMN IF NOT EXISTS inventory_id VARCHAR(50);
+
+CREATE TABLE IF NOT EXISTS ml_full_inventory (
+  inventory_id VARCHAR(50) PRIMARY KEY,
+  item_id VARCHAR(50) NOT NULL,
+  seller_id BIGINT NOT NULL,
+  product_id INTEGER REFERENCES products(product_id) ON DELETE SET NULL,
+  pack_quantity INTEGER NOT NULL DEFAULT 1,
+  available_quantity INTEGER NOT NULL DEFAULT 0,
+  not_available_quantity INTEGER NOT NULL DEFAULT 0,
+  raw_data JSONB,
+  synced_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Crear índices
+CREATE INDEX idx_ml_full_inventory_product ON ml_full_inventory(product_id);
+CREATE INDEX idx_ml_listings_logistic_type ON ml_listings(logistic_type);
+
+-- Agregar comentarios
+COMMENT ON COLUMN ml_listings.inventory_id IS 'ID de inventario Full (las variantes tienen el suyo en raw_data)';
+COMMENT ON COLUMN ml_full_inventory.pack_quantity IS 'Unidades del producto por unidad de la publicación';
+COMMENT ON COLUMN ml_full_inventory.not_available_quantity IS 'Unidades en Full no vendibles (dañadas, en transferencia, etc.)';
@@ -0,0 +1,25 @@
+-- Migration: Create stock_sync_logs table
+-- Description: Registro del envío del stock disponible a las publicaciones de
+-- Mercado Libre (automático tras cada cambio de stock o manual)
+
+CREATE TYPE stock_sync_logs_status_enum AS ENUM ('success', 'failed', 'skipped');
+
+CREATE TABLE IF NOT EXISTS stock_sync_logs (
+  sync_log_id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  platform_id INTEGER NOT NULL,
+  platform_item_id VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL,
+  pack_quantity INTEGER NOT NULL DEFAULT 1,
+  status stock_sync_logs_status_enum NOT NULL,
+  trigger VARCHAR(20) NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Crear índices
+CREATE INDEX idx_stock_sync_logs_product_created ON stock_sync_logs(product_id, created_at);
+
+-- Agregar comentarios
+COMMENT ON COLUMN stock_sync_logs.quantity IS 'available_quantity enviado: floor(disponible / pack_quantity)';
+COMMENT ON COLUMN stock_sync_logs.trigger IS 'auto: tras un cambio de stock, manual: POST /products/:id/push-stock';
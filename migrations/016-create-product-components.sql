@@ -0,0 +1,23 @@
+-- Migration: Create product_components table
+-- Description: Lista de materiales de kits. Vender un kit descuenta cada
+-- componente; el historial de los componentes referencia el kit vendido
+
+CREATE TABLE IF NOT EXISTS product_components (
+  product_component_id SERIAL PRIMARY KEY,
+  kit_product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  component_product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  CONSTRAINT uq_product_components UNIQUE (kit_product_id, component_product_id),
+  CONSTRAINT chk_product_components_not_self CHECK (kit_product_id <> component_product_id)
+);
+
+ALTER TABLE product_history
+  ADD COLUMN IF NOT EXISTS kit_product_id INTEGER REFERENCES products(product_id) ON DELETE SET NULL;
+
+-- Crear índices
+CREATE INDEX idx_product_components_component ON product_components(component_product_id);
+CREATE INDEX idx_product_history_kit ON product_history(kit_product_id);
+
+-- Agregar comentarios
+COMMENT ON COLUMN product_components.quantity IS 'Unidades del componente por kit';
+COMMENT ON COLUMN product_history.kit_product_id IS 'Kit vendido cuando el movimiento es de un componente';
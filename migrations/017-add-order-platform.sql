@@ -0,0 +1,21 @@
+-- Migration: Add platform to orders
+-- Description: Las órdenes pueden venir de otras plataformas (Falabella).
+-- order.id sigue siendo el ID de Mercado Libre; las órdenes de otras
+-- plataformas toman su id de external_order_id_seq y guardan el ID original
+-- en platform_order_id
+
+ALTER TABLE "order"
+  ADD COLUMN IF NOT EXISTS platform_id INTEGER NOT NULL DEFAULT 1 REFERENCES platforms(platform_id),
+  ADD COLUMN IF NOT EXISTS platform_order_id VARCHAR(255);
+
+UPDATE "order" SET platform_order_id = id::text WHERE platform_order_id IS NULL;
+
+-- Muy por sobre los IDs de Mercado Libre para no chocar
+CREATE SEQUENCE IF NOT EXISTS external_order_id_seq START WITH 1000000000000000;
+
+-- Crear índices
+CREATE UNIQUE INDEX IF NOT EXISTS uq_order_platform_order ON "order"(platform_id, platform_order_id);
+
+-- Agregar comentarios
+COMMENT ON COLUMN "order".platform_id IS 'Plataforma de venta (1 = Mercado Libre, 2 = Falabella)';
+COMMENT ON COLUMN "order".platform_order_id IS 'ID de la orden en su plataforma';
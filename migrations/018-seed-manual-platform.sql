@@ -0,0 +1,13 @@
+-- Migration: Seed manual sales platform
+-- Description: Plataforma para ventas directas (Instagram, ferias, tienda).
+-- Se registran con POST /sales/manual en las mismas tablas de órdenes
+
+INSERT INTO platforms (platform_id, platform_name, is_active, config)
+VALUES (3, 'Venta directa', true, '{"country": "CL", "currency": "CLP"}'::jsonb)
+ON CONFLICT (platform_id) DO UPDATE
+SET
+  platform_name = EXCLUDED.platform_name,
+  is_active = EXCLUDED.is_active;
+
+-- Agregar comentarios
+COMMENT ON COLUMN "order".platform_id IS 'Plataforma de venta (1 = Mercado Libre, 2 = Falabella, 3 = Venta directa)';
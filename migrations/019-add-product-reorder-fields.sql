@@ -0,0 +1,11 @@
+-- Migration: Add reorder fields to products
+-- Description: Tiempo de reposición y stock de seguridad por producto para
+-- las sugerencias de compra (GET /products/reorder-suggestions)
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+  ADD COLUMN IF NOT EXISTS safety_stock INTEGER NOT NULL DEFAULT 0 CHECK (safety_stock >= 0);
+
+-- Agregar comentarios
+COMMENT ON COLUMN products.lead_time_days IS 'Días entre pedir al proveedor y tener el stock en bodega';
+COMMENT ON COLUMN products.safety_stock IS 'Unidades que se quieren mantener siempre en stock';
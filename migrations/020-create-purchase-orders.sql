@@ -0,0 +1,51 @@
+-- Migration: Create suppliers and purchase_orders tables
+-- Description: Órdenes de compra a proveedores. Recibir una orden suma stock
+-- (change_type 'import') y actualiza el costo del producto
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  supplier_id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  tax_id VARCHAR(50),
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TYPE purchase_orders_status_enum AS ENUM ('draft', 'sent', 'partially_received', 'received', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  purchase_order_id SERIAL PRIMARY KEY,
+  supplier_id INTEGER NOT NULL REFERENCES suppliers(supplier_id),
+  status purchase_orders_status_enum NOT NULL DEFAULT 'draft',
+  expected_date DATE,
+  notes TEXT,
+  created_by VARCHAR(255) NOT NULL,
+  sent_at TIMESTAMP,
+  received_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  purchase_order_line_id SERIAL PRIMARY KEY,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(purchase_order_id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(product_id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  CONSTRAINT uq_purchase_order_lines_product UNIQUE (purchase_order_id, product_id)
+);
+
+-- Crear índices
+CREATE INDEX idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX idx_purchase_order_lines_product ON purchase_order_lines(product_id);
+
+-- Agregar comentarios
+COMMENT ON COLUMN suppliers.tax_id IS 'RUT del proveedor';
+COMMENT ON COLUMN purchase_orders.status IS 'draft: borrador, sent: enviada al proveedor, partially_received: recepción parcial, received: recibida completa, cancelled: anulada';
+COMMENT ON COLUMN purchase_order_lines.unit_cost IS 'Costo unitario neto (sin IVA) acordado con el proveedor';
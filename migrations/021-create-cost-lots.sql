@@ -0,0 +1,30 @@
+-- Migration: Create cost_lots table
+-- Description: Lotes de costo por producto. Cada entrada de stock crea un lote
+-- con su costo unitario y las salidas lo consumen en orden FIFO; products.cost
+-- queda como costo promedio ponderado
+
+CREATE TABLE IF NOT EXISTS cost_lots (
+  cost_lot_id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  remaining_quantity INTEGER NOT NULL CHECK (remaining_quantity >= 0),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  source VARCHAR(50) NOT NULL,
+  reference VARCHAR(255),
+  received_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Lote inicial con el stock y costo actuales
+INSERT INTO cost_lots (product_id, quantity, remaining_quantity, unit_cost, source, reference)
+SELECT product_id, stock, stock, cost, 'opening', 'Saldo inicial'
+FROM products
+WHERE stock > 0 AND cost IS NOT NULL;
+
+-- Crear índices
+CREATE INDEX idx_cost_lots_product_open ON cost_lots(product_id, received_at) WHERE remaining_quantity > 0;
+
+-- Agregar comentarios
+COMMENT ON COLUMN cost_lots.remaining_quantity IS 'Unidades del lote aún en stock (FIFO)';
+COMMENT ON COLUMN cost_lots.unit_cost IS 'Costo unitario neto (sin IVA)';
+COMMENT ON COLUMN cost_lots.source IS 'change_type de la entrada (import, manual, adjustment, return, order) u opening';
+COMMENT ON COLUMN cost_lots.reference IS 'Origen de la entrada (ej. orden de compra)';
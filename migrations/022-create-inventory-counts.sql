@@ -0,0 +1,39 @@
+-- Migration: Create inventory_counts tables
+-- Description: Sesiones de conteo físico. Al abrir se congela el stock del
+-- sistema de la ubicación; al aprobar se ajusta cada producto por su
+-- diferencia (change_type 'adjustment', metadata.inventory_count_id)
+
+CREATE TYPE inventory_counts_status_enum AS ENUM ('open', 'approved', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS inventory_counts (
+  inventory_count_id SERIAL PRIMARY KEY,
+  location VARCHAR(50) NOT NULL,
+  status inventory_counts_status_enum NOT NULL DEFAULT 'open',
+  opened_by VARCHAR(255) NOT NULL,
+  notes TEXT,
+  approved_by VARCHAR(255),
+  closed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_count_lines (
+  inventory_count_line_id SERIAL PRIMARY KEY,
+  inventory_count_id INTEGER NOT NULL REFERENCES inventory_counts(inventory_count_id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(product_id) ON DELETE CASCADE,
+  system_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  unit_cost DECIMAL(10, 2),
+  counted_by VARCHAR(255),
+  counted_at TIMESTAMP,
+  CONSTRAINT uq_inventory_count_lines_product UNIQUE (inventory_count_id, product_id)
+);
+
+-- Una sola sesión abierta por ubicación
+CREATE UNIQUE INDEX uq_inventory_counts_open_location ON inventory_counts(location) WHERE status = 'open';
+
+-- Agregar comentarios
+COMMENT ON COLUMN inventory_counts.location IS 'Código de stock_locations contada (BODEGA, FLEX, FULL)';
+COMMENT ON COLUMN inventory_count_lines.system_quantity IS 'Stock del sistema en la ubicación al abrir la sesión';
+COMMENT ON COLUMN inventory_count_lines.counted_quantity IS 'Unidades contadas (NULL = sin contar)';
+COMMENT ON COLUMN inventory_count_lines.unit_cost IS 'products.cost al abrir la sesión (valorización de diferencias)';
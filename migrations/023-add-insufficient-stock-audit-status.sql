@@ -0,0 +1,6 @@
+-- Migration: Add INSUFFICIENT_STOCK audit status
+-- Description: Una línea con producto encontrado pero sin stock suficiente en
+-- la ubicación ya no se audita como NOT_FOUND: queda como INSUFFICIENT_STOCK
+-- y en ventas pendientes para descontarla al resolverla
+
+ALTER TYPE product_audits_status_enum ADD VALUE IF NOT EXISTS 'INSUFFICIENT_STOCK';
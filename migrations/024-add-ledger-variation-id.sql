@@ -0,0 +1,24 @@
+-- Migration: Add platform_variation_id to stock_ledger and stock_reservations
+-- Description: Una orden puede traer dos variaciones de la misma publicación
+-- (mismo item_id): la línea se identifica también por la variación. '' para
+-- plataformas o líneas sin variación (los registros existentes quedan así)
+
+ALTER TABLE stock_ledger
+  ADD COLUMN IF NOT EXISTS platform_variation_id VARCHAR(255) NOT NULL DEFAULT '';
+
+ALTER TABLE stock_ledger DROP CONSTRAINT IF EXISTS uq_stock_ledger_line;
+ALTER TABLE stock_ledger
+  ADD CONSTRAINT uq_stock_ledger_line
+  UNIQUE (platform_id, platform_order_id, platform_item_id, platform_variation_id);
+
+ALTER TABLE stock_reservations
+  ADD COLUMN IF NOT EXISTS platform_variation_id VARCHAR(255) NOT NULL DEFAULT '';
+
+ALTER TABLE stock_reservations DROP CONSTRAINT IF EXISTS uq_stock_reservations_line;
+ALTER TABLE stock_reservations
+  ADD CONSTRAINT uq_stock_reservations_line
+  UNIQUE (platform_id, platform_order_id, platform_item_id, platform_variation_id);
+
+-- Agregar comentarios
+COMMENT ON COLUMN stock_ledger.platform_variation_id IS 'Variación de la publicación ('''' si no tiene)';
+COMMENT ON COLUMN stock_reservations.platform_variation_id IS 'Variación de la publicación ('''' si no tiene)';
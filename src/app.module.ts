@@ -10,8 +10,6 @@ import { AuthModule } from './auth/auth.module';
 import { NotificationModule } from './notification/notification.module';
 import { Notification } from './notification/entities/notification.entity';
 import { Session } from './auth/entities/session.entity';
-import { NotificationController } from './notification/notification.controller';
-import { NotificationService } from './notification/notification.service';
 import { HttpModule } from '@nestjs/axios';
 import { ProductsModule } from './products/products.module';
 import { Product } from './products/entities/product.entity';
@@ -25,6 +23,28 @@ import { ProductMapping } from './products/entities/product-mapping.entity';
 import { PendingSale } from './notification/entities/pending-sale.entity';
 import { InventoryModule } from './inventory/inventory.module';
 import { MonthlyFlexCost } from './orders/entities/monthly-flex-cost.entity';
+import { OrderBackfillJob } from './orders/entities/order-backfill-job.entity';
+import { OrderClaim } from './orders/entities/order-claim.entity';
+import { MlListing } from './mercadolibre/entities/ml-listing.entity';
+import { StockLedgerEntry } from './products/entities/stock-ledger-entry.entity';
+import { StockReservation } from './products/entities/stock-reservation.entity';
+import { StockLocation } from './products/entities/stock-location.entity';
+import { ProductStockLocation } from './products/entities/product-stock-location.entity';
+import { MlFullInventory } from './mercadolibre/entities/ml-full-inventory.entity';
+import { StockSyncLog } from './products/entities/stock-sync-log.entity';
+import { ProductComponent } from './products/entities/product-component.entity';
+import { CostLot } from './products/entities/cost-lot.entity';
+import { ReportsModule } from './reports/reports.module';
+import { FalabellaModule } from './falabella/falabella.module';
+import { ConnectorsModule } from './connectors/connectors.module';
+import { SalesModule } from './sales/sales.module';
+import { PurchasingModule } from './purchasing/purchasing.module';
+import { Supplier } from './purchasing/entities/supplier.entity';
+import { PurchaseOrder } from './purchasing/entities/purchase-order.entity';
+import { PurchaseOrderLine } from './purchasing/entities/purchase-order-line.entity';
+import { InventoryCountsModule } from './inventory-counts/inventory-counts.module';
+import { InventoryCount } from './inventory-counts/entities/inventory-count.entity';
+import { InventoryCountLine } from './inventory-counts/entities/inventory-count-line.entity';
 
 @Module({
   imports: [
@@ -41,7 +61,7 @@ import { MonthlyFlexCost } from './orders/entities/monthly-flex-cost.entity';
         username: configService.get<string>('DB_USERNAME'),
         password: configService.get<string>('DB_PASSWORD'),
         database: configService.get<string>('DB_DATABASE'),
-        entities: [User, Order, OrderItem, Payment, Notification, Session, Product, Platform, SecondarySku, Category, ProductAudit, ProductHistory, ProductMapping, PendingSale, MonthlyFlexCost],
+        entities: [User, Order, OrderItem, Payment, Notification, Session, Product, Platform, SecondarySku, Category, ProductAudit, ProductHistory, ProductMapping, PendingSale, MonthlyFlexCost, OrderBackfillJob, OrderClaim, MlListing, StockLedgerEntry, StockReservation, StockLocation, ProductStockLocation, MlFullInventory, StockSyncLog, ProductComponent, CostLot, Supplier, PurchaseOrder, PurchaseOrderLine, InventoryCount, InventoryCountLine],
         synchronize: false, // IMPORTANTE: Desactivado para evitar conflictos con datos existentes
       }),
       inject: [ConfigService],
@@ -53,10 +73,13 @@ import { MonthlyFlexCost } from './orders/entities/monthly-flex-cost.entity';
     HttpModule,
     ProductsModule,
     MercadoLibreModule,
-    InventoryModule
-
+    InventoryModule,
+    ReportsModule,
+    FalabellaModule,
+    ConnectorsModule,
+    SalesModule,
+    PurchasingModule,
+    InventoryCountsModule,
   ],
-  controllers: [NotificationController],
-  providers: [NotificationService],
 })
 export class AppModule {}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PlatformConnectorRegistry } from './platform-connector.registry';
+import { WebhooksController } from './webhooks.controller';
+
+/**
+ * Registry of platform connectors
+ * Has no imports so any module can register a connector or dispatch by
+ * platform (MercadoLibreConnector: NotificationModule, FalabellaConnector:
+ * FalabellaModule)
+ */
+@Module({
+  controllers: [WebhooksController],
+  providers: [PlatformConnectorRegistry],
+  exports: [PlatformConnectorRegistry],
+})
+export class ConnectorsModule {}
@@ -0,0 +1,61 @@
+/**
+ * Orders of one sales day on a platform
+ */
+export interface PlatformOrderQuery {
+  date: string; // YYYY-MM-DD
+  account_id?: number; // Seller account (ML seller_id); not every platform needs it
+}
+
+export interface PlatformSyncResult {
+  platform_id: number;
+  synced: number;
+  errors: number;
+  message: string;
+}
+
+/**
+ * Connector for one sales platform (row in platforms)
+ *
+ * fetch* return the platform's raw payloads; syncOrders and handleWebhook
+ * save them through the platform's own ingestion (orders, stock, pending
+ * sales).
+ */
+export interface PlatformConnector {
+  /** platforms.platform_id */
+  readonly platformId: number;
+
+  readonly name: string;
+
+  fetchOrders(query: PlatformOrderQuery): Promise<any[]>;
+
+  /** null when the order is not found */
+  fetchOrderDetails(orderId: string, accountId?: number): Promise<any | null>;
+
+  /**
+   * What the seller pays to ship
+   * @returns null when the platform does not report it
+   */
+  fetchShipmentCost(
+    shipmentId: string,
+    accountId?: number,
+  ): Promise<number | null>;
+
+  /** Set the available quantity of a listing; throws on failure */
+  pushStock(
+    platformSku: string,
+    quantity: number,
+    accountId?: number,
+  ): Promise<void>;
+
+  /** Whether an incoming webhook really comes from the platform */
+  verifyWebhook(
+    payload: any,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<boolean>;
+
+  /** Fetch and save the orders of a day */
+  syncOrders(query: PlatformOrderQuery): Promise<PlatformSyncResult>;
+
+  /** Save (or queue) a verified webhook */
+  handleWebhook(payload: any): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PlatformConnector } from './platform-connector.interface';
+
+/**
+ * Platform Connector Registry
+ * Maps each platform_id to its connector
+ *
+ * Connectors live in the module that owns their dependencies and register
+ * themselves on init, so low-level services (stock push) can dispatch by
+ * platform without importing every marketplace module.
+ *
+ * Applies:
+ * - arch-open-closed: A new marketplace only needs a connector and a register() call
+ */
+@Injectable()
+export class PlatformConnectorRegistry {
+  private readonly logger = new Logger(PlatformConnectorRegistry.name);
+  private readonly connectors = new Map<number, PlatformConnector>();
+
+  register(connector: PlatformConnector): void {
+    if (this.connectors.has(connector.platformId)) {
+      this.logger.warn(
+        `Platform ${connector.platformId} handled by ${this.connectors.get(connector.platformId).name}, replaced by ${connector.name}`,
+      );
+    }
+    this.connectors.set(connector.platformId, connector);
+  }
+
+  get(platformId: number): PlatformConnector | undefined {
+    return this.connectors.get(platformId);
+  }
+
+  /**
+   * Like get(), but throws 404 for platforms without a connector
+   */
+  require(platformId: number): PlatformConnector {
+    const connector = this.get(platformId);
+    if (!connector) {
+      throw new NotFoundException(
+        `La plataforma ${platformId} no tiene conector`,
+      );
+    }
+    return connector;
+  }
+
+  getAll(): PlatformConnector[] {
+    return [...this.connectors.values()];
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  ParseIntPipe,
+  Param,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PlatformConnectorRegistry } from './platform-connector.registry';
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly registry: PlatformConnectorRegistry) {}
+
+  /**
+   * Webhook de una plataforma, verificado y despachado a su conector
+   * POST /webhooks/:platformId
+   */
+  @Post(':platformId')
+  @HttpCode(200)
+  async handle(
+    @Param('platformId', ParseIntPipe) platformId: number,
+    @Body() payload: any,
+    @Headers() headers: Record<string, string | string[] | undefined>,
+  ): Promise<{ message: string }> {
+    const connector = this.registry.require(platformId);
+
+    if (!(await connector.verifyWebhook(payload, headers))) {
+      throw new UnauthorizedException(
+        `Webhook de ${connector.name} no verificado`,
+      );
+    }
+
+    await connector.handleWebhook(payload);
+    return { message: 'Evento recibido con éxito' };
+  }
+}
@@ -0,0 +1,20 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+/**
+ * Query DTO para sincronizar órdenes de Falabella
+ */
+export class SyncFalabellaOrdersQueryDto {
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'updated_after debe ser una fecha válida (ISO 8601)' },
+  )
+  updated_after?: string; // Sin fecha: desde la última sincronización
+}
+
+export class FalabellaSyncResultDto {
+  updated_after: string;
+  orders: number; // Órdenes guardadas
+  pending_sales: number; // Ventas pendientes creadas (SKU sin producto)
+  errors: number;
+}
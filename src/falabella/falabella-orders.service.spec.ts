@@ -0,0 +1,214 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { FalabellaOrdersService } from './falabella-orders.service';
+import { FalabellaOrderItem, FalabellaService } from './falabella.service';
+import { Order } from '../orders/entities/order.entity';
+import { Platform } from '../products/entities/platform.entity';
+import { PendingSaleStatus } from '../notification/entities/pending-sale.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import { StockLedgerService } from '../products/services/stock-ledger.service';
+import { PendingSalesService } from '../notification/services/pending-sales.service';
+
+describe('FalabellaOrdersService', () => {
+  const platform = { platform_id: 2, config: {} } as Platform;
+  const falabellaOrder = {
+    OrderId: '3001',
+    OrderNumber: '1200345',
+    CreatedAt: '2024-01-15 10:00:00',
+    UpdatedAt: '2024-01-15 11:00:00',
+    Price: '29980.00',
+  };
+  const key = {
+    platform_id: 2,
+    platform_order_id: '3001',
+    platform_item_id: 'SKU-1',
+    platform_variation_id: '',
+  };
+
+  let service: FalabellaOrdersService;
+  let falabellaService: {
+    getPlatform: jest.Mock;
+    getOrder: jest.Mock;
+    getOrderItems: jest.Mock;
+  };
+  let inventoryService: {
+    findProductBySku: jest.Mock;
+    deductStock: jest.Mock;
+    restoreDeduction: jest.Mock;
+  };
+  let stockLedgerService: { findEntry: jest.Mock };
+  let pendingSalesService: {
+    findByOrderLine: jest.Mock;
+    ignore: jest.Mock;
+    create: jest.Mock;
+  };
+  let orders: { save: jest.Mock };
+  let orderItems: { delete: jest.Mock; save: jest.Mock };
+  let manager: { getRepository: (entity: unknown) => unknown };
+
+  let itemId = 0;
+  const item = (status: string, sku = 'SKU-1'): FalabellaOrderItem => ({
+    OrderItemId: String(++itemId),
+    Sku: sku,
+    Name: 'Polera',
+    ItemPrice: '14990.00',
+    Status: status,
+  });
+
+  beforeEach(async () => {
+    falabellaService = {
+      getPlatform: jest.fn(async () => platform),
+      getOrder: jest.fn(async () => falabellaOrder),
+      getOrderItems: jest.fn(),
+    };
+    inventoryService = {
+      findProductBySku: jest.fn(async () => ({ product_id: 7 })),
+      deductStock: jest.fn(),
+      restoreDeduction: jest.fn(async () => 2),
+    };
+    stockLedgerService = { findEntry: jest.fn(async () => null) };
+    pendingSalesService = {
+      findByOrderLine: jest.fn(async () => null),
+      ignore: jest.fn(),
+      create: jest.fn(),
+    };
+    orders = { save: jest.fn() };
+    orderItems = { delete: jest.fn(), save: jest.fn() };
+    manager = {
+      getRepository: (entity) => (entity === Order ? orders : orderItems),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FalabellaOrdersService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: { findOne: async () => ({ id: 1000000000000001 }) },
+        },
+        { provide: FalabellaService, useValue: falabellaService },
+        { provide: InventoryService, useValue: inventoryService },
+        { provide: StockLedgerService, useValue: stockLedgerService },
+        { provide: PendingSalesService, useValue: pendingSalesService },
+        {
+          provide: DataSource,
+          useValue: { transaction: (work) => work(manager) },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(FalabellaOrdersService);
+  });
+
+  it('descuenta las unidades activas de cada SKU en la transacción de la orden', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([
+      item('pending'),
+      item('pending'),
+      item('canceled'),
+    ]);
+
+    await service.syncOrder('3001');
+
+    expect(orders.save).toHaveBeenCalledWith(
+      expect.objectContaining({ platform_order_id: '3001', status: 'paid' }),
+    );
+    expect(orderItems.delete).toHaveBeenCalled();
+    expect(orderItems.save).toHaveBeenCalledWith(
+      expect.objectContaining({ seller_sku: 'SKU-1', quantity: 2 }),
+    );
+    expect(inventoryService.deductStock).toHaveBeenCalledWith(
+      7,
+      2,
+      expect.objectContaining({ ...key, change_type: 'order' }),
+      manager,
+    );
+  });
+
+  it('restaura lo descontado cuando se cancelan todas las unidades de un SKU', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([
+      item('canceled'),
+      item('canceled'),
+    ]);
+    stockLedgerService.findEntry.mockResolvedValue({ product_id: 7 });
+    pendingSalesService.findByOrderLine.mockResolvedValue({
+      pending_sale_id: 4,
+      status: PendingSaleStatus.PENDING,
+    });
+
+    await service.syncOrder('3001');
+
+    expect(orders.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'cancelled' }),
+    );
+    expect(orderItems.save).toHaveBeenCalledWith(
+      expect.objectContaining({ quantity: 2 }),
+    );
+    expect(inventoryService.restoreDeduction).toHaveBeenCalledWith(
+      key,
+      7,
+      0,
+      expect.objectContaining({
+        change_reason: 'Orden 1200345 cancelada en Falabella',
+      }),
+      manager,
+    );
+    expect(pendingSalesService.ignore).toHaveBeenCalledWith(4, 'Falabella');
+    expect(inventoryService.deductStock).not.toHaveBeenCalled();
+  });
+
+  it('no restaura un SKU cancelado que nunca se descontó', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([item('canceled')]);
+
+    await service.syncOrder('3001');
+
+    expect(inventoryService.restoreDeduction).not.toHaveBeenCalled();
+  });
+
+  it('deja en ventas pendientes un SKU sin producto', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([
+      item('pending', 'SKU-X'),
+    ]);
+    inventoryService.findProductBySku.mockResolvedValue(null);
+
+    await service.syncOrder('3001');
+
+    expect(pendingSalesService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        platform_id: 2,
+        platform_order_id: '3001',
+        platform_sku: 'SKU-X',
+        quantity: 1,
+      }),
+    );
+    expect(inventoryService.deductStock).not.toHaveBeenCalled();
+  });
+
+  it('guarda la orden y deja en ventas pendientes una línea sin stock', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([item('pending')]);
+    inventoryService.deductStock.mockRejectedValue(
+      new BadRequestException('Stock insuficiente de SKU-1 en BODEGA'),
+    );
+
+    await service.syncOrder('3001');
+
+    expect(orders.save).toHaveBeenCalled();
+    expect(pendingSalesService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        platform_order_id: '3001',
+        platform_sku: 'SKU-1',
+        quantity: 1,
+        raw_data: expect.objectContaining({ reason: 'insufficient_stock' }),
+      }),
+    );
+  });
+
+  it('propaga el error del stock para que la transacción se revierta', async () => {
+    falabellaService.getOrderItems.mockResolvedValue([item('pending')]);
+    inventoryService.deductStock.mockRejectedValue(new Error('deadlock'));
+
+    await expect(service.syncOrder('3001')).rejects.toThrow('deadlock');
+  });
+});
@@ -0,0 +1,460 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Order } from '../orders/entities/order.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { Platform } from '../products/entities/platform.entity';
+import { PendingSaleStatus } from '../notification/entities/pending-sale.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import {
+  StockLedgerKey,
+  StockLedgerService,
+} from '../products/services/stock-ledger.service';
+import { PendingSalesService } from '../notification/services/pending-sales.service';
+import { FALABELLA_PLATFORM_ID } from '../products/platforms/platform.constants';
+import {
+  FalabellaOrder,
+  FalabellaOrderItem,
+  FalabellaService,
+} from './falabella.service';
+import { FalabellaSyncResultDto } from './dto/sync-falabella-orders.dto';
+
+const DEFAULT_SYNC_INTERVAL_MS = 15 * 60_000;
+
+/**
+ * Primera sincronización sin fecha: órdenes actualizadas en el último día
+ */
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60_000;
+
+/**
+ * Margen al retomar desde la última sincronización
+ */
+const SYNC_OVERLAP_MS = 5 * 60_000;
+
+/**
+ * Estados de línea que no descuentan stock
+ */
+const CANCELLED_ITEM_STATUSES = ['canceled', 'cancelled', 'failed'];
+
+/**
+ * Ingreso de órdenes de Falabella
+ *
+ * Cada orden se guarda en "order" con platform_id 2 (su id interno sale de
+ * external_order_id_seq) y una línea por SKU. El stock se descuenta por SKU
+ * con el ledger, igual que en Mercado Libre: resincronizar no vuelve a
+ * descontar. Los SKUs sin producto quedan en ventas pendientes. Si se
+ * cancelan todas las unidades de un SKU, su descuento se restaura. La orden,
+ * sus líneas y el stock se guardan en una transacción: si algo falla, la
+ * orden queda como estaba y se reintenta en la próxima sincronización.
+ */
+@Injectable()
+export class FalabellaOrdersService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(FalabellaOrdersService.name);
+  private readonly syncIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private lastSyncAt: Date | null = null;
+
+  constructor(
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    private falabellaService: FalabellaService,
+    private inventoryService: InventoryService,
+    private stockLedgerService: StockLedgerService,
+    private pendingSalesService: PendingSalesService,
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.syncIntervalMs =
+      Number(configService.get('FALABELLA_SYNC_INTERVAL_MS')) ||
+      DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () =>
+        this.syncScheduled().catch((error) =>
+          this.logger.error(`Falabella order sync failed: ${error.message}`),
+        ),
+      this.syncIntervalMs,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sincronizar las órdenes actualizadas desde una fecha
+   * Sin fecha, retoma desde la última sincronización
+   */
+  async syncOrders(updatedAfter?: Date): Promise<FalabellaSyncResultDto> {
+    return this.sync(await this.requirePlatform(), updatedAfter);
+  }
+
+  /**
+   * Sincronizar una sola orden (ej. al recibir un webhook)
+   */
+  async syncOrder(orderId: string): Promise<void> {
+    const platform = await this.requirePlatform();
+    const falabellaOrder = await this.falabellaService.getOrder(
+      platform,
+      orderId,
+    );
+    if (!falabellaOrder) {
+      throw new NotFoundException(
+        `Orden ${orderId} no encontrada en Falabella`,
+      );
+    }
+
+    await this.saveOrder(platform, falabellaOrder);
+  }
+
+  /**
+   * Plataforma Falabella configurada; si no, 400
+   */
+  async requirePlatform(): Promise<Platform> {
+    const platform = await this.falabellaService.getPlatform();
+    if (!platform) {
+      throw new BadRequestException(
+        'Falabella no está activa o no tiene credenciales (client_id, client_secret)',
+      );
+    }
+    return platform;
+  }
+
+  /**
+   * Tarea periódica: no hace nada si Falabella no está configurada
+   */
+  private async syncScheduled(): Promise<void> {
+    const platform = await this.falabellaService.getPlatform();
+    if (platform) {
+      await this.sync(platform);
+    }
+  }
+
+  private async sync(
+    platform: Platform,
+    updatedAfter?: Date,
+  ): Promise<FalabellaSyncResultDto> {
+    const since =
+      updatedAfter ||
+      (this.lastSyncAt
+        ? new Date(this.lastSyncAt.getTime() - SYNC_OVERLAP_MS)
+        : new Date(Date.now() - DEFAULT_LOOKBACK_MS));
+    const result: FalabellaSyncResultDto = {
+      updated_after: since.toISOString(),
+      orders: 0,
+      pending_sales: 0,
+      errors: 0,
+    };
+
+    if (this.syncing) {
+      return result;
+    }
+
+    this.syncing = true;
+    try {
+      const startedAt = new Date();
+      const orders = await this.falabellaService.getAllOrders(platform, {
+        UpdatedAfter: since.toISOString(),
+      });
+
+      for (const falabellaOrder of orders) {
+        try {
+          result.pending_sales += await this.saveOrder(
+            platform,
+            falabellaOrder,
+          );
+          result.orders++;
+        } catch (error) {
+          this.logger.warn(
+            `Failed to save Falabella order ${falabellaOrder.OrderId}: ${error.message}`,
+          );
+          result.errors++;
+        }
+      }
+
+      // Solo las sincronizaciones automáticas mueven el punto de partida
+      if (!updatedAfter) {
+        this.lastSyncAt = startedAt;
+      }
+
+      this.logger.log(
+        `Falabella orders synced since ${result.updated_after}: ${result.orders} orders, ${result.pending_sales} pending sales, ${result.errors} errors`,
+      );
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Guardar una orden con sus líneas y aplicar el stock
+   * @returns Ventas pendientes creadas
+   */
+  private async saveOrder(
+    platform: Platform,
+    falabellaOrder: FalabellaOrder,
+  ): Promise<number> {
+    const platformOrderId = String(falabellaOrder.OrderId);
+    const items = await this.falabellaService.getOrderItems(
+      platform,
+      platformOrderId,
+    );
+    const lines = this.groupBySku(items);
+    const cancelled =
+      lines.length > 0 && lines.every((line) => line.active === 0);
+
+    const existing = await this.orderRepository.findOne({
+      where: {
+        platform_id: FALABELLA_PLATFORM_ID,
+        platform_order_id: platformOrderId,
+      },
+    });
+    const orderId = existing?.id ?? (await this.nextOrderId());
+
+    const activeItems = items.filter((item) => !this.isCancelled(item));
+
+    return this.dataSource.transaction(async (manager) => {
+      await manager.getRepository(Order).save({
+        id: orderId,
+        platform_id: FALABELLA_PLATFORM_ID,
+        platform_order_id: platformOrderId,
+        date_approved: this.parseDate(falabellaOrder.CreatedAt, platform),
+        last_updated: this.parseDate(falabellaOrder.UpdatedAt, platform),
+        status: cancelled ? 'cancelled' : 'paid',
+        total_amount: Number(falabellaOrder.Price) || 0,
+        paid_amount: activeItems.reduce(
+          (sum, item) => sum + (Number(item.PaidPrice ?? item.ItemPrice) || 0),
+          0,
+        ),
+        currency_id: items[0]?.Currency || platform.config?.currency || 'CLP',
+        fulfilled: false,
+        tags: [],
+        logistic_type: null,
+      });
+
+      const orderItemRepository = manager.getRepository(OrderItem);
+      await orderItemRepository.delete({ order: { id: orderId } });
+      for (const line of lines) {
+        await orderItemRepository.save({
+          order: { id: orderId },
+          item_id: line.item.ShopSku || line.item.Sku,
+          title: line.item.Name || '',
+          category_id: '',
+          // Una orden cancelada muestra lo que se había vendido
+          quantity: cancelled ? line.units : line.active,
+          unit_price: Number(line.item.ItemPrice) || 0,
+          full_unit_price: Number(line.item.ItemPrice) || 0,
+          currency_id: line.item.Currency || 'CLP',
+          condition: 'new',
+          warranty: '',
+          seller_sku: line.item.Sku,
+          thumbnail: null,
+        });
+      }
+
+      let pendingSales = 0;
+      for (const line of lines) {
+        const created = await this.applyStock(
+          platform,
+          falabellaOrder,
+          orderId,
+          line.item,
+          line.active,
+          manager,
+        );
+        pendingSales += created ? 1 : 0;
+      }
+      return pendingSales;
+    });
+  }
+
+  /**
+   * Descontar (o restaurar si se canceló) el stock de una línea
+   * @returns true si se creó una venta pendiente
+   */
+  private async applyStock(
+    platform: Platform,
+    falabellaOrder: FalabellaOrder,
+    orderId: number,
+    item: FalabellaOrderItem,
+    units: number,
+    manager: EntityManager,
+  ): Promise<boolean> {
+    const key: StockLedgerKey = {
+      platform_id: FALABELLA_PLATFORM_ID,
+      platform_order_id: String(falabellaOrder.OrderId),
+      platform_item_id: item.Sku,
+      platform_variation_id: '', // El SKU de Falabella ya es por variación
+    };
+    const metadata = {
+      ...key,
+      change_type: 'order' as const,
+      changed_by: 'Falabella',
+      metadata: {
+        order_id: orderId,
+        order_number: falabellaOrder.OrderNumber,
+      },
+    };
+    const pendingSale = await this.pendingSalesService.findByOrderLine(
+      FALABELLA_PLATFORM_ID,
+      key.platform_order_id,
+      item.Sku,
+    );
+
+    if (units === 0) {
+      if (pendingSale?.status === PendingSaleStatus.PENDING) {
+        await this.pendingSalesService.ignore(
+          pendingSale.pending_sale_id,
+          'Falabella',
+        );
+      }
+
+      const entry = await this.stockLedgerService.findEntry(key);
+      if (!entry) {
+        return false;
+      }
+
+      await this.inventoryService.restoreDeduction(
+        key,
+        entry.product_id,
+        0,
+        {
+          ...metadata,
+          change_reason: `Orden ${falabellaOrder.OrderNumber} cancelada en Falabella`,
+        },
+        manager,
+      );
+      return false;
+    }
+
+    const product = await this.inventoryService.findProductBySku(
+      FALABELLA_PLATFORM_ID,
+      item.Sku,
+    );
+    if (!product) {
+      if (pendingSale) {
+        return false;
+      }
+
+      // Queda en ventas pendientes para mapear el SKU manualmente
+      await this.pendingSalesService.create({
+        platform_id: FALABELLA_PLATFORM_ID,
+        platform_order_id: key.platform_order_id,
+        platform_sku: item.Sku,
+        quantity: units,
+        sale_date: this.parseDate(falabellaOrder.CreatedAt, platform),
+        raw_data: {
+          order_number: falabellaOrder.OrderNumber,
+          shop_sku: item.ShopSku,
+          title: item.Name,
+        },
+      });
+      return true;
+    }
+
+    try {
+      await this.inventoryService.deductStock(
+        product.product_id,
+        units,
+        {
+          ...metadata,
+          adjustment_amount: -units,
+          change_reason: `Venta Falabella - Orden ${falabellaOrder.OrderNumber}`,
+        },
+        manager,
+      );
+      return false;
+    } catch (error) {
+      // Sin stock disponible: deductStock no escribió nada y la orden se guarda igual
+      if (!(error instanceof BadRequestException)) {
+        throw error;
+      }
+      if (pendingSale) {
+        return false;
+      }
+
+      // Queda en ventas pendientes: al resolverla se descuenta con el mismo ledger
+      await this.pendingSalesService.create({
+        platform_id: FALABELLA_PLATFORM_ID,
+        platform_order_id: key.platform_order_id,
+        platform_sku: item.Sku,
+        quantity: units,
+        sale_date: this.parseDate(falabellaOrder.CreatedAt, platform),
+        raw_data: {
+          reason: 'insufficient_stock',
+          order_number: falabellaOrder.OrderNumber,
+          product_id: product.product_id,
+          internal_sku: product.internal_sku,
+          error: error.message,
+        },
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Falabella devuelve una línea por unidad: agrupar por SKU
+   */
+  private groupBySku(
+    items: FalabellaOrderItem[],
+  ): { item: FalabellaOrderItem; units: number; active: number }[] {
+    const lines = new Map<
+      string,
+      { item: FalabellaOrderItem; units: number; active: number }
+    >();
+
+    for (const item of items) {
+      const line = lines.get(item.Sku) || { item, units: 0, active: 0 };
+      line.units++;
+      if (!this.isCancelled(item)) {
+        line.active++;
+      }
+      lines.set(item.Sku, line);
+    }
+
+    return [...lines.values()];
+  }
+
+  private isCancelled(item: FalabellaOrderItem): boolean {
+    return CANCELLED_ITEM_STATUSES.includes(item.Status?.toLowerCase());
+  }
+
+  private async nextOrderId(): Promise<number> {
+    const [row] = await this.orderRepository.query(
+      `SELECT nextval('external_order_id_seq') AS id`,
+    );
+    return Number(row.id);
+  }
+
+  /**
+   * Seller Center entrega fechas locales sin zona ("2024-01-15 10:23:45")
+   * Se usa config.timezone_offset (por defecto -04:00, como Mercado Libre)
+   */
+  private parseDate(value: string, platform: Platform): Date {
+    if (!value) {
+      return new Date();
+    }
+    if (/[zZ]|[+-]\d{2}:?\d{2}$/.test(value)) {
+      return new Date(value);
+    }
+
+    const offset = platform.config?.timezone_offset || '-04:00';
+    return new Date(`${value.replace(' ', 'T')}${offset}`);
+  }
+}
@@ -0,0 +1,116 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { FALABELLA_PLATFORM_ID } from '../products/platforms/platform.constants';
+import {
+  PlatformConnector,
+  PlatformOrderQuery,
+  PlatformSyncResult,
+} from '../connectors/platform-connector.interface';
+import { PlatformConnectorRegistry } from '../connectors/platform-connector.registry';
+import { FalabellaService } from './falabella.service';
+import { FalabellaOrdersService } from './falabella-orders.service';
+
+/**
+ * Header con el token compartido de los webhooks (config.webhook_token)
+ */
+const WEBHOOK_TOKEN_HEADER = 'x-webhook-token';
+
+/**
+ * Conector de Falabella Seller Center
+ *
+ * Las fechas de venta usan el mismo día -04:00 que Mercado Libre. Seller
+ * Center no informa el costo de envío del vendedor.
+ */
+@Injectable()
+export class FalabellaConnector implements PlatformConnector, OnModuleInit {
+  readonly platformId = FALABELLA_PLATFORM_ID;
+  readonly name = 'Falabella';
+
+  constructor(
+    private readonly registry: PlatformConnectorRegistry,
+    private readonly falabellaService: FalabellaService,
+    private readonly falabellaOrdersService: FalabellaOrdersService,
+  ) {}
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async fetchOrders(query: PlatformOrderQuery): Promise<any[]> {
+    const platform = await this.falabellaOrdersService.requirePlatform();
+    return this.falabellaService.getAllOrders(platform, {
+      CreatedAfter: `${query.date}T00:00:00-04:00`,
+      CreatedBefore: `${query.date}T23:59:59-04:00`,
+    });
+  }
+
+  async fetchOrderDetails(orderId: string): Promise<any | null> {
+    const platform = await this.falabellaOrdersService.requirePlatform();
+    const order = await this.falabellaService.getOrder(platform, orderId);
+    if (!order) {
+      return null;
+    }
+
+    return {
+      ...order,
+      items: await this.falabellaService.getOrderItems(platform, orderId),
+    };
+  }
+
+  async fetchShipmentCost(): Promise<number | null> {
+    return null;
+  }
+
+  async pushStock(platformSku: string, quantity: number): Promise<void> {
+    const platform = await this.falabellaOrdersService.requirePlatform();
+    await this.falabellaService.updateStock(platform, platformSku, quantity);
+  }
+
+  /**
+   * Seller Center no firma los webhooks: se exige el token configurado
+   * en platforms.config.webhook_token en el header x-webhook-token
+   */
+  async verifyWebhook(
+    payload: any,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<boolean> {
+    const platform = await this.falabellaService.getPlatform();
+    const expected = platform?.config?.webhook_token;
+    const received = headers[WEBHOOK_TOKEN_HEADER];
+
+    if (!expected || typeof received !== 'string') {
+      return false;
+    }
+
+    const a = Buffer.from(received);
+    const b = Buffer.from(String(expected));
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  async syncOrders(query: PlatformOrderQuery): Promise<PlatformSyncResult> {
+    const result = await this.falabellaOrdersService.syncOrders(
+      new Date(`${query.date}T00:00:00-04:00`),
+    );
+
+    return {
+      platform_id: this.platformId,
+      synced: result.orders,
+      errors: result.errors,
+      message: `Se sincronizaron ${result.orders} órdenes de Falabella`,
+    };
+  }
+
+  /**
+   * Eventos de orden ({ event, payload: { OrderId } }): se relee la orden
+   * Otros eventos disparan una sincronización incremental
+   */
+  async handleWebhook(payload: any): Promise<void> {
+    const orderId = payload?.payload?.OrderId ?? payload?.OrderId;
+
+    if (orderId) {
+      await this.falabellaOrdersService.syncOrder(String(orderId));
+    } else {
+      await this.falabellaOrdersService.syncOrders();
+    }
+  }
+}
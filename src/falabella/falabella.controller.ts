@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { FalabellaOrdersService } from './falabella-orders.service';
+import {
+  FalabellaSyncResultDto,
+  SyncFalabellaOrdersQueryDto,
+} from './dto/sync-falabella-orders.dto';
+
+@Controller('falabella')
+export class FalabellaController {
+  constructor(
+    private readonly falabellaOrdersService: FalabellaOrdersService,
+  ) {}
+
+  /**
+   * Sincronizar ahora las órdenes de Falabella (también corre periódicamente)
+   * POST /falabella/orders/sync?updated_after=2024-01-15T00:00:00Z
+   */
+  @Post('orders/sync')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  syncOrders(
+    @Query() query: SyncFalabellaOrdersQueryDto,
+  ): Promise<FalabellaSyncResultDto> {
+    return this.falabellaOrdersService.syncOrders(
+      query.updated_after ? new Date(query.updated_after) : undefined,
+    );
+  }
+}
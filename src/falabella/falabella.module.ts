@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Order } from '../orders/entities/order.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { Platform } from '../products/entities/platform.entity';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ConnectorsModule } from '../connectors/connectors.module';
+import { FalabellaService } from './falabella.service';
+import { FalabellaOrdersService } from './falabella-orders.service';
+import { FalabellaController } from './falabella.controller';
+import { FalabellaConnector } from './falabella.connector';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Order, OrderItem, Platform]),
+    ConfigModule,
+    HttpModule,
+    InventoryModule,
+    ConnectorsModule,
+  ],
+  controllers: [FalabellaController],
+  providers: [FalabellaService, FalabellaOrdersService, FalabellaConnector],
+  exports: [FalabellaService, FalabellaOrdersService],
+})
+export class FalabellaModule {}
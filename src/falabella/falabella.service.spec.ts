@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+import { createHmac } from 'crypto';
+import { FalabellaService } from './falabella.service';
+import { Platform } from '../products/entities/platform.entity';
+
+describe('FalabellaService', () => {
+  const platform = {
+    platform_id: 2,
+    api_base_url: 'https://sellercenter-api.falabella.com',
+    client_id: 'seller@example.com',
+    client_secret: 'secret-key',
+    config: {},
+  } as Platform;
+
+  let service: FalabellaService;
+  let httpService: { get: jest.Mock; post: jest.Mock };
+
+  const respond = (body: any) =>
+    of({ data: { SuccessResponse: { Body: body } } });
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+    httpService = { get: jest.fn(), post: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FalabellaService,
+        { provide: getRepositoryToken(Platform), useValue: {} },
+        { provide: HttpService, useValue: httpService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(FalabellaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('firma los parámetros ordenados y codificados con HMAC-SHA256', async () => {
+    httpService.get.mockReturnValue(respond({ OrderItems: { OrderItem: [] } }));
+
+    await service.getOrderItems(platform, '123');
+
+    const [url, { params }] = httpService.get.mock.calls[0];
+    const payload =
+      'Action=GetOrderItems&Format=JSON&OrderId=123' +
+      '&Timestamp=2024-01-15T12%3A00%3A00%2B00%3A00' +
+      '&UserID=seller%40example.com&Version=1.0';
+
+    expect(url).toBe(platform.api_base_url);
+    expect(params).toMatchObject({
+      Action: 'GetOrderItems',
+      OrderId: '123',
+      Timestamp: '2024-01-15T12:00:00+00:00',
+      UserID: 'seller@example.com',
+    });
+    expect(params.Signature).toBe(
+      createHmac('sha256', 'secret-key').update(payload).digest('hex'),
+    );
+  });
+
+  it('usa FALABELLA_API_URL en vez de api_base_url', async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        FalabellaService,
+        { provide: getRepositoryToken(Platform), useValue: {} },
+        { provide: HttpService, useValue: httpService },
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'http://localhost:4010' },
+        },
+      ],
+    }).compile();
+    httpService.get.mockReturnValue(respond({ Orders: { Order: [] } }));
+
+    await module.get(FalabellaService).getOrders(platform, {});
+
+    expect(httpService.get.mock.calls[0][0]).toBe('http://localhost:4010');
+  });
+
+  it('recorre las páginas de GetOrders hasta una página incompleta', async () => {
+    const page = (size: number, from: number) =>
+      Array.from({ length: size }, (_, i) => ({ OrderId: String(from + i) }));
+    httpService.get
+      .mockReturnValueOnce(respond({ Orders: { Order: page(100, 0) } }))
+      .mockReturnValueOnce(respond({ Orders: { Order: page(30, 100) } }));
+
+    const orders = await service.getAllOrders(platform, {
+      UpdatedAfter: '2024-01-14T00:00:00.000Z',
+    });
+
+    expect(orders).toHaveLength(130);
+    expect(httpService.get).toHaveBeenCalledTimes(2);
+    expect(
+      httpService.get.mock.calls.map(([, { params }]) => params.Offset),
+    ).toEqual(['0', '100']);
+    expect(httpService.get.mock.calls[1][1].params).toMatchObject({
+      Limit: '100',
+      UpdatedAfter: '2024-01-14T00:00:00.000Z',
+    });
+  });
+
+  it('devuelve un arreglo aunque Seller Center entregue un solo objeto', async () => {
+    const item = { OrderItemId: '1', Sku: 'SKU-1', Status: 'pending' };
+    httpService.get
+      .mockReturnValueOnce(respond({ OrderItems: { OrderItem: item } }))
+      .mockReturnValueOnce(respond({ Orders: { Order: { OrderId: '9' } } }))
+      .mockReturnValueOnce(respond({ Orders: '' }));
+
+    expect(await service.getOrderItems(platform, '9')).toEqual([item]);
+    expect(await service.getOrder(platform, '9')).toEqual({ OrderId: '9' });
+    expect(await service.getOrder(platform, '10')).toBeNull();
+  });
+
+  it('lanza el error de Seller Center', async () => {
+    httpService.get.mockReturnValue(
+      of({
+        data: {
+          ErrorResponse: {
+            Head: { ErrorCode: '9', ErrorMessage: 'E009: Access Denied' },
+          },
+        },
+      }),
+    );
+
+    await expect(service.getOrders(platform, {})).rejects.toThrow(
+      '9: E009: Access Denied',
+    );
+  });
+});
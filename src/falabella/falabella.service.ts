@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import { createHmac } from 'crypto';
+import { Platform } from '../products/entities/platform.entity';
+import { FALABELLA_PLATFORM_ID } from '../products/platforms/platform.constants';
+
+/**
+ * Máximo de órdenes por página que acepta GetOrders
+ */
+export const FALABELLA_ORDERS_PAGE_SIZE = 100;
+
+/**
+ * Orden de Falabella Seller Center (campos que usamos)
+ */
+export interface FalabellaOrder {
+  OrderId: string;
+  OrderNumber: string;
+  CreatedAt: string;
+  UpdatedAt: string;
+  Price: string;
+  ItemsCount?: string;
+  CustomerFirstName?: string;
+  CustomerLastName?: string;
+  Statuses?: { Status: string | string[] };
+  [key: string]: any;
+}
+
+/**
+ * Línea de orden de Falabella: una por unidad vendida
+ */
+export interface FalabellaOrderItem {
+  OrderItemId: string;
+  Sku: string;
+  ShopSku?: string;
+  Name: string;
+  ItemPrice: string;
+  PaidPrice?: string;
+  Currency?: string;
+  Status: string;
+  ShippingType?: string;
+  [key: string]: any;
+}
+
+/**
+ * Cliente de la API de Falabella Seller Center
+ *
+ * Usa la fila de Falabella en platforms: api_base_url, client_id (UserID,
+ * el email del usuario de Seller Center) y client_secret (API key). En
+ * config se pueden agregar version y user_agent. FALABELLA_API_URL
+ * reemplaza api_base_url (ej. un servidor local de pruebas).
+ */
+@Injectable()
+export class FalabellaService {
+  private readonly logger = new Logger(FalabellaService.name);
+  private readonly apiUrlOverride: string | undefined;
+
+  constructor(
+    @InjectRepository(Platform)
+    private readonly platformRepository: Repository<Platform>,
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.apiUrlOverride = configService.get<string>('FALABELLA_API_URL');
+  }
+
+  /**
+   * Plataforma Falabella si está activa y tiene credenciales
+   */
+  async getPlatform(): Promise<Platform | null> {
+    const platform = await this.platformRepository.findOne({
+      where: { platform_id: FALABELLA_PLATFORM_ID },
+    });
+
+    if (
+      !platform?.is_active ||
+      !platform.client_id ||
+      !platform.client_secret
+    ) {
+      return null;
+    }
+    return platform;
+  }
+
+  /**
+   * Una página de órdenes
+   * @param filters - Filtros de GetOrders (UpdatedAfter, CreatedAfter, CreatedBefore...)
+   */
+  async getOrders(
+    platform: Platform,
+    filters: Record<string, string>,
+    offset: number = 0,
+    limit: number = FALABELLA_ORDERS_PAGE_SIZE,
+  ): Promise<FalabellaOrder[]> {
+    const body = await this.request(platform, 'GetOrders', {
+      SortBy: 'updated_at',
+      SortDirection: 'ASC',
+      ...filters,
+      Offset: String(offset),
+      Limit: String(limit),
+    });
+
+    return this.toArray(body?.Orders?.Order);
+  }
+
+  /**
+   * Todas las órdenes que cumplen los filtros (recorre las páginas)
+   */
+  async getAllOrders(
+    platform: Platform,
+    filters: Record<string, string>,
+  ): Promise<FalabellaOrder[]> {
+    const orders: FalabellaOrder[] = [];
+
+    for (let offset = 0; ; offset += FALABELLA_ORDERS_PAGE_SIZE) {
+      const page = await this.getOrders(platform, filters, offset);
+      orders.push(...page);
+      if (page.length < FALABELLA_ORDERS_PAGE_SIZE) {
+        return orders;
+      }
+    }
+  }
+
+  /**
+   * Una orden por su OrderId (null si no existe)
+   */
+  async getOrder(
+    platform: Platform,
+    orderId: string,
+  ): Promise<FalabellaOrder | null> {
+    const body = await this.request(platform, 'GetOrder', {
+      OrderId: orderId,
+    });
+
+    return this.toArray<FalabellaOrder>(body?.Orders?.Order)[0] || null;
+  }
+
+  /**
+   * Líneas de una orden
+   */
+  async getOrderItems(
+    platform: Platform,
+    orderId: string,
+  ): Promise<FalabellaOrderItem[]> {
+    const body = await this.request(platform, 'GetOrderItems', {
+      OrderId: orderId,
+    });
+
+    return this.toArray(body?.OrderItems?.OrderItem);
+  }
+
+  /**
+   * Fijar el stock de un producto (SellerSku) en Falabella
+   */
+  async updateStock(
+    platform: Platform,
+    sellerSku: string,
+    quantity: number,
+  ): Promise<void> {
+    const xml =
+      '<?xml version="1.0" encoding="UTF-8" ?>' +
+      `<Request><Product><SellerSku>${this.escapeXml(sellerSku)}</SellerSku>` +
+      `<Quantity>${Math.max(0, Math.floor(quantity))}</Quantity></Product></Request>`;
+
+    await this.request(platform, 'ProductUpdate', {}, xml);
+  }
+
+  /**
+   * Llamada firmada a Seller Center; devuelve SuccessResponse.Body
+   * Con body (XML) se envía como POST
+   */
+  private async request(
+    platform: Platform,
+    action: string,
+    params: Record<string, string>,
+    body?: string,
+  ): Promise<any> {
+    const query: Record<string, string> = {
+      ...params,
+      Action: action,
+      Format: 'JSON',
+      Timestamp: new Date().toISOString().replace(/\.\d{3}Z$/, '+00:00'),
+      UserID: platform.client_id,
+      Version: platform.config?.version || '1.0',
+    };
+    query.Signature = this.sign(query, platform.client_secret);
+
+    const url = this.apiUrlOverride || platform.api_base_url;
+    this.logger.debug(`Falabella ${action} ${JSON.stringify(params)}`);
+
+    try {
+      const headers = platform.config?.user_agent
+        ? { 'User-Agent': platform.config.user_agent }
+        : {};
+      const response = await firstValueFrom(
+        body
+          ? this.httpService.post(url, body, {
+              params: query,
+              headers: { ...headers, 'Content-Type': 'application/xml' },
+            })
+          : this.httpService.get(url, { params: query, headers }),
+      );
+
+      const error = response.data?.ErrorResponse?.Head;
+      if (error) {
+        throw new Error(`${error.ErrorCode}: ${error.ErrorMessage}`);
+      }
+
+      return response.data?.SuccessResponse?.Body;
+    } catch (error) {
+      const head = error.response?.data?.ErrorResponse?.Head;
+      const message = head
+        ? `${head.ErrorCode}: ${head.ErrorMessage}`
+        : error.message;
+      this.logger.error(`Falabella ${action} failed: ${message}`);
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * HMAC-SHA256 de los parámetros ordenados y codificados (RFC 3986)
+   */
+  private sign(params: Record<string, string>, apiKey: string): string {
+    const payload = Object.keys(params)
+      .sort()
+      .map((key) => `${this.encode(key)}=${this.encode(params[key])}`)
+      .join('&');
+
+    return createHmac('sha256', apiKey).update(payload).digest('hex');
+  }
+
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Seller Center devuelve un objeto en vez de un arreglo si hay uno solo
+   */
+  private toArray<T>(value: T | T[] | undefined | null): T[] {
+    if (!value) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { StockLocationCode } from '../../products/entities/stock-location.entity';
+import { InventoryCountStatus } from '../entities/inventory-count.entity';
+
+export class OpenInventoryCountDto {
+  @IsOptional()
+  @IsEnum(StockLocationCode, {
+    message: 'location debe ser BODEGA, FLEX o FULL',
+  })
+  location?: StockLocationCode; // BODEGA por defecto
+
+  @IsString()
+  @IsNotEmpty()
+  opened_by: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CountItemDto {
+  @ValidateIf((item) => !item.sku)
+  @IsInt({ message: 'Cada ítem necesita product_id o sku' })
+  product_id?: number;
+
+  @ValidateIf((item) => !item.product_id)
+  @IsString({ message: 'Cada ítem necesita product_id o sku' })
+  @IsNotEmpty()
+  sku?: string; // SKU interno, secundario o mapeado
+
+  @IsInt()
+  @Min(0, { message: 'counted_quantity no puede ser negativo' })
+  counted_quantity: number;
+}
+
+/**
+ * Carga masiva: fija las unidades contadas de cada producto
+ */
+export class RecordCountsDto {
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Debe informar al menos un producto' })
+  @ValidateNested({ each: true })
+  @Type(() => CountItemDto)
+  items: CountItemDto[];
+
+  @IsString()
+  @IsNotEmpty()
+  counted_by: string;
+}
+
+/**
+ * Escaneo: suma unidades a lo ya contado
+ */
+export class ScanCountDto {
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity?: number; // 1 por defecto
+
+  @IsString()
+  @IsNotEmpty()
+  counted_by: string;
+}
+
+export class ApproveInventoryCountDto {
+  @IsString()
+  @IsNotEmpty()
+  approved_by: string;
+
+  @IsOptional()
+  @IsBoolean()
+  zero_uncounted?: boolean; // Productos sin contar quedan en 0 (por defecto no se ajustan)
+}
+
+export class GetInventoryCountsQueryDto {
+  @IsOptional()
+  @IsEnum(InventoryCountStatus, {
+    message: 'status debe ser: open, approved o cancelled',
+  })
+  status?: InventoryCountStatus;
+}
+
+export class GetInventoryCountQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  only_variances?: boolean = false; // Solo productos contados con diferencia
+}
+
+export class InventoryCountLineDto {
+  product_id: number;
+  internal_sku: string;
+  name: string;
+  system_quantity: number;
+  counted_quantity: number | null;
+  variance: number | null; // contado - sistema
+  unit_cost: number | null;
+  variance_value: number | null; // variance * unit_cost (neto)
+  counted_by: string | null;
+  counted_at: Date | null;
+}
+
+export class InventoryCountSummaryDto {
+  products: number;
+  counted: number;
+  uncounted: number;
+  with_variance: number;
+  surplus_units: number; // Sobrantes
+  shortage_units: number; // Faltantes
+  surplus_value: number;
+  shortage_value: number;
+  net_value: number; // surplus_value - shortage_value
+  missing_cost: number; // Productos con diferencia y sin costo
+}
+
+export class InventoryCountResponseDto {
+  inventory_count_id: number;
+  location: StockLocationCode;
+  status: InventoryCountStatus;
+  opened_by: string;
+  approved_by: string | null;
+  notes: string | null;
+  created_at: Date;
+  closed_at: Date | null;
+  summary: InventoryCountSummaryDto;
+  lines: InventoryCountLineDto[];
+}
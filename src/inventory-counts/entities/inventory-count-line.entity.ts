@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+import { InventoryCount } from './inventory-count.entity';
+
+/**
+ * Producto de una sesión de conteo: stock congelado y unidades contadas
+ */
+@Entity('inventory_count_lines')
+@Unique(['inventory_count_id', 'product_id'])
+export class InventoryCountLine {
+  @PrimaryGeneratedColumn()
+  inventory_count_line_id: number;
+
+  @Column()
+  inventory_count_id: number;
+
+  @Column()
+  product_id: number;
+
+  @Column({ type: 'int' })
+  system_quantity: number; // Stock de la ubicación al abrir la sesión
+
+  @Column({ type: 'int', nullable: true })
+  counted_quantity: number | null; // null = sin contar
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  unit_cost: number | null; // products.cost al abrir la sesión
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  counted_by: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  counted_at: Date | null;
+
+  @ManyToOne(() => InventoryCount, (count) => count.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'inventory_count_id' })
+  inventoryCount: InventoryCount;
+
+  @ManyToOne(() => Product, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { StockLocationCode } from '../../products/entities/stock-location.entity';
+import { InventoryCountLine } from './inventory-count-line.entity';
+
+export enum InventoryCountStatus {
+  OPEN = 'open', // Contando
+  APPROVED = 'approved', // Diferencias ajustadas en el stock
+  CANCELLED = 'cancelled', // Descartada sin ajustar
+}
+
+/**
+ * Sesión de conteo físico de una ubicación
+ */
+@Entity('inventory_counts')
+export class InventoryCount {
+  @PrimaryGeneratedColumn()
+  inventory_count_id: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  location: StockLocationCode;
+
+  @Column({
+    type: 'enum',
+    enum: InventoryCountStatus,
+    default: InventoryCountStatus.OPEN,
+  })
+  status: InventoryCountStatus;
+
+  @Column({ type: 'varchar', length: 255 })
+  opened_by: string;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  approved_by: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closed_at: Date | null; // Aprobación o anulación
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @OneToMany(() => InventoryCountLine, (line) => line.inventoryCount)
+  lines: InventoryCountLine[];
+}
@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { InventoryCountsService } from './inventory-counts.service';
+import {
+  ApproveInventoryCountDto,
+  GetInventoryCountQueryDto,
+  GetInventoryCountsQueryDto,
+  InventoryCountLineDto,
+  InventoryCountResponseDto,
+  OpenInventoryCountDto,
+  RecordCountsDto,
+  ScanCountDto,
+} from './dto/inventory-count.dto';
+
+@Controller('inventory-counts')
+export class InventoryCountsController {
+  constructor(
+    private readonly inventoryCountsService: InventoryCountsService,
+  ) {}
+
+  /**
+   * Abrir un conteo: congela el stock de la ubicación
+   */
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  open(@Body() dto: OpenInventoryCountDto): Promise<InventoryCountResponseDto> {
+    return this.inventoryCountsService.open(dto);
+  }
+
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  findAll(@Query() query: GetInventoryCountsQueryDto) {
+    return this.inventoryCountsService.findAll(query);
+  }
+
+  /**
+   * Diferencias por producto y en dinero
+   * GET /inventory-counts/:id?only_variances=true
+   */
+  @Get(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  getReport(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetInventoryCountQueryDto,
+  ): Promise<InventoryCountResponseDto> {
+    return this.inventoryCountsService.getReport(id, query);
+  }
+
+  @Put(':id/lines')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  recordCounts(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: RecordCountsDto,
+  ): Promise<InventoryCountResponseDto> {
+    return this.inventoryCountsService.recordCounts(id, dto);
+  }
+
+  @Post(':id/scan')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  scan(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ScanCountDto,
+  ): Promise<InventoryCountLineDto> {
+    return this.inventoryCountsService.scan(id, dto);
+  }
+
+  /**
+   * Aprobar: ajusta el stock por las diferencias contadas
+   */
+  @Post(':id/approve')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  approve(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ApproveInventoryCountDto,
+  ): Promise<InventoryCountResponseDto> {
+    return this.inventoryCountsService.approve(id, dto);
+  }
+
+  @Post(':id/cancel')
+  cancel(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<InventoryCountResponseDto> {
+    return this.inventoryCountsService.cancel(id);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Product } from '../products/entities/product.entity';
+import { ProductMapping } from '../products/entities/product-mapping.entity';
+import { ProductComponent } from '../products/entities/product-component.entity';
+import { ProductStockLocation } from '../products/entities/product-stock-location.entity';
+import { InventoryModule } from '../inventory/inventory.module';
+import { InventoryCount } from './entities/inventory-count.entity';
+import { InventoryCountLine } from './entities/inventory-count-line.entity';
+import { InventoryCountsService } from './inventory-counts.service';
+import { InventoryCountsController } from './inventory-counts.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      InventoryCount,
+      InventoryCountLine,
+      Product,
+      ProductMapping,
+      ProductComponent,
+      ProductStockLocation,
+    ]),
+    InventoryModule,
+  ],
+  controllers: [InventoryCountsController],
+  providers: [InventoryCountsService],
+})
+export class InventoryCountsModule {}
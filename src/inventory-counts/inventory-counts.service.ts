@@ -0,0 +1,525 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Product } from '../products/entities/product.entity';
+import { ProductMapping } from '../products/entities/product-mapping.entity';
+import { ProductComponent } from '../products/entities/product-component.entity';
+import { ProductStockLocation } from '../products/entities/product-stock-location.entity';
+import { StockLocationCode } from '../products/entities/stock-location.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import {
+  InventoryCount,
+  InventoryCountStatus,
+} from './entities/inventory-count.entity';
+import { InventoryCountLine } from './entities/inventory-count-line.entity';
+import {
+  ApproveInventoryCountDto,
+  GetInventoryCountQueryDto,
+  GetInventoryCountsQueryDto,
+  InventoryCountLineDto,
+  InventoryCountResponseDto,
+  InventoryCountSummaryDto,
+  OpenInventoryCountDto,
+  RecordCountsDto,
+  ScanCountDto,
+} from './dto/inventory-count.dto';
+
+/**
+ * Conteos físicos de inventario
+ *
+ * Al abrir la sesión se congela el stock de cada producto en la ubicación
+ * (los kits no se cuentan: su stock está en los componentes). Las ventas
+ * durante el conteo siguen descontando, por eso al aprobar se ajusta la
+ * diferencia contado - congelado y no el valor contado. Todos los ajustes
+ * quedan en product_history con metadata.inventory_count_id.
+ */
+@Injectable()
+export class InventoryCountsService {
+  private readonly logger = new Logger(InventoryCountsService.name);
+
+  constructor(
+    @InjectRepository(InventoryCount)
+    private countRepository: Repository<InventoryCount>,
+    @InjectRepository(InventoryCountLine)
+    private lineRepository: Repository<InventoryCountLine>,
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    @InjectRepository(ProductMapping)
+    private mappingRepository: Repository<ProductMapping>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+    @InjectRepository(ProductStockLocation)
+    private productLocationRepository: Repository<ProductStockLocation>,
+    private inventoryService: InventoryService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Abrir una sesión y congelar el stock de la ubicación
+   */
+  async open(dto: OpenInventoryCountDto): Promise<InventoryCountResponseDto> {
+    const location = dto.location || StockLocationCode.BODEGA;
+    const existing = await this.countRepository.findOne({
+      where: { location, status: InventoryCountStatus.OPEN },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Ya hay un conteo abierto en ${location} (#${existing.inventory_count_id})`,
+      );
+    }
+
+    const count = await this.countRepository.save(
+      this.countRepository.create({
+        location,
+        status: InventoryCountStatus.OPEN,
+        opened_by: dto.opened_by,
+        notes: dto.notes || null,
+      }),
+    );
+
+    const kitIds = await this.getKitIds();
+    const products = (await this.productRepository.find()).filter(
+      (product) => !kitIds.has(product.product_id),
+    );
+    const quantities = await this.getLocationQuantities(location);
+
+    await this.lineRepository.save(
+      products.map((product) =>
+        this.lineRepository.create({
+          inventory_count_id: count.inventory_count_id,
+          product_id: product.product_id,
+          system_quantity: quantities.get(product.product_id) || 0,
+          counted_quantity: null,
+          unit_cost: product.cost ?? null,
+        }),
+      ),
+      { chunk: 500 },
+    );
+
+    this.logger.log(
+      `Inventory count ${count.inventory_count_id} opened in ${location}: ${products.length} products`,
+    );
+    return this.getReport(count.inventory_count_id);
+  }
+
+  async findAll(query: GetInventoryCountsQueryDto): Promise<InventoryCount[]> {
+    return this.countRepository.find({
+      where: query.status ? { status: query.status } : {},
+      order: { created_at: 'DESC' },
+    });
+  }
+
+  /**
+   * Diferencias por producto y en dinero (products.cost al abrir)
+   */
+  async getReport(
+    id: number,
+    query: GetInventoryCountQueryDto = {},
+  ): Promise<InventoryCountResponseDto> {
+    const count = await this.findOne(id);
+    const lines = await this.lineRepository.find({
+      where: { inventory_count_id: id },
+    });
+
+    const rows = lines
+      .map((line) => this.toLineDto(line))
+      .sort((a, b) => a.internal_sku.localeCompare(b.internal_sku));
+
+    return {
+      inventory_count_id: count.inventory_count_id,
+      location: count.location,
+      status: count.status,
+      opened_by: count.opened_by,
+      approved_by: count.approved_by,
+      notes: count.notes,
+      created_at: count.created_at,
+      closed_at: count.closed_at,
+      summary: this.summarize(rows),
+      lines: query.only_variances
+        ? rows.filter((row) => row.variance !== null && row.variance !== 0)
+        : rows,
+    };
+  }
+
+  /**
+   * Carga masiva: fija las unidades contadas
+   */
+  async recordCounts(
+    id: number,
+    dto: RecordCountsDto,
+  ): Promise<InventoryCountResponseDto> {
+    const count = await this.requireOpen(id);
+
+    // Resolver todo antes de guardar
+    const resolved: { line: InventoryCountLine; quantity: number }[] = [];
+    for (const item of dto.items) {
+      const product = await this.resolveProduct(item.product_id, item.sku);
+      resolved.push({
+        line: await this.getOrCreateLine(count, product),
+        quantity: item.counted_quantity,
+      });
+    }
+
+    const now = new Date();
+    for (const { line, quantity } of resolved) {
+      await this.lineRepository.update(line.inventory_count_line_id, {
+        counted_quantity: quantity,
+        counted_by: dto.counted_by,
+        counted_at: now,
+      });
+    }
+
+    return this.getReport(id);
+  }
+
+  /**
+   * Escaneo: suma unidades a lo contado del producto
+   */
+  async scan(id: number, dto: ScanCountDto): Promise<InventoryCountLineDto> {
+    const count = await this.requireOpen(id);
+    const product = await this.resolveProduct(undefined, dto.sku);
+    const line = await this.getOrCreateLine(count, product);
+
+    line.counted_quantity = (line.counted_quantity || 0) + (dto.quantity || 1);
+    line.counted_by = dto.counted_by;
+    line.counted_at = new Date();
+    await this.lineRepository.update(line.inventory_count_line_id, {
+      counted_quantity: line.counted_quantity,
+      counted_by: line.counted_by,
+      counted_at: line.counted_at,
+    });
+
+    return this.toLineDto(line);
+  }
+
+  /**
+   * Aprobar: ajusta el stock de cada producto por su diferencia
+   * Valida que ningún ajuste deje la ubicación en negativo antes de aplicar
+   */
+  async approve(
+    id: number,
+    dto: ApproveInventoryCountDto,
+  ): Promise<InventoryCountResponseDto> {
+    const adjustments = await this.dataSource.transaction((manager) =>
+      this.applyApproval(id, dto, manager),
+    );
+
+    this.logger.log(
+      `Inventory count ${id} approved: ${adjustments} adjustments`,
+    );
+    return this.getReport(id);
+  }
+
+  /**
+   * Contar en 0 lo pendiente, validar y ajustar el stock y cerrar la sesión,
+   * todo en la transacción de approve
+   * @returns Cantidad de ajustes
+   */
+  private async applyApproval(
+    id: number,
+    dto: ApproveInventoryCountDto,
+    manager: EntityManager,
+  ): Promise<number> {
+    // La sesión queda bloqueada hasta el commit: una segunda aprobación
+    // espera y la encuentra aprobada, sin repetir los ajustes
+    const count = await this.requireOpen(id, manager);
+    const lines = await manager.getRepository(InventoryCountLine).find({
+      where: { inventory_count_id: id },
+    });
+
+    if (dto.zero_uncounted) {
+      const uncounted = lines.filter((line) => line.counted_quantity === null);
+      for (const line of uncounted) {
+        line.counted_quantity = 0;
+        line.counted_by = dto.approved_by;
+        line.counted_at = new Date();
+        await manager
+          .getRepository(InventoryCountLine)
+          .update(line.inventory_count_line_id, {
+            counted_quantity: 0,
+            counted_by: line.counted_by,
+            counted_at: line.counted_at,
+          });
+      }
+    }
+
+    const corrections = lines
+      .filter((line) => line.counted_quantity !== null)
+      .map((line) => ({
+        line,
+        delta: line.counted_quantity - line.system_quantity,
+      }))
+      .filter(({ delta }) => delta !== 0);
+
+    const invalid: string[] = [];
+    for (const { line, delta } of corrections) {
+      const current = await this.inventoryService.getLocationQuantity(
+        line.product_id,
+        count.location,
+        manager,
+      );
+      if (current + delta < 0) {
+        invalid.push(
+          `${line.product.internal_sku} (stock ${current}, ajuste ${delta})`,
+        );
+      }
+    }
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Los ajustes dejarían stock negativo en ${count.location}: ${invalid.join(', ')}`,
+      );
+    }
+
+    const reason = `Conteo de inventario #${id} (${count.location})`;
+    for (const { line, delta } of corrections) {
+      await this.inventoryService.adjustStock(
+        line.product_id,
+        delta,
+        {
+          location: count.location,
+          change_type: 'adjustment',
+          changed_by: dto.approved_by,
+          change_reason: reason,
+          metadata: {
+            inventory_count_id: id,
+            system_quantity: line.system_quantity,
+            counted_quantity: line.counted_quantity,
+          },
+        },
+        manager,
+      );
+    }
+
+    await manager.getRepository(InventoryCount).update(id, {
+      status: InventoryCountStatus.APPROVED,
+      approved_by: dto.approved_by,
+      closed_at: new Date(),
+    });
+
+    return corrections.length;
+  }
+
+  /**
+   * Descartar la sesión sin ajustar stock
+   */
+  async cancel(id: number): Promise<InventoryCountResponseDto> {
+    await this.requireOpen(id);
+    await this.countRepository.update(id, {
+      status: InventoryCountStatus.CANCELLED,
+      closed_at: new Date(),
+    });
+    return this.getReport(id);
+  }
+
+  private async findOne(
+    id: number,
+    manager?: EntityManager,
+  ): Promise<InventoryCount> {
+    const count = manager
+      ? await manager.getRepository(InventoryCount).findOne({
+          where: { inventory_count_id: id },
+          lock: { mode: 'pessimistic_write' },
+        })
+      : await this.countRepository.findOne({
+          where: { inventory_count_id: id },
+        });
+    if (!count) {
+      throw new NotFoundException(`Conteo de inventario ${id} no encontrado`);
+    }
+    return count;
+  }
+
+  /**
+   * @param manager - Transacción en curso: la sesión se bloquea hasta el commit
+   */
+  private async requireOpen(
+    id: number,
+    manager?: EntityManager,
+  ): Promise<InventoryCount> {
+    const count = await this.findOne(id, manager);
+    if (count.status !== InventoryCountStatus.OPEN) {
+      throw new BadRequestException(
+        `El conteo de inventario ${id} está ${count.status}`,
+      );
+    }
+    return count;
+  }
+
+  /**
+   * Línea del producto; productos creados después de abrir la sesión
+   * se congelan con su stock actual
+   */
+  private async getOrCreateLine(
+    count: InventoryCount,
+    product: Product,
+  ): Promise<InventoryCountLine> {
+    const line = await this.lineRepository.findOne({
+      where: {
+        inventory_count_id: count.inventory_count_id,
+        product_id: product.product_id,
+      },
+    });
+    if (line) {
+      return line;
+    }
+
+    if ((await this.getKitIds()).has(product.product_id)) {
+      throw new BadRequestException(
+        `${product.internal_sku} es un kit: cuente sus componentes`,
+      );
+    }
+
+    const created = await this.lineRepository.save(
+      this.lineRepository.create({
+        inventory_count_id: count.inventory_count_id,
+        product_id: product.product_id,
+        system_quantity: await this.inventoryService.getLocationQuantity(
+          product.product_id,
+          count.location,
+        ),
+        counted_quantity: null,
+        unit_cost: product.cost ?? null,
+      }),
+    );
+    created.product = product;
+    return created;
+  }
+
+  /**
+   * Producto por ID, SKU interno, SKU secundario o SKU mapeado
+   */
+  private async resolveProduct(
+    productId?: number,
+    sku?: string,
+  ): Promise<Product> {
+    let product: Product | null = null;
+
+    if (productId) {
+      product = await this.productRepository.findOne({
+        where: { product_id: productId },
+      });
+    } else if (sku) {
+      product =
+        (await this.productRepository.findOne({
+          where: { internal_sku: sku },
+        })) ||
+        (await this.productRepository
+          .createQueryBuilder('product')
+          .innerJoin('product.secondarySkus', 'secondary')
+          .where('secondary.secondary_sku = :sku', { sku })
+          .getOne()) ||
+        (
+          await this.mappingRepository.findOne({
+            where: { platform_sku: sku, is_active: true },
+            relations: ['product'],
+          })
+        )?.product ||
+        null;
+    }
+
+    if (!product) {
+      throw new NotFoundException(`Producto ${productId ?? sku} no encontrado`);
+    }
+    return product;
+  }
+
+  private async getKitIds(): Promise<Set<number>> {
+    const rows = await this.componentRepository
+      .createQueryBuilder('component')
+      .select('DISTINCT component.kit_product_id', 'kit_product_id')
+      .getRawMany();
+
+    return new Set(rows.map((row) => Number(row.kit_product_id)));
+  }
+
+  private async getLocationQuantities(
+    location: StockLocationCode,
+  ): Promise<Map<number, number>> {
+    const { location_id } = await this.inventoryService.getLocation(location);
+    const rows = await this.productLocationRepository.find({
+      where: { location_id },
+    });
+
+    return new Map(rows.map((row) => [row.product_id, row.quantity]));
+  }
+
+  private toLineDto(line: InventoryCountLine): InventoryCountLineDto {
+    const unitCost = line.unit_cost === null ? null : Number(line.unit_cost);
+    const variance =
+      line.counted_quantity === null
+        ? null
+        : line.counted_quantity - line.system_quantity;
+
+    return {
+      product_id: line.product_id,
+      internal_sku: line.product.internal_sku,
+      name: line.product.name,
+      system_quantity: line.system_quantity,
+      counted_quantity: line.counted_quantity,
+      variance,
+      unit_cost: unitCost,
+      variance_value:
+        variance === null || unitCost === null
+          ? null
+          : this.round(variance * unitCost),
+      counted_by: line.counted_by,
+      counted_at: line.counted_at,
+    };
+  }
+
+  private summarize(rows: InventoryCountLineDto[]): InventoryCountSummaryDto {
+    const summary: InventoryCountSummaryDto = {
+      products: rows.length,
+      counted: 0,
+      uncounted: 0,
+      with_variance: 0,
+      surplus_units: 0,
+      shortage_units: 0,
+      surplus_value: 0,
+      shortage_value: 0,
+      net_value: 0,
+      missing_cost: 0,
+    };
+
+    for (const row of rows) {
+      if (row.variance === null) {
+        summary.uncounted++;
+        continue;
+      }
+
+      summary.counted++;
+      if (row.variance === 0) {
+        continue;
+      }
+
+      summary.with_variance++;
+      if (row.variance_value === null) {
+        summary.missing_cost++;
+      }
+      if (row.variance > 0) {
+        summary.surplus_units += row.variance;
+        summary.surplus_value += row.variance_value ?? 0;
+      } else {
+        summary.shortage_units -= row.variance;
+        summary.shortage_value -= row.variance_value ?? 0;
+      }
+    }
+
+    summary.surplus_value = this.round(summary.surplus_value);
+    summary.shortage_value = this.round(summary.shortage_value);
+    summary.net_value = this.round(
+      summary.surplus_value - summary.shortage_value,
+    );
+    return summary;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
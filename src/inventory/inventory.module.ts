@@ -5,11 +5,30 @@ import { ProductHistory } from '../products/entities/product-history.entity';
 import { ProductMapping } from '../products/entities/product-mapping.entity';
 import { PendingSale } from '../notification/entities/pending-sale.entity';
 import { Platform } from '../products/entities/platform.entity';
+import { StockLedgerEntry } from '../products/entities/stock-ledger-entry.entity';
+import { StockReservation } from '../products/entities/stock-reservation.entity';
+import { StockLocation } from '../products/entities/stock-location.entity';
+import { ProductStockLocation } from '../products/entities/product-stock-location.entity';
+import { MlListing } from '../mercadolibre/entities/ml-listing.entity';
+import { MlFullInventory } from '../mercadolibre/entities/ml-full-inventory.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { StockSyncLog } from '../products/entities/stock-sync-log.entity';
+import { ProductComponent } from '../products/entities/product-component.entity';
+import { CostLot } from '../products/entities/cost-lot.entity';
+import { Session } from '../auth/entities/session.entity';
+import { MercadoLibreModule } from '../mercadolibre/mercadolibre.module';
+import { ConnectorsModule } from '../connectors/connectors.module';
 import { InventoryService } from '../products/services/inventory.service';
+import { StockLedgerService } from '../products/services/stock-ledger.service';
+import { StockReservationService } from '../products/services/stock-reservation.service';
+import { FullInventoryService } from '../products/services/full-inventory.service';
+import { StockPushService } from '../products/services/stock-push.service';
+import { CostingService } from '../products/services/costing.service';
 import { ProductMappingService } from '../products/services/product-mapping.service';
 import { PendingSalesService } from '../notification/services/pending-sales.service';
 import { ProductMappingController } from '../products/controllers/product-mapping.controller';
 import { PendingSalesController } from '../notification/controllers/pending-sales.controller';
+import { InventoryController } from '../products/controllers/inventory.controller';
 
 @Module({
   imports: [
@@ -19,21 +38,44 @@ import { PendingSalesController } from '../notification/controllers/pending-sale
       ProductMapping,
       PendingSale,
       Platform,
+      StockLedgerEntry,
+      StockReservation,
+      StockLocation,
+      ProductStockLocation,
+      MlListing,
+      MlFullInventory,
+      OrderItem,
+      StockSyncLog,
+      Session,
+      ProductComponent,
+      CostLot,
     ]),
+    MercadoLibreModule, // Stock Full (inventories API)
+    ConnectorsModule, // Envío de stock por plataforma
   ],
   controllers: [
     ProductMappingController,
     PendingSalesController,
+    InventoryController,
   ],
   providers: [
     InventoryService,
+    StockLedgerService,
+    StockReservationService,
+    FullInventoryService,
+    StockPushService,
     ProductMappingService,
     PendingSalesService,
+    CostingService,
   ],
   exports: [
     InventoryService,
+    StockLedgerService,
+    StockReservationService,
+    StockPushService,
     ProductMappingService,
     PendingSalesService,
+    CostingService,
   ],
 })
 export class InventoryModule {}
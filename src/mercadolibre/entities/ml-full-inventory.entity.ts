@@ -0,0 +1,35 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Stock held by Mercado Libre in its Full warehouses, per inventory_id
+ * Refreshed by FullInventoryService
+ */
+@Entity('ml_full_inventory')
+export class MlFullInventory {
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  inventory_id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  item_id: string; // Listing the inventory belongs to
+
+  @Column({ type: 'bigint' })
+  seller_id: number;
+
+  @Column({ nullable: true })
+  product_id: number; // Null when the listing has no matching product
+
+  @Column({ type: 'int', default: 1 })
+  pack_quantity: number; // Product units per listing unit
+
+  @Column({ type: 'int', default: 0 })
+  available_quantity: number; // Sellable units in Full
+
+  @Column({ type: 'int', default: 0 })
+  not_available_quantity: number; // Damaged, lost, in transfer...
+
+  @Column({ type: 'jsonb', nullable: true })
+  raw_data: any;
+
+  @UpdateDateColumn()
+  synced_at: Date;
+}
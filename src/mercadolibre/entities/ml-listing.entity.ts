@@ -0,0 +1,47 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Last known state of a Mercado Libre listing (item)
+ * Refreshed from the `items` notification topic
+ */
+@Entity('ml_listings')
+export class MlListing {
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  item_id: string; // MLC123456789
+
+  @Column({ type: 'bigint' })
+  seller_id: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  title: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  seller_sku: string;
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  price: number;
+
+  @Column({ type: 'int', default: 0 })
+  available_quantity: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  status: string; // active, paused, closed, under_review
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  logistic_type: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  inventory_id: string; // Full stock ID (variations carry their own in raw_data)
+
+  @Column({ type: 'varchar', length: 2083, nullable: true })
+  permalink: string;
+
+  @Column({ type: 'varchar', length: 2083, nullable: true })
+  thumbnail: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  raw_data: any;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,130 @@
+import { BadRequestException, Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../products/platforms/platform.constants';
+import {
+  PlatformConnector,
+  PlatformOrderQuery,
+  PlatformSyncResult,
+} from '../connectors/platform-connector.interface';
+import { PlatformConnectorRegistry } from '../connectors/platform-connector.registry';
+import { MercadoLibreService } from './mercadolibre.service';
+import { OrderService } from '../orders/order.service';
+import { NotificationService } from '../notification/notification.service';
+
+/**
+ * Mercado Libre Connector
+ * Wraps MercadoLibreService behind the PlatformConnector interface
+ *
+ * Provided by NotificationModule: syncing saves through OrderService and
+ * webhooks are queued by NotificationService. account_id is the ML seller_id.
+ * The API host and config come from the Mercado Libre row in platforms
+ * (MercadoLibreService.getPlatform).
+ */
+@Injectable()
+export class MercadoLibreConnector implements PlatformConnector, OnModuleInit {
+  readonly platformId = MERCADO_LIBRE_PLATFORM_ID;
+  readonly name = 'Mercado Libre';
+
+  constructor(
+    private readonly registry: PlatformConnectorRegistry,
+    private readonly mercadoLibreService: MercadoLibreService,
+    private readonly orderService: OrderService,
+    private readonly notificationService: NotificationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async fetchOrders(query: PlatformOrderQuery): Promise<any[]> {
+    return this.mercadoLibreService.getAllOrdersByDate(
+      query.date,
+      this.requireSellerId(query.account_id),
+    );
+  }
+
+  async fetchOrderDetails(
+    orderId: string,
+    accountId?: number,
+  ): Promise<any | null> {
+    return this.mercadoLibreService.getOrderDetails(
+      Number(orderId),
+      this.requireSellerId(accountId),
+    );
+  }
+
+  /**
+   * What the seller pays for the shipment (senders[0].cost)
+   */
+  async fetchShipmentCost(
+    shipmentId: string,
+    accountId?: number,
+  ): Promise<number | null> {
+    const costs = await this.mercadoLibreService.getShipmentCosts(
+      Number(shipmentId),
+      this.requireSellerId(accountId),
+    );
+    const cost = costs?.senders?.[0]?.cost;
+
+    return cost === undefined || cost === null ? null : Number(cost);
+  }
+
+  async pushStock(
+    platformSku: string,
+    quantity: number,
+    accountId?: number,
+  ): Promise<void> {
+    await this.mercadoLibreService.updateItemStock(
+      platformSku,
+      quantity,
+      this.requireSellerId(accountId),
+    );
+  }
+
+  /**
+   * ML does not sign notifications: accept only those addressed to our
+   * application (platforms.client_id, or CLIENT_ID) with a topic and resource
+   */
+  async verifyWebhook(payload: any): Promise<boolean> {
+    if (!payload?.topic || !payload?.resource) {
+      return false;
+    }
+
+    const platform = await this.mercadoLibreService.getPlatform();
+    const applicationId =
+      platform.client_id || this.configService.get<string>('CLIENT_ID');
+
+    return String(payload.application_id) === applicationId;
+  }
+
+  async syncOrders(query: PlatformOrderQuery): Promise<PlatformSyncResult> {
+    const result = await this.orderService.syncFromMercadoLibre(
+      query.date,
+      this.requireSellerId(query.account_id),
+    );
+
+    return {
+      platform_id: this.platformId,
+      synced: result.synced,
+      errors: result.errors,
+      message: result.message,
+    };
+  }
+
+  /**
+   * Queued like POST /notifications; NotificationQueueService processes it
+   */
+  async handleWebhook(payload: any): Promise<void> {
+    await this.notificationService.saveNotification(payload);
+  }
+
+  private requireSellerId(accountId?: number): number {
+    if (!accountId || accountId <= 0) {
+      throw new BadRequestException(
+        'Se requiere un seller_id válido. Por favor inicia sesión.',
+      );
+    }
+    return accountId;
+  }
+}
@@ -12,12 +12,13 @@ import { OrderItem } from '../orders/entities/order-item.entity';
 import { Payment } from '../orders/entities/payment.entity';
 import { ProductAudit } from '../notification/entities/product-audit.entity';
 import { Product } from '../products/entities/product.entity';
+import { Platform } from '../products/entities/platform.entity';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   controllers: [MercadoLibreController],
   imports: [
-    TypeOrmModule.forFeature([Session]), // Registrar las entidades
+    TypeOrmModule.forFeature([Session, Platform]), // Registrar las entidades
     AuthModule,
     ConfigModule, // Asegura que ConfigModule esté importado
     HttpModule, // Importar el módulo de HTTP
@@ -4,28 +4,72 @@ import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Session } from '../auth/entities/session.entity';
+import { Platform } from '../products/entities/platform.entity';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../products/platforms/platform.constants';
 import { Repository } from 'typeorm';
 
+/**
+ * Page size used when searching orders (ML allows up to 51 per page)
+ */
+export const ML_ORDERS_PAGE_SIZE = 50;
+
+/**
+ * Page size of the seller items scan (ML allows up to 100)
+ */
+const ML_ITEMS_PAGE_SIZE = 100;
+
+/**
+ * Items per multiget request (GET /items?ids=, up to 20)
+ */
+const ML_ITEMS_MULTIGET_SIZE = 20;
+
 @Injectable()
 export class MercadoLibreService {
-  private readonly BASE_URL = 'https://api.mercadolibre.com/orders/search';
   private refreshAttemptCount: number = 0;
   private readonly clientId: string;
   private readonly clientSecret: string;
-  private readonly apiUrl: string;
 
   constructor(
     @InjectRepository(Session)
     private readonly sessionRepository: Repository<Session>,
+    @InjectRepository(Platform)
+    private readonly platformRepository: Repository<Platform>,
     private readonly httpService: HttpService,
     private readonly configService: ConfigService
   ) {
     this.clientId = this.configService.get<string>('CLIENT_ID');
     this.clientSecret = this.configService.get<string>('CLIENT_SECRET');
-    this.apiUrl = this.configService.get<string>('MERCADO_LIBRE_API_URL');
   }
 
-  async getOrdersByDate(date: string, sellerId: number): Promise<any[]> {
+  /**
+   * Mercado Libre row in platforms: api_base_url is the API host and config
+   * may set timezone_offset (defaults to -04:00)
+   */
+  async getPlatform(): Promise<Platform> {
+    const platform = await this.platformRepository.findOne({
+      where: { platform_id: MERCADO_LIBRE_PLATFORM_ID },
+    });
+
+    if (!platform?.api_base_url) {
+      throw new Error('La plataforma Mercado Libre no tiene api_base_url configurada');
+    }
+    return platform;
+  }
+
+  async getApiUrl(): Promise<string> {
+    return (await this.getPlatform()).api_base_url;
+  }
+
+  /**
+   * Search one page of orders created on a date
+   * Returns the raw ML response: { results: [], paging: { total, offset, limit } }
+   */
+  async getOrdersByDate(
+    date: string,
+    sellerId: number,
+    offset: number = 0,
+    limit: number = ML_ORDERS_PAGE_SIZE,
+  ): Promise<any> {
     let session: Session | null = null;
     try {
       // Buscar la sesión del usuario
@@ -41,9 +85,11 @@ export class MercadoLibreService {
       const accessToken = session.access_token;
       console.log('Intentando acceder con el token:', accessToken);
 
-      const fromDate = `${date}T00:00:00.000-04:00`;
-      const toDate = `${date}T23:59:59.999-04:00`;
-      const url = `${this.BASE_URL}?seller=${sellerId}&order.date_created.from=${fromDate}&order.date_created.to=${toDate}`;
+      const platform = await this.getPlatform();
+      const timezone = platform.config?.timezone_offset || '-04:00';
+      const fromDate = `${date}T00:00:00.000${timezone}`;
+      const toDate = `${date}T23:59:59.999${timezone}`;
+      const url = `${platform.api_base_url}/orders/search?seller=${sellerId}&order.date_created.from=${fromDate}&order.date_created.to=${toDate}&offset=${offset}&limit=${limit}`;
 
       const response = await firstValueFrom(
         this.httpService.get(url, {
@@ -57,7 +103,13 @@ export class MercadoLibreService {
     } catch (error) {
       if (error.response?.status === 401) {
         console.log('401: El token ha expirado. Intentando hacer refresh...');
-        return this.handleTokenRefreshForOrders(session, date, sellerId);
+        return this.handleTokenRefreshForOrders(
+          session,
+          date,
+          sellerId,
+          offset,
+          limit,
+        );
       } else {
         console.error('Error en la solicitud:', error.message);
         throw new Error('No se pudieron obtener las órdenes');
@@ -65,11 +117,41 @@ export class MercadoLibreService {
     }
   }
 
+  /**
+   * Search every order created on a date, following ML pagination
+   * (a single search page is capped, so busy days need several requests)
+   */
+  async getAllOrdersByDate(date: string, sellerId: number): Promise<any[]> {
+    const orders: any[] = [];
+    let offset = 0;
+    let total = 0;
+
+    do {
+      const page = await this.getOrdersByDate(
+        date,
+        sellerId,
+        offset,
+        ML_ORDERS_PAGE_SIZE,
+      );
+      const results = page?.results || [];
+
+      orders.push(...results);
+      total = Number(page?.paging?.total) || 0;
+      offset += ML_ORDERS_PAGE_SIZE;
+
+      if (results.length === 0) break;
+    } while (offset < total);
+
+    return orders;
+  }
+
   private async handleTokenRefreshForOrders(
     session: Session,
     date: string,
-    sellerId: number
-  ): Promise<any[]> {
+    sellerId: number,
+    offset: number,
+    limit: number,
+  ): Promise<any> {
     if (this.refreshAttemptCount >= 1) {
       console.log('Se ha intentado refrescar el token anteriormente. No se intentará más.');
       throw new Error('Máximo de intentos de refresco alcanzado');
@@ -90,7 +172,7 @@ export class MercadoLibreService {
       });
 
       this.refreshAttemptCount = 0;
-      return this.getOrdersByDate(date, sellerId); // Intentar nuevamente con el nuevo token
+      return this.getOrdersByDate(date, sellerId, offset, limit); // Intentar nuevamente con el nuevo token
     } catch (refreshError) {
       console.error('No se pudo refrescar el token:', refreshError.message);
       throw new Error('Error al refrescar el token');
@@ -102,7 +184,7 @@ export class MercadoLibreService {
       console.log('Realizando solicitud para refrescar el token...' + refreshToken);
       const response = await firstValueFrom(
         this.httpService.post(
-          `${this.apiUrl}/oauth/token`,
+          `${await this.getApiUrl()}/oauth/token`,
           new URLSearchParams({
             grant_type: 'refresh_token',
             client_id: this.clientId,
@@ -133,7 +215,7 @@ export class MercadoLibreService {
         return null;
       }
 
-      const url = `${this.apiUrl}/orders/${orderId}`;
+      const url = `${await this.getApiUrl()}/orders/${orderId}`;
       console.log(`[MercadoLibreService] Fetching order details: ${url}`);
 
       const response = await firstValueFrom(
@@ -166,7 +248,7 @@ export class MercadoLibreService {
         return null;
       }
 
-      const url = `${this.apiUrl}/orders/${orderId}/billing_info`;
+      const url = `${await this.getApiUrl()}/orders/${orderId}/billing_info`;
       console.log(`[MercadoLibreService] Fetching billing info: ${url}`);
 
       const response = await firstValueFrom(
@@ -199,7 +281,7 @@ export class MercadoLibreService {
         return null;
       }
 
-      const url = `${this.apiUrl}/orders/${orderId}/shipments`;
+      const url = `${await this.getApiUrl()}/orders/${orderId}/shipments`;
       console.log(`[MercadoLibreService] Fetching shipment info: ${url}`);
 
       const response = await firstValueFrom(
@@ -232,7 +314,7 @@ export class MercadoLibreService {
         return null;
       }
 
-      const url = `${this.apiUrl}/shipments/${shipmentId}/costs`;
+      const url = `${await this.getApiUrl()}/shipments/${shipmentId}/costs`;
       console.log(`[MercadoLibreService] Fetching shipment costs: ${url}`);
 
       const response = await firstValueFrom(
@@ -265,7 +347,7 @@ export class MercadoLibreService {
         return null;
       }
 
-      const url = `${this.apiUrl}/shipments/${shipmentId}`;
+      const url = `${await this.getApiUrl()}/shipments/${shipmentId}`;
       console.log(`[MercadoLibreService] Fetching shipment by ID: ${url}`);
 
       const response = await firstValueFrom(
@@ -284,6 +366,314 @@ export class MercadoLibreService {
     }
   }
 
+  /**
+   * Get a listing (item) by ID
+   */
+  async getItem(itemId: string, sellerId: number): Promise<any> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return null;
+      }
+
+      const url = `${await this.getApiUrl()}/items/${itemId}`;
+      console.log(`[MercadoLibreService] Fetching item: ${url}`);
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching item ${itemId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Sellers with a stored session (user_id is the ML seller_id)
+   */
+  async getSessionSellerIds(): Promise<number[]> {
+    const sessions = await this.sessionRepository.find();
+    return [...new Set(sessions.map((session) => Number(session.user_id)))];
+  }
+
+  /**
+   * IDs of the seller's listings stocked in Full (logistic_type=fulfillment)
+   * Scan search: follows scroll_id so large catalogs are not cut at 1000
+   * Throws on failure
+   */
+  async getFulfillmentItemIds(sellerId: number): Promise<string[]> {
+    const session = await this.sessionRepository.findOne({
+      where: { user_id: sellerId },
+    });
+
+    if (!session) {
+      throw new Error(`No hay sesión de Mercado Libre para el vendedor ${sellerId}`);
+    }
+
+    const itemIds: string[] = [];
+    let scrollId: string | null = null;
+
+    do {
+      const url =
+        `${await this.getApiUrl()}/users/${sellerId}/items/search?logistic_type=fulfillment&search_type=scan&limit=${ML_ITEMS_PAGE_SIZE}` +
+        (scrollId ? `&scroll_id=${scrollId}` : '');
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      const results: string[] = response.data?.results || [];
+      itemIds.push(...results);
+      scrollId = results.length > 0 ? response.data?.scroll_id || null : null;
+    } while (scrollId);
+
+    return itemIds;
+  }
+
+  /**
+   * Get several listings at once (multiget)
+   * Items ML does not return (code != 200) are left out; throws on failure
+   */
+  async getItems(itemIds: string[], sellerId: number): Promise<any[]> {
+    const session = await this.sessionRepository.findOne({
+      where: { user_id: sellerId },
+    });
+
+    if (!session) {
+      throw new Error(`No hay sesión de Mercado Libre para el vendedor ${sellerId}`);
+    }
+
+    const items: any[] = [];
+    for (let i = 0; i < itemIds.length; i += ML_ITEMS_MULTIGET_SIZE) {
+      const ids = itemIds.slice(i, i + ML_ITEMS_MULTIGET_SIZE);
+      const response = await firstValueFrom(
+        this.httpService.get(`${await this.getApiUrl()}/items?ids=${ids.join(',')}`, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      for (const result of response.data || []) {
+        if (result.code === 200 && result.body) {
+          items.push(result.body);
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the stock ML holds in its Full warehouses for an inventory_id
+   * (available, not available and their detail)
+   */
+  async getFulfillmentStock(inventoryId: string, sellerId: number): Promise<any> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return null;
+      }
+
+      const url = `${await this.getApiUrl()}/inventories/${inventoryId}/stock/fulfillment`;
+      console.log(`[MercadoLibreService] Fetching fulfillment stock: ${url}`);
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching fulfillment stock ${inventoryId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Update the available quantity of a listing
+   * Throws on failure so the caller can record the ML error
+   */
+  async updateItemStock(itemId: string, availableQuantity: number, sellerId: number): Promise<any> {
+    const session = await this.sessionRepository.findOne({
+      where: { user_id: sellerId },
+    });
+
+    if (!session) {
+      throw new Error(`No hay sesión de Mercado Libre para el vendedor ${sellerId}`);
+    }
+
+    const url = `${await this.getApiUrl()}/items/${itemId}`;
+    console.log(`[MercadoLibreService] Updating item stock: ${url} -> ${availableQuantity}`);
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.put(
+          url,
+          { available_quantity: availableQuantity },
+          {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          },
+        )
+      );
+
+      return response.data;
+    } catch (error) {
+      const message = error.response?.data?.message || error.message;
+      console.error(`[MercadoLibreService] Error updating stock of item ${itemId}:`, message);
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Get a single claim by ID
+   */
+  async getClaim(claimId: number, sellerId: number): Promise<any> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return null;
+      }
+
+      const url = `${await this.getApiUrl()}/post-purchase/v1/claims/${claimId}`;
+      console.log(`[MercadoLibreService] Fetching claim: ${url}`);
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching claim ${claimId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get claims (mediations, returns) opened on an order
+   */
+  async getOrderClaims(orderId: number, sellerId: number): Promise<any[]> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return [];
+      }
+
+      const url = `${await this.getApiUrl()}/post-purchase/v1/claims/search?resource=order&resource_id=${orderId}`;
+      console.log(`[MercadoLibreService] Fetching claims: ${url}`);
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data?.data || [];
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching claims for order ${orderId}:`, error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Get the return (shipment back to the seller) attached to a claim
+   */
+  async getClaimReturn(claimId: number, sellerId: number): Promise<any> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return null;
+      }
+
+      const url = `${await this.getApiUrl()}/post-purchase/v2/claims/${claimId}/returns`;
+      console.log(`[MercadoLibreService] Fetching claim return: ${url}`);
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching return for claim ${claimId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get a claim reason description (e.g. "El producto llegó dañado")
+   */
+  async getClaimReason(reasonId: string, sellerId: number): Promise<any> {
+    try {
+      const session = await this.sessionRepository.findOne({
+        where: { user_id: sellerId },
+      });
+
+      if (!session) {
+        console.log(`[MercadoLibreService] No session found for seller ${sellerId}`);
+        return null;
+      }
+
+      const url = `${await this.getApiUrl()}/post-purchase/v1/claims/reasons/${reasonId}`;
+
+      const response = await firstValueFrom(
+        this.httpService.get(url, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        })
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error(`[MercadoLibreService] Error fetching claim reason ${reasonId}:`, error.message);
+      return null;
+    }
+  }
+
   /**
    * Extract marketplace fee from billing info response
    * Handles different structures that ML API might return
@@ -0,0 +1,31 @@
+import { MlListing } from './entities/ml-listing.entity';
+
+/**
+ * ml_listings row from an ML item (GET /items/:id)
+ */
+export function toMlListing(item: any, sellerId: number): Partial<MlListing> {
+  return {
+    item_id: item.id,
+    seller_id: item.seller_id || sellerId,
+    title: item.title || '',
+    seller_sku: getSellerSku(item),
+    price: Number(item.price) || 0,
+    available_quantity: Number(item.available_quantity) || 0,
+    status: item.status || null,
+    logistic_type: item.shipping?.logistic_type || null,
+    inventory_id: item.inventory_id || null,
+    permalink: item.permalink || null,
+    thumbnail: item.thumbnail || null,
+    raw_data: item,
+  };
+}
+
+/**
+ * SELLER_SKU attribute, falling back to the legacy seller_custom_field
+ */
+function getSellerSku(item: any): string | null {
+  const attribute = (item.attributes || []).find(
+    (a: any) => a.id === 'SELLER_SKU',
+  );
+  return attribute?.value_name || item.seller_custom_field || null;
+}
@@ -0,0 +1,63 @@
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+
+export enum ReplayModeEnum {
+  DRY_RUN = 'dry_run', // Solo calcula lo que cambiaría
+  APPLY = 'apply', // Reprocesa y guarda
+}
+
+/**
+ * Query DTO para reprocesar notificaciones de una ventana de tiempo
+ * Applies: security-validate-all-input
+ */
+export class ReplayNotificationsQueryDto {
+  @IsDateString({}, { message: 'from debe ser una fecha válida (ISO 8601)' })
+  from: string;
+
+  @IsDateString({}, { message: 'to debe ser una fecha válida (ISO 8601)' })
+  to: string;
+
+  @IsOptional()
+  @IsString()
+  topic?: string;
+
+  @IsOptional()
+  @IsEnum(ReplayModeEnum, { message: 'mode debe ser dry_run o apply' })
+  mode?: ReplayModeEnum = ReplayModeEnum.DRY_RUN;
+}
+
+/**
+ * Un campo que cambió (o cambiaría) al reprocesar
+ */
+export class ReplayChangeDto {
+  entity: string; // order, order_item, payment, product, audit, claim, listing
+  key: string; // ID de la entidad
+  field: string;
+  before: any;
+  after: any;
+}
+
+export class ReplayResultDto {
+  notification_id: string;
+  topic: string;
+  resource: string;
+  handled_by: string | null;
+  status: 'applied' | 'previewed' | 'skipped' | 'preview_unavailable' | 'error';
+  error?: string;
+  changes: ReplayChangeDto[];
+}
+
+export class ReplayResponseDto {
+  mode: ReplayModeEnum;
+  from: string;
+  to: string;
+  topic: string | null;
+  total_notifications: number; // Notificaciones en la ventana
+  replayed: number; // Recursos únicos reprocesados
+  summary: {
+    changed: number;
+    unchanged: number;
+    skipped: number;
+    errors: number;
+  };
+  results: ReplayResultDto[];
+}
@@ -1,5 +1,13 @@
 import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
 
+export enum NotificationStatus {
+  PENDING = 'pending', // En cola, esperando al worker
+  PROCESSING = 'processing', // Tomada por el worker
+  PROCESSED = 'processed',
+  SKIPPED = 'skipped', // Sin handler o el handler la omitió
+  FAILED = 'failed', // Se agotaron los reintentos (dead-letter)
+}
+
 @Entity('notifications')
 export class Notification {
   @PrimaryGeneratedColumn('uuid')
@@ -32,4 +40,29 @@ export class Notification {
   @Column({ type: 'boolean', default: false })  // Nueva columna 'processed'
   processed: boolean;
 
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  handled_by: string; // Handler del tópico que procesó la notificación
+
+  @Column({
+    type: 'enum',
+    enum: NotificationStatus,
+    default: NotificationStatus.PENDING,
+  })
+  status: NotificationStatus;
+
+  @Column({ type: 'int', default: 0 })
+  processing_attempts: number; // Intentos de procesamiento (attempts es el contador de ML)
+
+  @Column({ type: 'timestamp', nullable: true })
+  next_attempt_at: Date; // Próximo reintento (backoff exponencial)
+
+  @Column({ type: 'timestamp', nullable: true })
+  locked_at: Date; // Cuándo la tomó el worker
+
+  @Column({ type: 'text', nullable: true })
+  last_error: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processed_at: Date;
+
 }
@@ -1,5 +1,11 @@
 import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
 
+/**
+ * INSUFFICIENT_STOCK: producto encontrado sin stock en la ubicación;
+ * la línea queda en ventas pendientes
+ */
+export type ProductAuditStatus = 'OK_INTERNO' | 'OK_FULL' | 'NOT_FOUND' | 'CANCELLED' | 'INSUFFICIENT_STOCK';
+
 @Entity('product_audits')
 export class ProductAudit {
   @PrimaryGeneratedColumn()
@@ -29,6 +35,6 @@ export class ProductAudit {
   @CreateDateColumn()
   created_at: Date;
 
-  @Column({ type: 'enum', enum: ['OK_INTERNO', 'OK_FULL', 'NOT_FOUND','CANCELLED'] })
-  status: 'OK_INTERNO' | 'OK_FULL' | 'NOT_FOUND' | 'CANCELLED';
+  @Column({ type: 'enum', enum: ['OK_INTERNO', 'OK_FULL', 'NOT_FOUND', 'CANCELLED', 'INSUFFICIENT_STOCK'] })
+  status: ProductAuditStatus;
 }
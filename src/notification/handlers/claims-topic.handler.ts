@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+import { Notification } from '../entities/notification.entity';
+import { OrderClaimsService } from '../../orders/order-claims.service';
+import { MercadoLibreService } from '../../mercadolibre/mercadolibre.service';
+import {
+  NotificationTopicHandler,
+  getResourceId,
+} from './notification-topic-handler.interface';
+
+/**
+ * Claims topic: keep OrderClaim rows (reason, stage, returns) up to date
+ */
+@Injectable()
+export class ClaimsTopicHandler implements NotificationTopicHandler {
+  readonly name = 'claims';
+  readonly topics = ['claims'];
+
+  private readonly logger = new Logger(ClaimsTopicHandler.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly orderClaimsService: OrderClaimsService,
+    private readonly mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  async handle(notification: Notification): Promise<boolean> {
+    const claimId = Number(getResourceId(notification.resource));
+    const sellerId = notification.user_id;
+
+    const claim = await this.mercadoLibreService.getClaim(claimId, sellerId);
+    if (!claim) {
+      throw new Error(`No se pudo obtener el reclamo ${claimId}`);
+    }
+
+    if (claim.resource !== 'order') {
+      this.logger.debug(
+        `Claim ${claimId} is on ${claim.resource} ${claim.resource_id}, skipping`,
+      );
+      return false;
+    }
+
+    const orderId = Number(claim.resource_id);
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      // Not one of our saved orders: skipped (can be retried from the queue)
+      this.logger.debug(
+        `Claim ${claimId}: order ${orderId} is not saved, skipping`,
+      );
+      return false;
+    }
+
+    await this.orderClaimsService.upsertClaim(orderId, sellerId, claim);
+    return true;
+  }
+}
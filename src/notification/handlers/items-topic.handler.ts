@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from '../entities/notification.entity';
+import { MlListing } from '../../mercadolibre/entities/ml-listing.entity';
+import { SecondarySku } from '../../products/entities/secondary-sku.entity';
+import { MercadoLibreService } from '../../mercadolibre/mercadolibre.service';
+import { toMlListing } from '../../mercadolibre/ml-listing.mapper';
+import {
+  NotificationTopicHandler,
+  getResourceId,
+} from './notification-topic-handler.interface';
+
+/**
+ * Items topic: refresh listing data (title, price, stock, status) after
+ * edits made in Mercado Libre
+ */
+@Injectable()
+export class ItemsTopicHandler implements NotificationTopicHandler {
+  readonly name = 'items';
+  readonly topics = ['items'];
+
+  private readonly logger = new Logger(ItemsTopicHandler.name);
+
+  constructor(
+    @InjectRepository(MlListing)
+    private readonly listingRepository: Repository<MlListing>,
+    @InjectRepository(SecondarySku)
+    private readonly secondarySkuRepository: Repository<SecondarySku>,
+    private readonly mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  async handle(notification: Notification): Promise<boolean> {
+    const itemId = getResourceId(notification.resource);
+    const item = await this.mercadoLibreService.getItem(
+      itemId,
+      notification.user_id,
+    );
+
+    if (!item) {
+      throw new Error(`No se pudo obtener la publicación ${itemId}`);
+    }
+
+    await this.listingRepository.save(
+      this.listingRepository.create(toMlListing(item, notification.user_id)),
+    );
+
+    // Keep the publication link of the matching secondary SKU current
+    if (item.permalink) {
+      await this.secondarySkuRepository.update(
+        { secondary_sku: item.id },
+        { publication_link: item.permalink },
+      );
+    }
+
+    this.logger.log(
+      `Listing ${item.id} refreshed: price=${item.price}, available=${item.available_quantity}, status=${item.status}`,
+    );
+
+    return true;
+  }
+}
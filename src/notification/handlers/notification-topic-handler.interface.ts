@@ -0,0 +1,26 @@
+import { Notification } from '../entities/notification.entity';
+
+/**
+ * Handler for one or more Mercado Libre notification topics
+ */
+export interface NotificationTopicHandler {
+  /** Stored in Notification.handled_by */
+  readonly name: string;
+
+  /** Topics this handler processes (e.g. 'shipments') */
+  readonly topics: string[];
+
+  /**
+   * Process the notification
+   * @returns true when processed, false when skipped (stays unprocessed)
+   */
+  handle(notification: Notification): Promise<boolean>;
+}
+
+/**
+ * Extract the trailing ID from a notification resource
+ * e.g. '/shipments/123' -> '123', '/items/MLC123' -> 'MLC123'
+ */
+export function getResourceId(resource: string): string {
+  return resource.split('?')[0].split('/').filter(Boolean).pop();
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationTopicHandler } from './notification-topic-handler.interface';
+import { ShipmentsTopicHandler } from './shipments-topic.handler';
+import { ItemsTopicHandler } from './items-topic.handler';
+import { ClaimsTopicHandler } from './claims-topic.handler';
+
+/**
+ * Notification Topic Registry
+ * Maps each ML notification topic to the handler that processes it
+ *
+ * Applies:
+ * - arch-open-closed: New topics only need a handler and a register() call
+ */
+@Injectable()
+export class NotificationTopicRegistry {
+  private readonly logger = new Logger(NotificationTopicRegistry.name);
+  private readonly handlers = new Map<string, NotificationTopicHandler>();
+
+  constructor(
+    shipmentsHandler: ShipmentsTopicHandler,
+    itemsHandler: ItemsTopicHandler,
+    claimsHandler: ClaimsTopicHandler,
+  ) {
+    [shipmentsHandler, itemsHandler, claimsHandler].forEach((handler) =>
+      this.register(handler),
+    );
+  }
+
+  register(handler: NotificationTopicHandler): void {
+    for (const topic of handler.topics) {
+      const key = this.normalize(topic);
+      if (this.handlers.has(key)) {
+        this.logger.warn(
+          `Topic ${key} handled by ${this.handlers.get(key).name}, replaced by ${handler.name}`,
+        );
+      }
+      this.handlers.set(key, handler);
+    }
+  }
+
+  get(topic: string): NotificationTopicHandler | undefined {
+    return this.handlers.get(this.normalize(topic));
+  }
+
+  private normalize(topic: string): string {
+    return (topic || '').trim().toLowerCase();
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Order } from '../../orders/entities/order.entity';
+import { Notification } from '../entities/notification.entity';
+import { OrderService } from '../../orders/order.service';
+import { MercadoLibreService } from '../../mercadolibre/mercadolibre.service';
+import {
+  NotificationTopicHandler,
+  getResourceId,
+} from './notification-topic-handler.interface';
+
+/**
+ * Shipments topic: delivery status, logistic type and shipping costs
+ *
+ * Only orders already saved by the orders_v2 pipeline are refreshed, so
+ * stock is never touched from here. A shipment arriving before its order
+ * is skipped: orders_v2 saves the order with its shipping data.
+ */
+@Injectable()
+export class ShipmentsTopicHandler implements NotificationTopicHandler {
+  readonly name = 'shipments';
+  readonly topics = ['shipments'];
+
+  private readonly logger = new Logger(ShipmentsTopicHandler.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly orderService: OrderService,
+    private readonly mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  async handle(notification: Notification): Promise<boolean> {
+    const shipmentId = Number(getResourceId(notification.resource));
+    const sellerId = notification.user_id;
+
+    const shipment = await this.mercadoLibreService.getShipmentById(
+      shipmentId,
+      sellerId,
+    );
+    if (!shipment) {
+      throw new Error(`No se pudo obtener el envío ${shipmentId}`);
+    }
+
+    // Orders of a pack share the same shipment
+    const orders = await this.orderRepository.find({
+      where: [
+        { shipping_id: String(shipmentId) },
+        ...(shipment.order_id ? [{ id: shipment.order_id }] : []),
+      ],
+    });
+
+    if (orders.length === 0) {
+      this.logger.debug(
+        `Shipment ${shipmentId} has no saved orders yet, skipping`,
+      );
+      return false;
+    }
+
+    for (const order of orders) {
+      // Recalculate logistic_type and shipping costs with the order sync logic
+      const orderDetails = await this.mercadoLibreService.getOrderDetails(
+        order.id,
+        sellerId,
+      );
+      if (orderDetails) {
+        await this.orderService.saveOrderFromMercadoLibre(
+          orderDetails,
+          sellerId,
+        );
+      }
+
+      await this.orderRepository.update(order.id, {
+        delivery_status: shipment.status || null,
+        delivery_substatus: shipment.substatus || null,
+      });
+
+      this.logger.log(
+        `Order ${order.id}: shipment ${shipmentId} is ${shipment.status}${shipment.substatus ? ` (${shipment.substatus})` : ''}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -1,17 +1,72 @@
-import { Controller, Post, Get, Body, Res } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Res,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
 import { NotificationService } from './notification.service';
+import { NotificationQueueService } from './services/notification-queue.service';
+import { NotificationReplayService } from './services/notification-replay.service';
+import {
+  ReplayNotificationsQueryDto,
+  ReplayResponseDto,
+} from './dto/replay-notifications.dto';
 import { Notification } from './entities/notification.entity';
 import { Response } from 'express';
 
 @Controller('notifications')
 export class NotificationController {
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly notificationQueueService: NotificationQueueService,
+    private readonly notificationReplayService: NotificationReplayService,
+  ) {}
 
   @Get()
   async getAll(): Promise<Notification[]> {
     return this.notificationService.findAll();
   }
 
+  /**
+   * Notificaciones que agotaron sus reintentos (dead-letter)
+   * GET /notifications/failed
+   */
+  @Get('failed')
+  async getFailed(): Promise<Notification[]> {
+    return this.notificationQueueService.findFailed();
+  }
+
+  /**
+   * Reprocesar las notificaciones guardadas de una ventana de tiempo
+   * POST /notifications/replay?from=2025-01-01&to=2025-01-31&topic=orders_v2&mode=dry_run|apply
+   *
+   * dry_run (por defecto) solo muestra lo que cambiaría; apply reprocesa y
+   * devuelve el diff. El stock no se descuenta dos veces (product_audits).
+   */
+  @Post('replay')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async replay(
+    @Query() query: ReplayNotificationsQueryDto,
+  ): Promise<ReplayResponseDto> {
+    return this.notificationReplayService.replay(query);
+  }
+
+  /**
+   * Volver a encolar una notificación fallida u omitida
+   * POST /notifications/:id/retry
+   */
+  @Post(':id/retry')
+  async retry(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<Notification> {
+    return this.notificationQueueService.retry(id);
+  }
 
   @Post()
   async handleNotification(
@@ -19,18 +74,15 @@ export class NotificationController {
     @Res() res: Response,
   ): Promise<void> {
     try {
-      // Guardar la notificación en la base de datos
+      // Guardar la notificación en la base de datos (queda en cola como pending)
       await this.notificationService.saveNotification(notification);
 
       // Responder al cliente con éxito después de guardar
+      // El worker de NotificationQueueService la procesa con reintentos
       res.status(200).json({ message: 'Evento recibido con éxito' });
-
-      // Procesar la notificación de manera asíncrona
-      this.notificationService.handleNotificationAsync(notification);
     } catch (error) {
       console.error('Error al manejar la notificación:', error);
       res.status(500).json({ message: 'Error al manejar la notificación' });
     }
   }
 }
-
@@ -13,17 +13,46 @@ import { OrderItem } from 'src/orders/entities/order-item.entity';
 import { Payment } from 'src/orders/entities/payment.entity';
 import { ProductAudit } from './entities/product-audit.entity';
 import { Product } from '../products/entities/product.entity';
+import { ProductHistory } from '../products/entities/product-history.entity';
+import { StockLedgerEntry } from '../products/entities/stock-ledger-entry.entity';
+import { OrderModule } from '../orders/order.module';
+import { MercadoLibreModule } from '../mercadolibre/mercadolibre.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { MlListing } from '../mercadolibre/entities/ml-listing.entity';
+import { SecondarySku } from '../products/entities/secondary-sku.entity';
+import { NotificationTopicRegistry } from './handlers/notification-topic.registry';
+import { ShipmentsTopicHandler } from './handlers/shipments-topic.handler';
+import { ItemsTopicHandler } from './handlers/items-topic.handler';
+import { ClaimsTopicHandler } from './handlers/claims-topic.handler';
+import { NotificationQueueService } from './services/notification-queue.service';
+import { NotificationReplayService } from './services/notification-replay.service';
+import { OrderClaim } from '../orders/entities/order-claim.entity';
+import { ConnectorsModule } from '../connectors/connectors.module';
+import { MercadoLibreConnector } from '../mercadolibre/mercadolibre.connector';
 
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Notification,Session,Order,User,OrderItem,Payment,ProductAudit,Product]), // Registrar las entidades
+    TypeOrmModule.forFeature([Notification,Session,Order,User,OrderItem,Payment,ProductAudit,Product,ProductHistory,StockLedgerEntry,MlListing,SecondarySku,OrderClaim]), // Registrar las entidades
     AuthModule,
+    OrderModule, // OrderService y OrderClaimsService (handlers de tópicos)
+    MercadoLibreModule,
+    InventoryModule, // StockLedgerService (descuento idempotente por línea)
+    ConnectorsModule, // MercadoLibreConnector se registra aquí
     ConfigModule, // Asegura que ConfigModule esté importado
     HttpModule, // Importar el módulo de HTTP
   ],
   controllers: [NotificationController],
-  providers: [NotificationService],
-  exports: []
+  providers: [
+    NotificationService,
+    NotificationTopicRegistry,
+    ShipmentsTopicHandler,
+    ItemsTopicHandler,
+    ClaimsTopicHandler,
+    NotificationQueueService,
+    NotificationReplayService,
+    MercadoLibreConnector, // Usa OrderService y NotificationService
+  ],
+  exports: [NotificationService]
 })
 export class NotificationModule {}
@@ -1,7 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
-import { Notification } from './entities/notification.entity';
+import { DataSource, Repository } from 'typeorm';
+import { Notification, NotificationStatus } from './entities/notification.entity';
 import { HttpService } from '@nestjs/axios';
 import { AxiosResponse } from 'axios';
 import { Session } from 'src/auth/entities/session.entity';
@@ -11,15 +11,49 @@ import { User } from 'src/orders/entities/user.entity';
 import { Order } from 'src/orders/entities/order.entity';
 import { Payment } from 'src/orders/entities/payment.entity';
 import { OrderItem } from 'src/orders/entities/order-item.entity';
-import { ProductAudit } from './entities/product-audit.entity';
+import { ProductAudit, ProductAuditStatus } from './entities/product-audit.entity';
 import { Product } from '../products/entities/product.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import { PendingSalesService } from './services/pending-sales.service';
+import { PendingSaleStatus } from './entities/pending-sale.entity';
+import { StockReservationService } from '../products/services/stock-reservation.service';
+import { StockLocationCode } from '../products/entities/stock-location.entity';
+import { OrderClaimsService } from '../orders/order-claims.service';
+import { NotificationTopicRegistry } from './handlers/notification-topic.registry';
+import { StockLedgerKey, StockLedgerService } from '../products/services/stock-ledger.service';
+import { StockLedgerStatus } from '../products/entities/stock-ledger-entry.entity';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../products/platforms/platform.constants';
+import { MercadoLibreService } from '../mercadolibre/mercadolibre.service';
+
+/**
+ * Estados de ML de una orden creada que aún espera el pago
+ */
+const PENDING_PAYMENT_STATUSES = ['confirmed', 'payment_required', 'payment_in_process', 'partially_paid'];
+
+/**
+ * Publicación de una línea de orden de ML (order_items[].item)
+ */
+interface MlOrderLineItem {
+  id: string;
+  variation_id?: number | null;
+}
+
+/**
+ * Resultado previsto de procesar una notificación orders_v2 (dry-run)
+ */
+export interface OrderNotificationPreview {
+  processed: boolean; // false si shouldProcessOrder la omitiría
+  order: { id: number; status: string; total_amount: number; paid_amount: number } | null;
+  items: { item_id: string; quantity: number; unit_price: number }[];
+  payments: { id: number; status: string; transaction_amount: number }[];
+  stock: { product_id: number; internal_sku: string; stock_before: number; stock_after: number }[];
+}
 
 
 @Injectable()
 export class NotificationService {
   private readonly clientId: string;
   private readonly clientSecret: string;
-  private readonly apiUrl: string;
 
 
   private refreshAttemptCount: number = 0;
@@ -40,19 +74,24 @@ export class NotificationService {
     private readonly orderItemRepository: Repository<OrderItem>,
     @InjectRepository(ProductAudit)
     private readonly productAuditRepository: Repository<ProductAudit>,
-    @InjectRepository(Product)
-    private readonly productRepository: Repository<Product>,
 
 
     private readonly httpService: HttpService,
     private configService: ConfigService,
+    private readonly orderClaimsService: OrderClaimsService,
+    private readonly topicRegistry: NotificationTopicRegistry,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly inventoryService: InventoryService,
+    private readonly pendingSalesService: PendingSalesService,
+    private readonly stockReservationService: StockReservationService,
+    private readonly mercadoLibreService: MercadoLibreService,
+    private readonly dataSource: DataSource,
 
   ) {
     this.clientId = this.configService.get<string>('CLIENT_ID');
     this.clientSecret = this.configService.get<string>('CLIENT_SECRET');
-    this.apiUrl = this.configService.get<string>('MERCADO_LIBRE_API_URL');
 
-    if (!this.clientId || !this.clientSecret || !this.apiUrl) {
+    if (!this.clientId || !this.clientSecret) {
       throw new Error(
         'Faltan las variables de configuración necesarias (CLIENT_ID, CLIENT_SECRET)',
       );
@@ -60,18 +99,38 @@ export class NotificationService {
 
     console.log('CLIENT_ID:', this.clientId);
     console.log('CLIENT_SECRET:', this.clientSecret);
+
+    // Órdenes: pipeline de stock/auditoría de este servicio
+    this.topicRegistry.register({
+      name: 'orders',
+      topics: ['orders_v2'],
+      handle: (notification) => this.handleOrderNotification(notification),
+    });
   }
 
   async saveNotification(data: Partial<Notification>): Promise<Notification> {
+    // Sin id, findOne({ where: { id: undefined } }) devolvería cualquier fila
     const existingNotification = await this.notificationRepository.findOne({
-      where: { id: data.id }, // Si la notificación tiene un ID único
+      where: data.id
+        ? { id: data.id } // Si la notificación tiene un ID único
+        : {
+            // Los handlers leen el estado actual del recurso: una notificación
+            // pendiente del mismo recurso ya cubre esta
+            topic: data.topic,
+            resource: data.resource,
+            status: NotificationStatus.PENDING,
+          },
     });
 
     if (existingNotification) {
       return existingNotification; // Si ya existe, no la guardes de nuevo
     }
 
-    const notification = this.notificationRepository.create(data);
+    const notification = this.notificationRepository.create({
+      ...data,
+      status: NotificationStatus.PENDING,
+      processing_attempts: 0,
+    });
     return this.notificationRepository.save(notification);
   }
 
@@ -80,40 +139,71 @@ export class NotificationService {
   }
 
 
-  async handleNotificationAsync(notification: Notification): Promise<void> {
-    try {
-      if (this.isNotificationProcessed(notification)) return;
-
-      console.log('Evento recibido:', notification);
-
-      if (!this.isOrderNotification(notification)) return;
+  /**
+   * Procesa una notificación con el handler de su tópico
+   * Los errores se propagan para que la cola (NotificationQueueService) reintente
+   *
+   * @returns Nombre del handler que la procesó, o null si se omitió
+   */
+  async processNotification(notification: Notification): Promise<string | null> {
+    console.log('Evento recibido:', notification);
 
-      const orderDetails = await this.getOrderDetails(notification);
-      if (!this.shouldProcessOrder(orderDetails)) return;
+    const handler = this.topicRegistry.get(notification.topic);
+    if (!handler) {
+      console.log(`Tópico ${notification.topic} sin handler, se omite...`);
+      return null;
+    }
 
-      await this.processOrder(orderDetails);
+    const handled = await handler.handle(notification);
+    if (!handled) return null;
 
-      notification.processed = true;
-      await this.notificationRepository.save(notification);
+    console.log(`Notificación procesada por el handler ${handler.name}.`);
+    return handler.name;
+  }
 
-      console.log('Orden y detalles guardados correctamente.');
-    } catch (error) {
-      console.error('Error durante el procesamiento de la notificación:', error);
+  private async handleOrderNotification(notification: Notification): Promise<boolean> {
+    const orderDetails = await this.getOrderDetails(notification);
+    if (!orderDetails || orderDetails.error) {
+      throw new Error(orderDetails?.error || `No se pudo obtener ${notification.resource}`);
+    }
+    if (!this.shouldProcessOrder(orderDetails)) {
+      // Sin pago aprobado: apartar el stock hasta que se pague, cancele o venza
+      return this.reserveOrderItems(orderDetails);
     }
+
+    await this.processOrder(orderDetails);
+    console.log('Orden y detalles guardados correctamente.');
+    return true;
   }
 
+  /**
+   * Reserva el stock de una orden pendiente de pago
+   * Vence con expiration_date de la orden (StockReservationService.expireDue)
+   */
+  private async reserveOrderItems(orderDetails: any): Promise<boolean> {
+    if (!PENDING_PAYMENT_STATUSES.includes(orderDetails.status)) return false;
+    if (orderDetails.shipping?.logistic_type === 'fulfillment') return false; // Stock de la bodega de ML
 
-  private isNotificationProcessed(notification: Notification): boolean {
-    if (notification.processed) {
-      console.log('Notificación ya procesada, se omite...');
-      return true;
-    }
-    return false;
-  }
+    const expiresAt = orderDetails.expiration_date ? new Date(orderDetails.expiration_date) : null;
 
+    for (const itemDetail of orderDetails.order_items || []) {
+      const { seller_sku, id: mlSku } = itemDetail.item;
+      const product = await this.findProduct(seller_sku, mlSku);
+      if (!product) continue; // Se registra como venta pendiente al aprobarse el pago
 
-  private isOrderNotification(notification: Notification): boolean {
-    return notification.topic.trim().toLowerCase() === 'orders_v2';
+      const units = this.getPackQuantity(product, mlSku) * itemDetail.quantity;
+      try {
+        if (await this.stockReservationService.reserve(this.getLedgerKey(orderDetails.id, itemDetail.item), product.product_id, units, expiresAt)) {
+          console.log(`Orden ${orderDetails.id}: ${units} unidades reservadas de ${product.internal_sku}`);
+        }
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) throw error;
+        // Sin disponible no se aparta nada; al pagarse se valida el stock de nuevo
+        console.log(`Orden ${orderDetails.id}: ${error.message}`);
+      }
+    }
+
+    return true;
   }
 
 
@@ -163,6 +253,14 @@ export class NotificationService {
 
     await this.saveOrderItems(orderDetails.order_items, order);
     await this.savePayments(orderDetails.payments, order);
+
+    // Reembolsos parciales/totales y reclamos de ML
+    await this.orderClaimsService.syncFromMercadoLibre(
+      orderDetails.id,
+      orderDetails.seller?.id,
+      orderDetails.payments,
+      orderDetails.mediations || [],
+    );
   }
 
   private async saveBuyer(buyerDetails: any): Promise<void> {
@@ -208,6 +306,7 @@ export class NotificationService {
       // Si la orden no existe, se crea una nueva
       order = this.orderRepository.create({
         id: orderDetails.id,
+        platform_order_id: String(orderDetails.id),
         date_approved : new Date(orderDetails.date_approved ?? orderDetails.date_created),
         last_updated: new Date(orderDetails.last_updated),
         expiration_date: orderDetails.expiration_date ? new Date(orderDetails.expiration_date) : null,
@@ -272,110 +371,321 @@ export class NotificationService {
   }
 
   private async saveOrderItems(orderItems: any[], order: Order): Promise<void> {
-    const items = await Promise.all(
-      orderItems.map(async (itemDetail) => {
-        const { item, quantity, unit_price, full_unit_price, currency_id } = itemDetail;
-        const { id: itemId, title, category_id, condition, warranty, seller_sku } = item;
-
-        let orderItem = await this.orderItemRepository.createQueryBuilder('orderItem')
-          .where('orderItem.item_id = :itemId', { itemId: itemDetail.item.id })
-          .andWhere('orderItem.orderId = :orderId', { orderId: order.id })
-          .getOne();
-
-        if (!orderItem) {
-          orderItem = this.orderItemRepository.create({
-            order,
-            item_id: itemId,
-            title,
-            category_id,
-            quantity,
-            unit_price,
-            full_unit_price,
-            currency_id,
-            condition,
-            warranty: warranty ?? '',
-            seller_sku,
-          });
-        } else {
-          Object.assign(orderItem, { title, category_id, quantity, unit_price, full_unit_price, currency_id, condition, warranty: warranty ?? '', seller_sku });
-        }
+    const items: OrderItem[] = [];
+
+    // Secuencial: varias líneas pueden descontar el mismo producto
+    for (const itemDetail of orderItems) {
+      const { item, quantity, unit_price, full_unit_price, currency_id } = itemDetail;
+      const { id: itemId, title, category_id, condition, warranty, seller_sku } = item;
+
+      let orderItem = await this.orderItemRepository.createQueryBuilder('orderItem')
+        .where('orderItem.item_id = :itemId', { itemId: itemDetail.item.id })
+        .andWhere('orderItem.orderId = :orderId', { orderId: order.id })
+        .getOne();
+
+      if (!orderItem) {
+        orderItem = this.orderItemRepository.create({
+          order,
+          item_id: itemId,
+          title,
+          category_id,
+          quantity,
+          unit_price,
+          full_unit_price,
+          currency_id,
+          condition,
+          warranty: warranty ?? '',
+          seller_sku,
+        });
+      } else {
+        Object.assign(orderItem, { title, category_id, quantity, unit_price, full_unit_price, currency_id, condition, warranty: warranty ?? '', seller_sku });
+      }
 
-        if (order.status === 'cancelled') {
-          const existingAudit = await this.productAuditRepository.findOne({
-            where: {
-              order_id: order.id,
-              status: In(['OK_INTERNO'])
-            }
-          });
-
-          if (existingAudit) {
-            await this.handleInventoryAndAudit(order, itemDetail);
-          }
-        }
-        else{
-          const existingAudit = await this.productAuditRepository.findOne({ where: { order_id: order.id } });
+      if (order.status === 'cancelled') {
+        await this.stockReservationService.release(this.getLedgerKey(order.id, item));
 
-          if (!existingAudit) {
-            await this.handleInventoryAndAudit(order, itemDetail);
-          }
+        // Una línea que esperaba stock o mapeo ya no se debe descontar
+        const pendingSale = await this.pendingSalesService.findByOrderLine(MERCADO_LIBRE_PLATFORM_ID, String(order.id), itemId);
+        if (pendingSale?.status === PendingSaleStatus.PENDING) {
+          await this.pendingSalesService.ignore(pendingSale.pending_sale_id, 'Mercado Libre');
         }
+      }
 
+      if ((await this.getInventoryAction(order.id, order.status, item)) !== 'none') {
+        await this.handleInventoryAndAudit(order, itemDetail);
+      }
 
-        return orderItem;
-      })
-    );
-
+      items.push(orderItem);
+    }
 
     await this.orderItemRepository.save(items);
   }
 
+  /**
+   * Decide si una línea de la orden debe mover inventario
+   * - deduct: línea activa sin auditoría previa
+   * - restore: orden cancelada cuya línea descontó stock y aún no se restauró
+   * - none: ya se procesó (evita doble descuento/restauración al reprocesar)
+   */
+  private async getInventoryAction(
+    orderId: number,
+    status: string,
+    item: MlOrderLineItem,
+  ): Promise<'deduct' | 'restore' | 'none'> {
+    const lineAudits = await this.productAuditRepository.find({
+      where: { order_id: orderId, secondary_sku: item.id },
+    });
+
+    const key = this.getLedgerKey(orderId, item);
+    const entry = await this.stockLedgerService.findEntry(key);
+
+    if (status === 'cancelled') {
+      if (entry) {
+        return entry.status === StockLedgerStatus.DEDUCTED ? 'restore' : 'none';
+      }
+
+      // Líneas descontadas antes de existir el ledger
+      const deducted = lineAudits.some((audit) => audit.status === 'OK_INTERNO');
+      const restored = lineAudits.some((audit) => audit.status === 'CANCELLED');
+      return deducted && !restored ? 'restore' : 'none';
+    }
+
+    if (entry) return 'none';
+
+    // Las auditorías son por publicación (sin variación): solo frenan líneas
+    // anteriores al ledger, no otra variación de la misma publicación
+    return lineAudits.length === 0 || (await this.stockLedgerService.hasItemEntries(key)) ? 'deduct' : 'none';
+  }
+
+  /**
+   * Línea de la orden en el ledger: publicación y variación (dos variaciones
+   * de la misma publicación son líneas distintas)
+   */
+  private getLedgerKey(orderId: number, item: MlOrderLineItem): StockLedgerKey {
+    return {
+      platform_id: MERCADO_LIBRE_PLATFORM_ID,
+      platform_order_id: String(orderId),
+      platform_item_id: item.id,
+      platform_variation_id: item.variation_id ? String(item.variation_id) : '',
+    };
+  }
+
+  /**
+   * Vista previa (sin guardar) de lo que haría el pipeline de órdenes
+   * Usado por el replay en modo dry-run
+   */
+  async previewOrderNotification(notification: Notification): Promise<OrderNotificationPreview> {
+    const orderDetails = await this.getOrderDetails(notification);
+    if (!orderDetails || orderDetails.error) {
+      throw new Error(orderDetails?.error || `No se pudo obtener ${notification.resource}`);
+    }
+
+    if (!this.shouldProcessOrder(orderDetails)) {
+      return { processed: false, order: null, items: [], payments: [], stock: [] };
+    }
+
+    const existingOrder = await this.orderRepository.findOne({ where: { id: orderDetails.id } });
+    const logisticType = existingOrder?.logistic_type || orderDetails.shipping?.logistic_type || null;
+
+    const stock: OrderNotificationPreview['stock'] = [];
+    for (const itemDetail of orderDetails.order_items || []) {
+      const { seller_sku, id: mlSku } = itemDetail.item;
+      const action = await this.getInventoryAction(orderDetails.id, orderDetails.status, itemDetail.item);
+      const product = await this.findProduct(seller_sku, mlSku);
+      if (!product || action === 'none') {
+        continue;
+      }
+
+      let units = this.getPackQuantity(product, mlSku) * itemDetail.quantity;
+      // Misma regla que processStockUpdate: sin stock disponible en la ubicación no se descuenta
+      const location = this.getStockLocation(logisticType);
+      const ledgerKey = this.getLedgerKey(orderDetails.id, itemDetail.item);
+      if (action === 'deduct' && (await this.inventoryService.getAvailableQuantity(product, location, ledgerKey)) < units) {
+        continue;
+      }
+      if (action === 'restore') {
+        // Se restaura lo que realmente se descontó
+        const entry = await this.stockLedgerService.findEntry(ledgerKey);
+        units = entry?.quantity_deducted ?? units;
+      }
+
+      const change = action === 'deduct' ? -units : units;
+      const previous = stock.find((s) => s.product_id === product.product_id);
+      if (previous) {
+        previous.stock_after += change;
+      } else {
+        stock.push({
+          product_id: product.product_id,
+          internal_sku: product.internal_sku,
+          stock_before: product.stock,
+          stock_after: product.stock + change,
+        });
+      }
+    }
+
+    return {
+      processed: true,
+      order: {
+        id: orderDetails.id,
+        status: orderDetails.status,
+        total_amount: Number(orderDetails.total_amount) || 0,
+        paid_amount: Number(orderDetails.paid_amount) || 0,
+      },
+      items: (orderDetails.order_items || []).map((itemDetail) => ({
+        item_id: itemDetail.item.id,
+        quantity: itemDetail.quantity,
+        unit_price: Number(itemDetail.unit_price) || 0,
+      })),
+      payments: (orderDetails.payments || []).map((payment) => ({
+        id: payment.id,
+        status: payment.status,
+        transaction_amount: Number(payment.transaction_amount) || 0,
+      })),
+      stock,
+    };
+  }
+
   private async handleInventoryAndAudit(order: Order, itemDetail: any): Promise<void> {
     const { item, quantity } = itemDetail;
     const { seller_sku, id: mlSku } = item;
 
     const product = await this.findProduct(seller_sku, mlSku);
     if (!product) {
+      // Queda en ventas pendientes para mapear el SKU manualmente
+      await this.pendingSalesService.create({
+        platform_id: MERCADO_LIBRE_PLATFORM_ID,
+        platform_order_id: String(order.id),
+        platform_sku: mlSku,
+        quantity,
+        sale_date: order.date_approved || new Date(),
+        raw_data: {
+          seller_sku,
+          title: item.title,
+          logistic_type: order.logistic_type,
+          variation_id: this.getLedgerKey(order.id, item).platform_variation_id,
+        },
+      });
       return this.createAudit(order, seller_sku, mlSku, 'NOT_FOUND', 0, 'SKU no encontrado en el inventario');
     }
 
-    if (order.logistic_type === 'fulfillment') {
-      return this.createAudit(order, seller_sku, mlSku, 'OK_FULL', product.secondarySkus[0].stock_quantity);
-    }
+    const units = this.getPackQuantity(product, mlSku) * quantity;
+
+    const { quantityDiscounted, status, errorMessage } = await this.processStockUpdate(order, product, item, units);
+    if (!status) return; // Línea ya aplicada según el ledger
 
-    const { quantityDiscounted, status, errorMessage } = this.processStockUpdate(order, product, quantity);
-    await this.productRepository.save(product);
     await this.createAudit(order, seller_sku, mlSku, status, quantityDiscounted, errorMessage);
   }
 
+  /**
+   * Resuelve el producto vía InventoryService (mapeos primero, luego SKU interno)
+   */
   private async findProduct(seller_sku: string, mlSku: string): Promise<Product | null> {
-    return this.productRepository.findOne({
-      where: [{ internal_sku: seller_sku }, { internal_sku: mlSku }],
-      relations: ['secondarySkus'],
-    });
+    return (
+      (seller_sku && (await this.inventoryService.findProductBySku(MERCADO_LIBRE_PLATFORM_ID, seller_sku))) ||
+      (await this.inventoryService.findProductBySku(MERCADO_LIBRE_PLATFORM_ID, mlSku))
+    );
+  }
+
+  /**
+   * Unidades del producto por unidad vendida (packs); 1 si viene de un mapeo
+   */
+  private getPackQuantity(product: Product, mlSku: string): number {
+    const secondary = product.secondarySkus?.find((s) => s.secondary_sku === mlSku);
+
+    return secondary?.stock_quantity || 1;
+  }
+
+  /**
+   * Ubicación de la que sale el stock: Full descuenta de las bodegas de ML
+   */
+  private getStockLocation(logisticType: string | null): StockLocationCode {
+    return logisticType === 'fulfillment' ? StockLocationCode.FULL : StockLocationCode.BODEGA;
   }
 
-  private processStockUpdate(
+  /**
+   * Aplica el movimiento de stock de una línea vía InventoryService
+   * (queda en product_history con la orden); el ledger evita repetirlo
+   * status null: la línea ya se descontó/restauró, no hay cambios
+   */
+  private async processStockUpdate(
     order: Order,
     product: Product,
-    quantity: number
-  ): { quantityDiscounted: number; status: 'OK_INTERNO' | 'OK_FULL' | 'NOT_FOUND' | 'CANCELLED'; errorMessage?: string } {
-    const stockItem = product.secondarySkus[0];
+    item: MlOrderLineItem,
+    units: number
+  ): Promise<{ quantityDiscounted: number; status: ProductAuditStatus | null; errorMessage?: string }> {
+    const mlSku = item.id;
+    const ledgerKey = this.getLedgerKey(order.id, item);
+    const location = this.getStockLocation(order.logistic_type);
+    const metadata = {
+      ...ledgerKey,
+      location,
+      change_type: 'order' as const,
+      changed_by: 'Mercado Libre',
+      metadata: { ml_item_id: mlSku, logistic_type: order.logistic_type },
+    };
 
     if (order.status === 'cancelled') {
-      product.stock += stockItem.stock_quantity * quantity;
-      return { quantityDiscounted: -(stockItem.stock_quantity * quantity), status: 'CANCELLED' };
-    }
+      // Restaurar solo lo que realmente se descontó
+      const legacyAudit = await this.productAuditRepository.findOne({
+        where: { order_id: order.id, secondary_sku: mlSku, status: 'OK_INTERNO' },
+      });
+      const restored = await this.inventoryService.restoreDeduction(
+        ledgerKey,
+        product.product_id,
+        legacyAudit?.quantity_discounted || 0,
+        { ...metadata, change_reason: `Orden ${order.id} cancelada en Mercado Libre` },
+      );
+      if (restored === 0) {
+        return { quantityDiscounted: 0, status: null };
+      }
 
-    if (product.stock >= stockItem.stock_quantity * quantity) {
-      product.stock -= stockItem.stock_quantity * quantity;
-      return { quantityDiscounted: stockItem.stock_quantity * quantity, status: 'OK_INTERNO' };
+      return { quantityDiscounted: -restored, status: 'CANCELLED' };
     }
 
-    return {
-      quantityDiscounted: 0,
-      status: 'NOT_FOUND',
-      errorMessage: `Stock insuficiente: ${stockItem.stock_quantity * quantity}`,
-    };
+    // deductStock valida el disponible con el producto bloqueado y reserva la
+    // línea en el ledger; la reserva de la orden se convierte en la misma
+    // transacción para no contar las unidades dos veces
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        await this.inventoryService.deductStock(product.product_id, units, {
+          ...metadata,
+          change_reason: `Venta Mercado Libre - Orden ${order.id}`,
+        }, manager);
+        await this.stockReservationService.convert(ledgerKey, manager);
+      });
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) {
+        throw error;
+      }
+
+      // Queda en ventas pendientes: al resolverla (con stock) se descuenta con el mismo ledger
+      const pendingSale = await this.pendingSalesService.findByOrderLine(MERCADO_LIBRE_PLATFORM_ID, String(order.id), mlSku);
+      if (!pendingSale) {
+        await this.pendingSalesService.create({
+          platform_id: MERCADO_LIBRE_PLATFORM_ID,
+          platform_order_id: String(order.id),
+          platform_sku: mlSku,
+          quantity: units,
+          sale_date: order.date_approved || new Date(),
+          raw_data: {
+            reason: 'insufficient_stock',
+            product_id: product.product_id,
+            internal_sku: product.internal_sku,
+            location,
+            logistic_type: order.logistic_type,
+            variation_id: ledgerKey.platform_variation_id,
+          },
+        });
+      }
+      // La reserva de la línea no debe seguir bloqueando stock hasta vencer
+      await this.stockReservationService.release(ledgerKey);
+      return {
+        quantityDiscounted: 0,
+        status: 'INSUFFICIENT_STOCK',
+        errorMessage: error.message,
+      };
+    }
+    return { quantityDiscounted: units, status: location === StockLocationCode.FULL ? 'OK_FULL' : 'OK_INTERNO' };
   }
 
 
@@ -383,10 +693,11 @@ export class NotificationService {
     order: Order,
     seller_sku: string,
     mlSku: string,
-    status: 'OK_INTERNO' | 'OK_FULL' | 'NOT_FOUND' | 'CANCELLED',
+    status: ProductAuditStatus,
     quantityDiscounted: number,
     errorMessage?: string
   ): Promise<void> {
+    const platform = await this.mercadoLibreService.getPlatform();
     const audit = this.productAuditRepository.create({
       order_id: order.id,
       internal_sku: seller_sku,
@@ -395,7 +706,7 @@ export class NotificationService {
       quantity_discounted: quantityDiscounted,
       error_message: errorMessage || null,
       logistic_type: order.logistic_type,
-      platform_name: 'Mercado Libre',
+      platform_name: platform.platform_name,
     });
 
     await this.productAuditRepository.save(audit);
@@ -477,7 +788,7 @@ export class NotificationService {
       }
 
       const response: AxiosResponse = await firstValueFrom(
-        this.httpService.get(`${this.apiUrl}/orders/${order.id}/billing_info`, {
+        this.httpService.get(`${await this.mercadoLibreService.getApiUrl()}/orders/${order.id}/billing_info`, {
           headers: {
             Authorization: `Bearer ${session.access_token}`,
           },
@@ -572,7 +883,7 @@ export class NotificationService {
       console.log('Intentando acceder con el token:', accessToken);
 
       const response: AxiosResponse = await firstValueFrom(
-        this.httpService.get(`${this.apiUrl}${notification.resource}`, {
+        this.httpService.get(`${await this.mercadoLibreService.getApiUrl()}${notification.resource}`, {
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
@@ -609,7 +920,7 @@ export class NotificationService {
 
   
       const response: AxiosResponse = await firstValueFrom(
-        this.httpService.get(`https://api.mercadolibre.com/orders/${order.id}/shipments`, {
+        this.httpService.get(`${await this.mercadoLibreService.getApiUrl()}/orders/${order.id}/shipments`, {
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
@@ -663,7 +974,7 @@ export class NotificationService {
       console.log('Realizando solicitud para refrescar el token...' + refreshToken);
       const response = await firstValueFrom(
         this.httpService.post(
-          `${this.apiUrl}/oauth/token`,
+          `${await this.mercadoLibreService.getApiUrl()}/oauth/token`,
           new URLSearchParams({
             grant_type: 'refresh_token',
             client_id: this.clientId,
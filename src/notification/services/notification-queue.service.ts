@@ -0,0 +1,229 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import {
+  Notification,
+  NotificationStatus,
+} from '../entities/notification.entity';
+import { NotificationService } from '../notification.service';
+
+/**
+ * After this many attempts the notification moves to FAILED (dead-letter)
+ */
+const MAX_PROCESSING_ATTEMPTS = 5;
+
+/**
+ * First retry delay, doubled on every attempt (30s, 1m, 2m, 4m)
+ */
+const BASE_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Notifications claimed per worker tick
+ */
+const BATCH_SIZE = 20;
+
+/**
+ * A PROCESSING row older than this belongs to a crashed worker
+ */
+const STALE_LOCK_MINUTES = 10;
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Notification Queue Service
+ * DB-backed work queue over the notifications table
+ *
+ * The webhook only stores the notification (PENDING); a background worker
+ * claims rows with FOR UPDATE SKIP LOCKED, processes them and retries with
+ * exponential backoff until MAX_PROCESSING_ATTEMPTS, then marks them FAILED.
+ *
+ * Applies:
+ * - error-handle-async-errors: Errors are stored on the row, never lost
+ * - db-use-transactions: Claiming is a single atomic UPDATE
+ */
+@Injectable()
+export class NotificationQueueService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationQueueService.name);
+  private readonly pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly notificationService: NotificationService,
+    configService: ConfigService,
+  ) {
+    this.pollIntervalMs =
+      Number(configService.get('NOTIFICATION_WORKER_INTERVAL_MS')) ||
+      DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+    this.logger.log(
+      `Notification worker started (every ${this.pollIntervalMs}ms)`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Notifications that exhausted their retries
+   */
+  async findFailed(): Promise<Notification[]> {
+    return this.notificationRepository.find({
+      where: { status: NotificationStatus.FAILED },
+      order: { received: 'DESC' },
+    });
+  }
+
+  /**
+   * Put a failed (or skipped) notification back in the queue
+   */
+  async retry(id: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({
+      where: { id },
+    });
+
+    if (!notification) {
+      throw new NotFoundException(`Notificación ${id} no encontrada`);
+    }
+
+    if (
+      ![NotificationStatus.FAILED, NotificationStatus.SKIPPED].includes(
+        notification.status,
+      )
+    ) {
+      throw new ConflictException(
+        `La notificación ${id} está en estado ${notification.status} y no se puede reintentar`,
+      );
+    }
+
+    notification.status = NotificationStatus.PENDING;
+    notification.processing_attempts = 0;
+    notification.next_attempt_at = null;
+    notification.locked_at = null;
+
+    const saved = await this.notificationRepository.save(notification);
+    this.tick();
+    return saved;
+  }
+
+  /**
+   * One worker pass: release stale locks, claim a batch and process it
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      await this.releaseStaleLocks();
+
+      let batch = await this.claimBatch();
+      while (batch.length > 0) {
+        for (const notification of batch) {
+          await this.processOne(notification);
+        }
+        batch = await this.claimBatch();
+      }
+    } catch (error) {
+      this.logger.error(`Notification worker tick failed: ${error.message}`);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async processOne(notification: Notification): Promise<void> {
+    try {
+      const handledBy =
+        await this.notificationService.processNotification(notification);
+
+      await this.notificationRepository.update(notification.id, {
+        status: handledBy
+          ? NotificationStatus.PROCESSED
+          : NotificationStatus.SKIPPED,
+        processed: !!handledBy,
+        handled_by: handledBy,
+        processed_at: new Date(),
+        last_error: null,
+        locked_at: null,
+      });
+    } catch (error) {
+      const attempts = notification.processing_attempts;
+      const exhausted = attempts >= MAX_PROCESSING_ATTEMPTS;
+      const delay = BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+      this.logger.warn(
+        `Notification ${notification.id} (${notification.topic}) attempt ${attempts} failed: ${error.message}`,
+      );
+
+      await this.notificationRepository.update(notification.id, {
+        status: exhausted
+          ? NotificationStatus.FAILED
+          : NotificationStatus.PENDING,
+        next_attempt_at: exhausted ? null : new Date(Date.now() + delay),
+        last_error: error.message || String(error),
+        locked_at: null,
+      });
+    }
+  }
+
+  /**
+   * Atomically move due PENDING rows to PROCESSING (safe with several workers)
+   */
+  private async claimBatch(): Promise<Notification[]> {
+    const result = await this.notificationRepository.query(
+      `UPDATE notifications
+       SET status = $1, locked_at = NOW(), processing_attempts = processing_attempts + 1
+       WHERE id IN (
+         SELECT id FROM notifications
+         WHERE status = $2 AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+         ORDER BY received ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id`,
+      [NotificationStatus.PROCESSING, NotificationStatus.PENDING, BATCH_SIZE],
+    );
+
+    // UPDATE ... RETURNING comes back as [rows, count] in the postgres driver
+    const rows: { id: string }[] = Array.isArray(result[0])
+      ? result[0]
+      : result;
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return this.notificationRepository.find({
+      where: { id: In(rows.map((r) => r.id)) },
+      order: { received: 'ASC' },
+    });
+  }
+
+  private async releaseStaleLocks(): Promise<void> {
+    await this.notificationRepository.query(
+      `UPDATE notifications
+       SET status = $1, locked_at = NULL
+       WHERE status = $2 AND locked_at < NOW() - INTERVAL '${STALE_LOCK_MINUTES} minutes'`,
+      [NotificationStatus.PENDING, NotificationStatus.PROCESSING],
+    );
+  }
+}
@@ -0,0 +1,529 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, MoreThan, Repository } from 'typeorm';
+import {
+  Notification,
+  NotificationStatus,
+} from '../entities/notification.entity';
+import { ProductAudit } from '../entities/product-audit.entity';
+import { Order } from '../../orders/entities/order.entity';
+import { OrderClaim } from '../../orders/entities/order-claim.entity';
+import { Product } from '../../products/entities/product.entity';
+import { ProductHistory } from '../../products/entities/product-history.entity';
+import { StockLedgerEntry } from '../../products/entities/stock-ledger-entry.entity';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../../products/platforms/platform.constants';
+import { MlListing } from '../../mercadolibre/entities/ml-listing.entity';
+import {
+  NotificationService,
+  OrderNotificationPreview,
+} from '../notification.service';
+import { NotificationTopicRegistry } from '../handlers/notification-topic.registry';
+import { getResourceId } from '../handlers/notification-topic-handler.interface';
+import {
+  ReplayChangeDto,
+  ReplayModeEnum,
+  ReplayNotificationsQueryDto,
+  ReplayResponseDto,
+  ReplayResultDto,
+} from '../dto/replay-notifications.dto';
+
+/**
+ * Replays run inside the request: keep windows reasonably small
+ */
+const MAX_REPLAY_NOTIFICATIONS = 500;
+
+/**
+ * Entity fields by "entity:key", compared before/after a replay
+ */
+type Snapshot = Map<string, Record<string, any>>;
+
+/**
+ * Notification Replay Service
+ * Re-feeds stored notifications through the processing pipeline
+ *
+ * Handlers read the current state of the resource from ML, so only the
+ * latest notification per topic/resource is replayed. Stock effects are
+ * idempotent: every order line is deducted or restored at most once
+ * through the stock ledger.
+ *
+ * Applies:
+ * - arch-single-responsibility: Processing stays in NotificationService
+ */
+@Injectable()
+export class NotificationReplayService {
+  private readonly logger = new Logger(NotificationReplayService.name);
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    @InjectRepository(ProductAudit)
+    private readonly productAuditRepository: Repository<ProductAudit>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(StockLedgerEntry)
+    private readonly ledgerRepository: Repository<StockLedgerEntry>,
+    @InjectRepository(ProductHistory)
+    private readonly historyRepository: Repository<ProductHistory>,
+    @InjectRepository(OrderClaim)
+    private readonly claimRepository: Repository<OrderClaim>,
+    @InjectRepository(MlListing)
+    private readonly listingRepository: Repository<MlListing>,
+    private readonly notificationService: NotificationService,
+    private readonly topicRegistry: NotificationTopicRegistry,
+  ) {}
+
+  async replay(query: ReplayNotificationsQueryDto): Promise<ReplayResponseDto> {
+    const from = new Date(query.from);
+    const to = this.endOfDayIfDate(query.to);
+    const mode = query.mode || ReplayModeEnum.DRY_RUN;
+
+    if (from > to) {
+      throw new BadRequestException(
+        'La fecha de inicio debe ser anterior o igual a la fecha de término',
+      );
+    }
+
+    const notifications = await this.notificationRepository.find({
+      where: {
+        received: Between(from, to),
+        ...(query.topic ? { topic: query.topic } : {}),
+      },
+      order: { received: 'ASC' },
+    });
+
+    if (notifications.length > MAX_REPLAY_NOTIFICATIONS) {
+      throw new BadRequestException(
+        `La ventana tiene ${notifications.length} notificaciones (máximo ${MAX_REPLAY_NOTIFICATIONS}). Reduzca el rango o filtre por topic`,
+      );
+    }
+
+    // Latest notification per topic/resource
+    const latest = new Map<string, Notification>();
+    for (const notification of notifications) {
+      latest.set(
+        `${notification.topic}:${notification.resource}`,
+        notification,
+      );
+    }
+
+    this.logger.log(
+      `Replaying ${latest.size} resources (${notifications.length} notifications) in ${mode} mode`,
+    );
+
+    const results: ReplayResultDto[] = [];
+    for (const notification of latest.values()) {
+      results.push(
+        mode === ReplayModeEnum.APPLY
+          ? await this.apply(notification)
+          : await this.preview(notification),
+      );
+    }
+
+    return {
+      mode,
+      from: query.from,
+      to: query.to,
+      topic: query.topic || null,
+      total_notifications: notifications.length,
+      replayed: results.length,
+      summary: {
+        changed: results.filter(
+          (r) =>
+            (r.status === 'applied' || r.status === 'previewed') &&
+            r.changes.length > 0,
+        ).length,
+        unchanged: results.filter(
+          (r) =>
+            (r.status === 'applied' || r.status === 'previewed') &&
+            r.changes.length === 0,
+        ).length,
+        skipped: results.filter(
+          (r) => r.status === 'skipped' || r.status === 'preview_unavailable',
+        ).length,
+        errors: results.filter((r) => r.status === 'error').length,
+      },
+      results,
+    };
+  }
+
+  /**
+   * Process the notification, diff the affected rows and record the
+   * outcome on the notification, as the queue worker does
+   */
+  private async apply(notification: Notification): Promise<ReplayResultDto> {
+    const result = this.emptyResult(notification);
+
+    try {
+      const before = await this.takeSnapshot(notification);
+      const historyMark =
+        (await this.historyRepository.maximum('history_id')) || 0;
+      const handledBy =
+        await this.notificationService.processNotification(notification);
+      const after = await this.takeSnapshot(notification);
+      await this.addReplayedStock(notification, before, after, historyMark);
+
+      result.handled_by = handledBy;
+      result.status = handledBy ? 'applied' : 'skipped';
+      result.changes = this.diff(before, after);
+
+      await this.notificationRepository.update(notification.id, {
+        status: handledBy
+          ? NotificationStatus.PROCESSED
+          : NotificationStatus.SKIPPED,
+        processed: !!handledBy,
+        handled_by: handledBy,
+        processed_at: new Date(),
+        next_attempt_at: null,
+        last_error: null,
+        locked_at: null,
+      });
+    } catch (error) {
+      result.status = 'error';
+      result.error = error.message;
+
+      await this.notificationRepository.update(notification.id, {
+        last_error: error.message || String(error),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Predict the changes without saving (orders_v2 only)
+   */
+  private async preview(notification: Notification): Promise<ReplayResultDto> {
+    const result = this.emptyResult(notification);
+    const handler = this.topicRegistry.get(notification.topic);
+    result.handled_by = handler?.name || null;
+
+    if (!handler) {
+      result.status = 'skipped';
+      return result;
+    }
+
+    if (handler.name !== 'orders') {
+      result.status = 'preview_unavailable';
+      return result;
+    }
+
+    try {
+      const preview =
+        await this.notificationService.previewOrderNotification(notification);
+
+      if (!preview.processed) {
+        result.status = 'skipped';
+        return result;
+      }
+
+      const before = await this.takeSnapshot(notification);
+      // Lines not deducted yet have no ledger/history rows: the preview
+      // resolved their product (mappings included)
+      for (const stock of preview.stock) {
+        if (!before.has(`product:${stock.product_id}`)) {
+          before.set(`product:${stock.product_id}`, {
+            internal_sku: stock.internal_sku,
+            stock: stock.stock_before,
+          });
+        }
+      }
+      result.status = 'previewed';
+      result.changes = this.diff(
+        before,
+        this.applyPreview(before, preview),
+      ).filter((change) => change.after !== undefined);
+    } catch (error) {
+      result.status = 'error';
+      result.error = error.message;
+    }
+
+    return result;
+  }
+
+  /**
+   * Rows a notification can touch, by topic
+   */
+  private async takeSnapshot(notification: Notification): Promise<Snapshot> {
+    const snapshot: Snapshot = new Map();
+    const resourceId = getResourceId(notification.resource);
+
+    switch (this.topicRegistry.get(notification.topic)?.name) {
+      case 'orders':
+      case 'shipments':
+        await this.addOrders(snapshot, await this.getOrderIds(notification));
+        break;
+      case 'claims': {
+        const claims = await this.claimRepository.find({
+          where: { ml_claim_id: Number(resourceId) },
+        });
+        for (const claim of claims) {
+          snapshot.set(`claim:${claim.claim_id}`, {
+            status: claim.status,
+            stage: claim.stage,
+            restock_status: claim.restock_status,
+            refunded_amount: Number(claim.refunded_amount),
+          });
+        }
+        break;
+      }
+      case 'items': {
+        const listing = await this.listingRepository.findOne({
+          where: { item_id: resourceId },
+        });
+        if (listing) {
+          snapshot.set(`listing:${listing.item_id}`, {
+            title: listing.title,
+            price: Number(listing.price),
+            available_quantity: listing.available_quantity,
+            status: listing.status,
+          });
+        }
+        break;
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Orders behind an orders_v2 or shipments notification
+   */
+  private async getOrderIds(notification: Notification): Promise<number[]> {
+    const resourceId = getResourceId(notification.resource);
+
+    switch (this.topicRegistry.get(notification.topic)?.name) {
+      case 'orders':
+        return [Number(resourceId)];
+      case 'shipments': {
+        const orders = await this.orderRepository.find({
+          where: { shipping_id: resourceId },
+        });
+        return orders.map((o) => o.id);
+      }
+      default:
+        return [];
+    }
+  }
+
+  private async addOrders(
+    snapshot: Snapshot,
+    orderIds: number[],
+  ): Promise<void> {
+    if (orderIds.length === 0) {
+      return;
+    }
+
+    const orders = await this.orderRepository.find({
+      where: { id: In(orderIds) },
+      relations: ['items', 'payments'],
+    });
+
+    for (const order of orders) {
+      snapshot.set(`order:${order.id}`, {
+        status: order.status,
+        total_amount: Number(order.total_amount),
+        paid_amount: Number(order.paid_amount),
+        logistic_type: order.logistic_type,
+        delivery_status: order.delivery_status,
+      });
+
+      for (const item of order.items || []) {
+        snapshot.set(`order_item:${order.id}/${item.item_id}`, {
+          quantity: item.quantity,
+          unit_price: Number(item.unit_price),
+        });
+      }
+
+      for (const payment of order.payments || []) {
+        snapshot.set(`payment:${payment.id}`, {
+          status: payment.status,
+          transaction_amount: Number(payment.transaction_amount),
+        });
+      }
+    }
+
+    const audits = await this.productAuditRepository.find({
+      where: { order_id: In(orderIds) },
+    });
+    for (const orderId of orderIds) {
+      const orderAudits = audits.filter((a) => Number(a.order_id) === orderId);
+      snapshot.set(`audit:${orderId}`, {
+        count: orderAudits.length,
+        statuses: orderAudits
+          .map((a) => a.status)
+          .sort()
+          .join(','),
+      });
+    }
+
+    // Products resolved by the pipeline (mappings included): those with a
+    // ledger line or a stock movement for these orders
+    const productIds = await this.getStockProductIds(orderIds);
+    if (productIds.length > 0) {
+      const products = await this.productRepository.find({
+        where: { product_id: In(productIds) },
+        loadEagerRelations: false,
+      });
+      for (const product of products) {
+        snapshot.set(`product:${product.product_id}`, {
+          internal_sku: product.internal_sku,
+          stock: product.stock,
+        });
+      }
+    }
+  }
+
+  private async getStockProductIds(orderIds: number[]): Promise<number[]> {
+    const where = {
+      platform_id: MERCADO_LIBRE_PLATFORM_ID,
+      platform_order_id: In(orderIds.map(String)),
+    };
+    const entries = await this.ledgerRepository.find({ where });
+    const movements = await this.historyRepository.find({
+      where: { ...where, field_name: 'stock' },
+    });
+
+    return [
+      ...new Set([
+        ...entries.map((e) => e.product_id),
+        ...movements.map((m) => m.product_id),
+      ]),
+    ];
+  }
+
+  /**
+   * Products first touched by this replay were not in the "before" snapshot:
+   * their stock before is the old value of the replay's first movement (a
+   * kit only gets a ledger line; its components move)
+   */
+  private async addReplayedStock(
+    notification: Notification,
+    before: Snapshot,
+    after: Snapshot,
+    historyMark: number,
+  ): Promise<void> {
+    const orderIds = await this.getOrderIds(notification);
+    if (orderIds.length === 0) {
+      return;
+    }
+
+    const movements = await this.historyRepository.find({
+      where: {
+        history_id: MoreThan(historyMark),
+        platform_id: MERCADO_LIBRE_PLATFORM_ID,
+        platform_order_id: In(orderIds.map(String)),
+        field_name: 'stock',
+      },
+      order: { history_id: 'ASC' },
+    });
+
+    for (const movement of movements) {
+      const key = `product:${movement.product_id}`;
+      if (!before.has(key)) {
+        before.set(key, {
+          ...after.get(key),
+          stock: Number(movement.old_value),
+        });
+      }
+    }
+
+    for (const [key, fields] of after) {
+      if (key.startsWith('product:') && !before.has(key)) {
+        before.set(key, { ...fields });
+      }
+    }
+  }
+
+  /**
+   * Build the predicted "after" snapshot from an orders_v2 preview
+   */
+  private applyPreview(
+    before: Snapshot,
+    preview: OrderNotificationPreview,
+  ): Snapshot {
+    const after: Snapshot = new Map(
+      [...before].map(([key, fields]) => [key, { ...fields }]),
+    );
+    const merge = (key: string, fields: Record<string, any>) =>
+      after.set(key, { ...(after.get(key) || {}), ...fields });
+
+    const { id, ...orderFields } = preview.order;
+    merge(`order:${id}`, orderFields);
+
+    for (const item of preview.items) {
+      merge(`order_item:${id}/${item.item_id}`, {
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+      });
+    }
+
+    for (const payment of preview.payments) {
+      merge(`payment:${payment.id}`, {
+        status: payment.status,
+        transaction_amount: payment.transaction_amount,
+      });
+    }
+
+    for (const stock of preview.stock) {
+      merge(`product:${stock.product_id}`, {
+        internal_sku: stock.internal_sku,
+        stock: stock.stock_after,
+      });
+    }
+
+    return after;
+  }
+
+  private diff(before: Snapshot, after: Snapshot): ReplayChangeDto[] {
+    const changes: ReplayChangeDto[] = [];
+    const keys = new Set([...before.keys(), ...after.keys()]);
+
+    for (const fullKey of keys) {
+      const separator = fullKey.indexOf(':');
+      const entity = fullKey.substring(0, separator);
+      const key = fullKey.substring(separator + 1);
+      const beforeFields = before.get(fullKey) || {};
+      const afterFields = after.get(fullKey) || {};
+      const fields = new Set([
+        ...Object.keys(beforeFields),
+        ...Object.keys(afterFields),
+      ]);
+
+      for (const field of fields) {
+        if (beforeFields[field] !== afterFields[field]) {
+          changes.push({
+            entity,
+            key,
+            field,
+            before: beforeFields[field] ?? null,
+            after: afterFields[field],
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private emptyResult(notification: Notification): ReplayResultDto {
+    return {
+      notification_id: notification.id,
+      topic: notification.topic,
+      resource: notification.resource,
+      handled_by: null,
+      status: 'skipped',
+      changes: [],
+    };
+  }
+
+  /**
+   * A plain YYYY-MM-DD "to" includes the whole day
+   */
+  private endOfDayIfDate(value: string): Date {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T23:59:59.999Z`)
+      : new Date(value);
+  }
+}
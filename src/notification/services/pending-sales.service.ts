@@ -20,6 +20,23 @@ export class PendingSalesService {
     return await this.pendingSaleRepository.save(pendingSale);
   }
 
+  /**
+   * Venta pendiente de una línea de orden (para no duplicarla al resincronizar)
+   */
+  async findByOrderLine(
+    platformId: number,
+    platformOrderId: string,
+    platformSku: string,
+  ): Promise<PendingSale | null> {
+    return this.pendingSaleRepository.findOne({
+      where: {
+        platform_id: platformId,
+        platform_order_id: platformOrderId,
+        platform_sku: platformSku,
+      },
+    });
+  }
+
   async findAll(status?: PendingSaleStatus, platformId?: number): Promise<PendingSale[]> {
     // Debug log
     console.log('findAll called with:', { status, platformId, statusType: typeof status });
@@ -68,13 +85,16 @@ export class PendingSalesService {
   async resolve(id: number, dto: ResolvePendingSaleDto): Promise<PendingSale> {
     const sale = await this.findById(id);
 
-    // Descontar stock
+    // Descontar stock (de la ubicación de la venta si quedó registrada)
     await this.inventoryService.deductStock(dto.product_id, sale.quantity, {
+      location: sale.raw_data?.location,
       change_type: 'order',
       changed_by: dto.resolved_by,
       change_reason: `Venta pendiente resuelta - Orden ${sale.platform_order_id}`,
       platform_id: sale.platform_id,
       platform_order_id: sale.platform_order_id,
+      platform_item_id: sale.platform_sku,
+      platform_variation_id: sale.raw_data?.variation_id,
       adjustment_amount: -sale.quantity,
       metadata: { pending_sale_id: id, ...sale.raw_data },
     });
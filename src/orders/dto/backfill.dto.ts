@@ -0,0 +1,61 @@
+import {
+  IsString,
+  IsInt,
+  IsPositive,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  BackfillFailure,
+  BackfillJobStatus,
+} from '../entities/order-backfill-job.entity';
+
+/**
+ * Body DTO for starting (or resuming) a historical backfill
+ * Applies: security-validate-all-input
+ */
+export class StartBackfillDto {
+  @Type(() => Number)
+  @IsInt({ message: 'seller_id debe ser un número válido' })
+  @IsPositive({ message: 'seller_id debe ser un número válido' })
+  seller_id: number;
+
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de inicio es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  from: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de término es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  to: string;
+}
+
+/**
+ * Response DTO with the progress of a backfill job
+ */
+export class BackfillJobStatusDto {
+  job_id: string;
+  seller_id: number;
+  from: string;
+  to: string;
+  status: BackfillJobStatus;
+  cursor: {
+    date: string;
+    offset: number;
+  };
+  days_total: number;
+  days_done: number;
+  orders_saved: number;
+  orders_failed: number;
+  failures: BackfillFailure[];
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+}
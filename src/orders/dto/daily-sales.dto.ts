@@ -57,6 +57,8 @@ export class OrderItemSummaryDto {
  */
 export class OrderSummaryDto {
   id: number;
+  platform_id: number; // 1 = Mercado Libre, 2 = Falabella, 3 = Venta directa
+  platform_order_id: string | null; // Order ID on its platform
   date_created: Date;
   date_approved: Date;
   status: string;
@@ -65,6 +67,7 @@ export class OrderSummaryDto {
   logistic_type: string;
   logistic_type_label: string;
   pack_id: number | null;
+  delivery_status: string | null; // ML shipment status (shipped, delivered, not_delivered...)
 
   @Type(() => OrderItemSummaryDto)
   items: OrderItemSummaryDto[];
@@ -77,6 +80,7 @@ export class OrderSummaryDto {
   flex_shipping_cost: number; // External flex shipping cost (net, without IVA)
   gross_amount: number;
   total_fees: number;
+  refunded_amount: number; // Refunded to the buyer (partial/total), subtracted from net_profit
   net_profit: number;
   profit_margin: number;
   buyer?: {
@@ -88,12 +92,13 @@ export class OrderSummaryDto {
 }
 
 /**
- * Summary for a logistic type (Full/Flex/Normal)
+ * Summary for a logistic type (Full/Flex/Normal) or another sales channel
  */
 export class LogisticTypeSummaryDto {
   logistic_type: string;
   logistic_type_label: string;
   total_orders: number;
+  total_packs: number; // Shipments: orders sharing a pack_id count once
   total_items: number;
   gross_amount: number;
   shipping_cost: number;
@@ -102,6 +107,7 @@ export class LogisticTypeSummaryDto {
   shipping_bonus: number; // Total bonificación por envío de ML for this type
   flex_shipping_cost: number; // Total external flex shipping cost for this type
   total_fees: number;
+  refunded_amount: number;
   net_profit: number;
   average_order_value: number;
   average_profit_margin: number;
@@ -112,6 +118,7 @@ export class LogisticTypeSummaryDto {
  */
 export class DailySalesSummaryDto {
   total_orders: number;
+  total_packs: number; // Shipments: orders sharing a pack_id count once
   total_items: number;
   gross_amount: number;
   shipping_cost: number;
@@ -120,11 +127,32 @@ export class DailySalesSummaryDto {
   shipping_bonus: number; // Total bonificación por envío de ML for the day
   flex_shipping_cost: number; // Total external flex shipping cost for the day
   total_fees: number;
+  refunded_amount: number;
   net_profit: number;
   average_order_value: number;
   average_profit_margin: number;
 }
 
+/**
+ * Orders from one buyer's cart (same pack_id) shipped together
+ * Shipping cost is counted once for the whole pack
+ */
+export class PackSummaryDto {
+  pack_id: number;
+  order_ids: number[];
+  logistic_type: string;
+  logistic_type_label: string;
+  total_items: number;
+  gross_amount: number;
+  shipping_cost: number;
+  courier_cost: number;
+  shipping_bonus: number;
+  flex_shipping_cost: number;
+  total_fees: number;
+  net_profit: number;
+  buyer?: OrderSummaryDto['buyer'];
+}
+
 /**
  * Logistic type breakdown in response
  */
@@ -137,6 +165,12 @@ export class LogisticTypeBreakdownDto {
 
   @Type(() => LogisticTypeSummaryDto)
   other: LogisticTypeSummaryDto;
+
+  @Type(() => LogisticTypeSummaryDto)
+  falabella: LogisticTypeSummaryDto; // Falabella orders, whatever their shipping
+
+  @Type(() => LogisticTypeSummaryDto)
+  manual: LogisticTypeSummaryDto; // Direct sales (POST /sales/manual)
 }
 
 /**
@@ -151,6 +185,12 @@ export class OrdersByLogisticTypeDto {
 
   @Type(() => OrderSummaryDto)
   other: OrderSummaryDto[];
+
+  @Type(() => OrderSummaryDto)
+  falabella: OrderSummaryDto[];
+
+  @Type(() => OrderSummaryDto)
+  manual: OrderSummaryDto[];
 }
 
 /**
@@ -168,6 +208,9 @@ export class DailySalesResponseDto {
 
   @Type(() => OrdersByLogisticTypeDto)
   orders: OrdersByLogisticTypeDto;
+
+  @Type(() => PackSummaryDto)
+  packs: PackSummaryDto[];
 }
 
 /**
@@ -182,17 +225,23 @@ export class SyncOrdersQueryDto {
   })
   date: string;
 
+  @IsOptional()
   @IsNumberString({}, { message: 'seller_id debe ser un número válido' })
-  @IsNotEmpty({ message: 'El seller_id es obligatorio' })
-  seller_id: string;
+  seller_id?: string; // Required by Mercado Libre
+
+  @IsOptional()
+  @IsNumberString({}, { message: 'platform_id debe ser un número válido' })
+  platform_id?: string; // Defaults to Mercado Libre
 }
 
 /**
  * Response DTO for sync orders endpoint
  */
 export class SyncOrdersResponseDto {
+  platform_id: number;
   synced: number;
+  errors: number;
   message: string;
   date: string;
-  seller_id: number;
+  seller_id: number | null;
 }
@@ -0,0 +1,87 @@
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  IsPositive,
+  IsEnum,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  OrderClaimType,
+  RestockStatus,
+  ReturnCondition,
+} from '../entities/order-claim.entity';
+
+/**
+ * Query DTO for listing returns, claims and refunds
+ * Applies: security-validate-all-input
+ */
+export class GetReturnsQueryDto {
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'seller_id debe ser un número válido' })
+  @IsPositive({ message: 'seller_id debe ser un número válido' })
+  seller_id?: number;
+
+  @IsOptional()
+  @IsEnum(OrderClaimType, {
+    message: 'type debe ser refund, claim o return',
+  })
+  type?: OrderClaimType;
+
+  @IsOptional()
+  @IsEnum(RestockStatus, {
+    message:
+      'restock_status debe ser pending, restocked, written_off o not_applicable',
+  })
+  restock_status?: RestockStatus;
+}
+
+/**
+ * Item of the order a claim belongs to
+ */
+export class OrderReturnItemDto {
+  item_id: string;
+  title: string;
+  quantity: number;
+  seller_sku: string;
+}
+
+/**
+ * Response DTO for a refund, claim or return
+ */
+export class OrderReturnDto {
+  id: number;
+  order_id: number;
+  type: OrderClaimType;
+  ml_claim_id: number | null;
+  payment_id: number | null;
+  status: string;
+  stage: string | null;
+  reason_id: string | null;
+  reason: string | null;
+  refunded_amount: number;
+  restock_status: RestockStatus;
+  return_condition: ReturnCondition | null;
+  received_at: Date | null;
+  order_status: string | null;
+  order_total: number;
+  items: OrderReturnItemDto[];
+  created_at: Date;
+  updated_at: Date;
+}
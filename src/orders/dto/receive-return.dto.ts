@@ -0,0 +1,66 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RestockStatus, ReturnCondition } from '../entities/order-claim.entity';
+
+/**
+ * Body DTO for receiving a returned item back in the warehouse
+ * Applies: security-validate-all-input
+ */
+export class ReceiveReturnDto {
+  @IsEnum(ReturnCondition, { message: 'condition debe ser good o damaged' })
+  condition: ReturnCondition;
+
+  // Only receive this order item (defaults to every item in the order)
+  @IsOptional()
+  @IsString()
+  item_id?: string;
+
+  // Units received (defaults to the quantity sold)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'quantity debe ser un número entero' })
+  @IsPositive({ message: 'quantity debe ser mayor a 0' })
+  quantity?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  received_by?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * Stock movement applied for one returned order item
+ */
+export class ReceivedReturnItemDto {
+  item_id: string;
+  seller_sku: string;
+  product_id: number;
+  internal_sku: string;
+  units: number; // Product units (pack quantity * units received)
+  action: 'restocked' | 'written_off';
+  stock_after: number;
+}
+
+/**
+ * Response DTO after receiving a return
+ */
+export class ReceiveReturnResponseDto {
+  claim_id: number;
+  order_id: number;
+  condition: ReturnCondition;
+  restock_status: RestockStatus;
+  received_at: Date;
+  received_by: string;
+  items: ReceivedReturnItemDto[];
+}
@@ -0,0 +1,86 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumberString,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  DailySalesSummaryDto,
+  LogisticTypeBreakdownDto,
+} from './daily-sales.dto';
+
+/**
+ * Enum for sales report bucket sizes
+ */
+export enum SalesReportGranularityEnum {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+/**
+ * Query DTO for sales report endpoint
+ * Applies: security-validate-all-input
+ */
+export class GetSalesReportQueryDto {
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de inicio es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  from: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de término es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  to: string;
+
+  @IsOptional()
+  @IsEnum(SalesReportGranularityEnum, {
+    message: 'granularity debe ser: day, week, o month',
+  })
+  granularity?: SalesReportGranularityEnum;
+
+  @IsNumberString({}, { message: 'seller_id debe ser un número válido' })
+  @IsNotEmpty({ message: 'El seller_id es obligatorio' })
+  seller_id: string;
+}
+
+/**
+ * Totals for a single bucket (day, week or month) of the report
+ */
+export class SalesReportBucketDto {
+  period: string; // YYYY-MM-DD (day), Monday YYYY-MM-DD (week) or YYYY-MM (month)
+  from: string;
+  to: string;
+
+  @Type(() => DailySalesSummaryDto)
+  summary: DailySalesSummaryDto;
+
+  @Type(() => LogisticTypeBreakdownDto)
+  by_logistic_type: LogisticTypeBreakdownDto;
+}
+
+/**
+ * Complete response DTO for sales report endpoint
+ */
+export class SalesReportResponseDto {
+  from: string;
+  to: string;
+  granularity: SalesReportGranularityEnum;
+  seller_id: number;
+
+  @Type(() => DailySalesSummaryDto)
+  summary: DailySalesSummaryDto;
+
+  @Type(() => LogisticTypeBreakdownDto)
+  by_logistic_type: LogisticTypeBreakdownDto;
+
+  @Type(() => SalesReportBucketDto)
+  buckets: SalesReportBucketDto[];
+}
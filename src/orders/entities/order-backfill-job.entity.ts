@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export enum BackfillJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface BackfillFailure {
+  date: string;
+  offset: number;
+  order_id?: number;
+  error: string;
+}
+
+@Entity('order_backfill_jobs')
+export class OrderBackfillJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'bigint' })
+  seller_id: number;
+
+  @Column({ length: 10 })
+  date_from: string; // Format: YYYY-MM-DD
+
+  @Column({ length: 10 })
+  date_to: string; // Format: YYYY-MM-DD
+
+  @Column({ length: 10 })
+  cursor_date: string; // Next day to sync (resume point)
+
+  @Column({ type: 'int', default: 0 })
+  cursor_offset: number; // Next ML search offset within cursor_date
+
+  @Column({
+    type: 'enum',
+    enum: BackfillJobStatus,
+    default: BackfillJobStatus.PENDING,
+  })
+  status: BackfillJobStatus;
+
+  @Column({ type: 'int', default: 0 })
+  days_done: number;
+
+  @Column({ type: 'int', default: 0 })
+  orders_saved: number;
+
+  @Column({ type: 'int', default: 0 })
+  orders_failed: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  failures: BackfillFailure[];
+
+  @Column({ type: 'text', nullable: true })
+  last_error: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finished_at: Date;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
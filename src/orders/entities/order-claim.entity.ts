@@ -0,0 +1,90 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export enum OrderClaimType {
+  REFUND = 'refund', // Money returned on a payment (transaction_amount_refunded)
+  CLAIM = 'claim', // ML claim/mediation without a product return
+  RETURN = 'return', // ML claim where the buyer sends the item back
+}
+
+export enum RestockStatus {
+  PENDING = 'pending', // Item expected back, not received yet
+  RESTOCKED = 'restocked',
+  WRITTEN_OFF = 'written_off',
+  NOT_APPLICABLE = 'not_applicable', // Nothing comes back (refund/claim only)
+}
+
+export enum ReturnCondition {
+  GOOD = 'good', // Back to sellable stock
+  DAMAGED = 'damaged', // Written off
+}
+
+@Entity('order_claims')
+export class OrderClaim {
+  @PrimaryGeneratedColumn()
+  claim_id: number;
+
+  @Column({ type: 'bigint' })
+  order_id: number;
+
+  @Column({ type: 'enum', enum: OrderClaimType })
+  type: OrderClaimType;
+
+  @Column({ type: 'bigint', nullable: true })
+  ml_claim_id: number; // Claim ID in ML (claims and returns)
+
+  @Column({ type: 'bigint', nullable: true })
+  payment_id: number; // Refunded payment (refunds)
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  status: string; // ML status: opened, closed, refunded, etc.
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  stage: string; // ML claim stage: claim, dispute, recontact, etc.
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  reason_id: string;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  refunded_amount: number;
+
+  @Column({
+    type: 'enum',
+    enum: RestockStatus,
+    default: RestockStatus.NOT_APPLICABLE,
+  })
+  restock_status: RestockStatus;
+
+  @Column({ type: 'enum', enum: ReturnCondition, nullable: true })
+  return_condition: ReturnCondition; // Condition of the item when received
+
+  @Column({ type: 'timestamp', nullable: true })
+  received_at: Date;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  received_by: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  raw_data: any;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Order, (order) => order.claims, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+}
@@ -2,6 +2,7 @@ import { Entity, Column, ManyToOne, OneToMany, PrimaryColumn } from 'typeorm';
 import { User } from './user.entity';
 import { OrderItem } from './order-item.entity';
 import { Payment } from './payment.entity';
+import { OrderClaim } from './order-claim.entity';
 
 @Entity()
 export class Order {
@@ -44,6 +45,9 @@ export class Order {
   @OneToMany(() => Payment, (payment) => payment.order)  // Relación con Payment
   payments: Payment[];
 
+  @OneToMany(() => OrderClaim, (claim) => claim.order) // Reembolsos, reclamos y devoluciones
+  claims: OrderClaim[];
+
   // Agregar el campo fulfilled
   @Column({ type: 'boolean', default: false })
   fulfilled: boolean;
@@ -60,4 +64,16 @@ export class Order {
 
   @Column({ type: 'bigint', nullable: true })
   pack_id: number;
+
+  @Column({ nullable: true })
+  delivery_status: string; // Estado del envío en ML: ready_to_ship, shipped, delivered, not_delivered, cancelled
+
+  @Column({ nullable: true })
+  delivery_substatus: string; // Subestado del envío (ej: returning_to_sender)
+
+  @Column({ default: 1 })
+  platform_id: number; // 1 = Mercado Libre, 2 = Falabella, 3 = Venta directa
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  platform_order_id: string; // ID de la orden en su plataforma (id es interno si no es ML)
 }
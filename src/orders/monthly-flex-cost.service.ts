@@ -60,14 +60,17 @@ export class MonthlyFlexCostService {
   /**
    * Count Flex orders for a specific month
    * Flex orders have logistic_type: cross_docking, xd_drop_off, or self_service
+   *
+   * Orders in the same pack (pack_id) are one shipment, so they count once
    */
   async countFlexOrders(yearMonth: string, sellerId: number): Promise<number> {
     const [year, month] = yearMonth.split('-').map(Number);
     const startDate = new Date(year, month - 1, 1, 0, 0, 0);
     const endDate = new Date(year, month, 0, 23, 59, 59); // Last day of month
 
-    const count = await this.orderRepository
+    const result = await this.orderRepository
       .createQueryBuilder('order')
+      .select('COUNT(DISTINCT COALESCE(order.pack_id, order.id))', 'count')
       .where('order.seller_id = :sellerId', { sellerId })
       .andWhere('order.date_approved BETWEEN :startDate AND :endDate', {
         startDate,
@@ -76,9 +79,9 @@ export class MonthlyFlexCostService {
       .andWhere('order.logistic_type IN (:...types)', {
         types: ['cross_docking', 'xd_drop_off', 'self_service'],
       })
-      .getCount();
+      .getRawOne();
 
-    return count;
+    return Number(result?.count) || 0;
   }
 
   /**
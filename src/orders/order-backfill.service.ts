@@ -0,0 +1,269 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  OrderBackfillJob,
+  BackfillJobStatus,
+} from './entities/order-backfill-job.entity';
+import { BackfillJobStatusDto, StartBackfillDto } from './dto/backfill.dto';
+import { OrderService } from './order.service';
+import {
+  MercadoLibreService,
+  ML_ORDERS_PAGE_SIZE,
+} from '../mercadolibre/mercadolibre.service';
+
+/**
+ * Keep only the most recent failures so the job row stays small
+ */
+const MAX_STORED_FAILURES = 200;
+
+/**
+ * Order Backfill Service
+ * Syncs a whole date range from Mercado Libre, page by page
+ *
+ * The cursor (day + offset) is saved after every page, so a job interrupted
+ * by a crash or restart continues from the last page instead of day one.
+ *
+ * Applies:
+ * - error-handle-async-errors: Per-order failures are recorded, not thrown
+ * - arch-single-responsibility: Orchestration only, saving is in OrderService
+ */
+@Injectable()
+export class OrderBackfillService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(OrderBackfillService.name);
+
+  // Jobs being processed by this instance (avoids running one job twice)
+  private readonly runningJobs = new Set<string>();
+
+  constructor(
+    @InjectRepository(OrderBackfillJob)
+    private readonly jobRepository: Repository<OrderBackfillJob>,
+    private readonly orderService: OrderService,
+    private readonly mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  /**
+   * Resume jobs that were running when the application stopped
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const interrupted = await this.jobRepository.find({
+      where: { status: BackfillJobStatus.RUNNING },
+    });
+
+    for (const job of interrupted) {
+      this.logger.log(
+        `Resuming backfill ${job.id} for seller ${job.seller_id} at ${job.cursor_date} (offset ${job.cursor_offset})`,
+      );
+      this.launch(job.id);
+    }
+  }
+
+  /**
+   * Start a backfill, or resume the unfinished one for the same seller and range
+   */
+  async start(dto: StartBackfillDto): Promise<BackfillJobStatusDto> {
+    if (dto.from > dto.to) {
+      throw new BadRequestException(
+        'La fecha de inicio debe ser anterior o igual a la fecha de término',
+      );
+    }
+
+    // Same seller and range: resume from the saved cursor
+    const unfinished = await this.jobRepository.findOne({
+      where: {
+        seller_id: dto.seller_id,
+        date_from: dto.from,
+        date_to: dto.to,
+        status: In([
+          BackfillJobStatus.PENDING,
+          BackfillJobStatus.RUNNING,
+          BackfillJobStatus.FAILED,
+        ]),
+      },
+      order: { created_at: 'DESC' },
+    });
+
+    let job: OrderBackfillJob;
+
+    if (unfinished) {
+      unfinished.status = BackfillJobStatus.RUNNING;
+      unfinished.last_error = null;
+      job = await this.jobRepository.save(unfinished);
+    } else {
+      const active = await this.jobRepository.findOne({
+        where: {
+          seller_id: dto.seller_id,
+          status: In([BackfillJobStatus.PENDING, BackfillJobStatus.RUNNING]),
+        },
+      });
+
+      if (active) {
+        throw new ConflictException(
+          `El vendedor ${dto.seller_id} ya tiene un backfill en curso (${active.date_from} a ${active.date_to}, job ${active.id})`,
+        );
+      }
+
+      job = await this.jobRepository.save(
+        this.jobRepository.create({
+          seller_id: dto.seller_id,
+          date_from: dto.from,
+          date_to: dto.to,
+          cursor_date: dto.from,
+          cursor_offset: 0,
+          status: BackfillJobStatus.RUNNING,
+          failures: [],
+        }),
+      );
+    }
+
+    this.launch(job.id);
+
+    return this.toStatus(job);
+  }
+
+  /**
+   * Get the progress of a backfill job
+   */
+  async getStatus(jobId: string): Promise<BackfillJobStatusDto> {
+    const job = await this.jobRepository.findOne({ where: { id: jobId } });
+
+    if (!job) {
+      throw new NotFoundException(`Backfill ${jobId} no encontrado`);
+    }
+
+    return this.toStatus(job);
+  }
+
+  /**
+   * Run a job in the background (the HTTP request does not wait for it)
+   */
+  private launch(jobId: string): void {
+    if (this.runningJobs.has(jobId)) {
+      return;
+    }
+
+    this.runningJobs.add(jobId);
+    this.run(jobId)
+      .catch((error) =>
+        this.logger.error(`Backfill ${jobId} crashed: ${error.message}`),
+      )
+      .finally(() => this.runningJobs.delete(jobId));
+  }
+
+  /**
+   * Walk the range day by day and page by page, saving the cursor as it goes
+   */
+  private async run(jobId: string): Promise<void> {
+    const job = await this.jobRepository.findOne({ where: { id: jobId } });
+
+    while (job.cursor_date <= job.date_to) {
+      let page: any;
+
+      try {
+        page = await this.mercadoLibreService.getOrdersByDate(
+          job.cursor_date,
+          job.seller_id,
+          job.cursor_offset,
+          ML_ORDERS_PAGE_SIZE,
+        );
+      } catch (error) {
+        // Session/token problems affect every remaining page: stop and let
+        // the user resume once the session is fixed
+        this.logger.error(
+          `Backfill ${job.id} stopped at ${job.cursor_date} (offset ${job.cursor_offset}): ${error.message}`,
+        );
+        job.status = BackfillJobStatus.FAILED;
+        job.last_error = error.message;
+        await this.jobRepository.save(job);
+        return;
+      }
+
+      const orders = page?.results || [];
+
+      for (const mlOrder of orders) {
+        try {
+          await this.orderService.saveOrderFromMercadoLibre(
+            mlOrder,
+            job.seller_id,
+          );
+          job.orders_saved++;
+        } catch (error) {
+          this.logger.warn(
+            `Backfill ${job.id}: failed to save order ${mlOrder.id}: ${error.message}`,
+          );
+          job.orders_failed++;
+          job.failures = [
+            ...job.failures,
+            {
+              date: job.cursor_date,
+              offset: job.cursor_offset,
+              order_id: mlOrder.id,
+              error: error.message,
+            },
+          ].slice(-MAX_STORED_FAILURES);
+        }
+      }
+
+      // Advance the cursor: next page of the same day, or first page of next day
+      const total = Number(page?.paging?.total) || 0;
+      const nextOffset = job.cursor_offset + ML_ORDERS_PAGE_SIZE;
+
+      if (orders.length > 0 && nextOffset < total) {
+        job.cursor_offset = nextOffset;
+      } else {
+        job.cursor_date = this.nextDay(job.cursor_date);
+        job.cursor_offset = 0;
+        job.days_done++;
+      }
+
+      await this.jobRepository.save(job);
+    }
+
+    job.status = BackfillJobStatus.COMPLETED;
+    job.finished_at = new Date();
+    await this.jobRepository.save(job);
+
+    this.logger.log(
+      `Backfill ${job.id} completed: ${job.orders_saved} orders saved, ${job.orders_failed} failed`,
+    );
+  }
+
+  private nextDay(date: string): string {
+    const next = new Date(`${date}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().substring(0, 10);
+  }
+
+  private toStatus(job: OrderBackfillJob): BackfillJobStatusDto {
+    const from = new Date(`${job.date_from}T00:00:00.000Z`).getTime();
+    const to = new Date(`${job.date_to}T00:00:00.000Z`).getTime();
+
+    return {
+      job_id: job.id,
+      seller_id: Number(job.seller_id),
+      from: job.date_from,
+      to: job.date_to,
+      status: job.status,
+      cursor: {
+        date: job.cursor_date,
+        offset: job.cursor_offset,
+      },
+      days_total: Math.round((to - from) / 86400000) + 1,
+      days_done: job.days_done,
+      orders_saved: job.orders_saved,
+      orders_failed: job.orders_failed,
+      failures: job.failures || [],
+      last_error: job.last_error || null,
+      created_at: job.created_at,
+      updated_at: job.updated_at,
+      finished_at: job.finished_at || null,
+    };
+  }
+}
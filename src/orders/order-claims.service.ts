@@ -0,0 +1,240 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  OrderClaim,
+  OrderClaimType,
+  RestockStatus,
+} from './entities/order-claim.entity';
+import { GetReturnsQueryDto, OrderReturnDto } from './dto/order-returns.dto';
+import { OrderReturnsService } from './order-returns.service';
+import { MercadoLibreService } from '../mercadolibre/mercadolibre.service';
+
+/**
+ * ML claim types where the buyer ships the item back to the seller
+ */
+const RETURN_CLAIM_TYPES = ['returns', 'return'];
+
+/**
+ * Order Claims Service
+ * Tracks refunds, claims (mediations) and returns per order
+ *
+ * Refund rows carry the money (one per refunded payment); claim/return rows
+ * carry the reason and, for returns, whether the item came back to stock.
+ *
+ * Applies:
+ * - arch-single-responsibility: Shared by order sync and ML notifications
+ * - error-handle-async-errors: ML claim lookup failures don't break order sync
+ */
+@Injectable()
+export class OrderClaimsService {
+  private readonly logger = new Logger(OrderClaimsService.name);
+
+  // Claim reason descriptions rarely change, avoid one request per claim
+  private readonly reasonCache = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(OrderClaim)
+    private readonly claimRepository: Repository<OrderClaim>,
+    private readonly mercadoLibreService: MercadoLibreService,
+    private readonly orderReturnsService: OrderReturnsService,
+  ) {}
+
+  /**
+   * Sync refunds and claims for an ML order
+   *
+   * Claims are only looked up in ML when the order has mediations or a
+   * refunded payment, so regular orders don't cost an extra request.
+   *
+   * @param orderId - ML order ID
+   * @param sellerId - Seller whose session is used for the claims API
+   * @param payments - ML payments (with transaction_amount_refunded)
+   * @param mediations - ML order mediations ([{ id }])
+   */
+  async syncFromMercadoLibre(
+    orderId: number,
+    sellerId: number,
+    payments: any[] = [],
+    mediations: any[] = [],
+  ): Promise<void> {
+    const refundedPayments = payments.filter(
+      (p) => Number(p.transaction_amount_refunded) > 0,
+    );
+
+    for (const payment of refundedPayments) {
+      await this.upsertRefund(orderId, payment);
+    }
+
+    if (refundedPayments.length === 0 && mediations.length === 0) {
+      return;
+    }
+
+    const claims = await this.mercadoLibreService.getOrderClaims(
+      orderId,
+      sellerId,
+    );
+
+    for (const claim of claims) {
+      await this.upsertClaim(orderId, sellerId, claim);
+    }
+  }
+
+  /**
+   * List returns, claims and refunds with their reason and restock status
+   */
+  async findReturns(query: GetReturnsQueryDto): Promise<OrderReturnDto[]> {
+    const qb = this.claimRepository
+      .createQueryBuilder('claim')
+      .leftJoinAndSelect('claim.order', 'order')
+      .leftJoinAndSelect('order.items', 'items')
+      .leftJoin('order.seller', 'seller')
+      .orderBy('claim.created_at', 'DESC');
+
+    if (query.type) {
+      qb.andWhere('claim.type = :type', { type: query.type });
+    }
+
+    if (query.restock_status) {
+      qb.andWhere('claim.restock_status = :restockStatus', {
+        restockStatus: query.restock_status,
+      });
+    }
+
+    if (query.seller_id) {
+      qb.andWhere('seller.id = :sellerId', { sellerId: query.seller_id });
+    }
+
+    if (query.from) {
+      qb.andWhere('claim.created_at >= :from', {
+        from: new Date(`${query.from}T00:00:00.000-04:00`),
+      });
+    }
+
+    if (query.to) {
+      qb.andWhere('claim.created_at <= :to', {
+        to: new Date(`${query.to}T23:59:59.999-04:00`),
+      });
+    }
+
+    const claims = await qb.getMany();
+
+    return claims.map((claim) => ({
+      id: claim.claim_id,
+      order_id: Number(claim.order_id),
+      type: claim.type,
+      ml_claim_id: claim.ml_claim_id ? Number(claim.ml_claim_id) : null,
+      payment_id: claim.payment_id ? Number(claim.payment_id) : null,
+      status: claim.status,
+      stage: claim.stage || null,
+      reason_id: claim.reason_id || null,
+      reason: claim.reason || null,
+      refunded_amount: Number(claim.refunded_amount) || 0,
+      restock_status: claim.restock_status,
+      return_condition: claim.return_condition || null,
+      received_at: claim.received_at || null,
+      order_status: claim.order?.status || null,
+      order_total: Number(claim.order?.total_amount) || 0,
+      items:
+        claim.order?.items?.map((item) => ({
+          item_id: item.item_id,
+          title: item.title,
+          quantity: item.quantity,
+          seller_sku: item.seller_sku || '',
+        })) || [],
+      created_at: claim.created_at,
+      updated_at: claim.updated_at,
+    }));
+  }
+
+  /**
+   * One refund row per payment, updated as ML refunds more of it
+   */
+  private async upsertRefund(orderId: number, payment: any): Promise<void> {
+    const existing = await this.claimRepository.findOne({
+      where: { type: OrderClaimType.REFUND, payment_id: payment.id },
+    });
+
+    const refund = existing || this.claimRepository.create();
+    refund.order_id = orderId;
+    refund.type = OrderClaimType.REFUND;
+    refund.payment_id = payment.id;
+    refund.status = payment.status || null;
+    refund.reason = payment.status_detail || null;
+    refund.refunded_amount = Number(payment.transaction_amount_refunded) || 0;
+    refund.restock_status = RestockStatus.NOT_APPLICABLE;
+
+    await this.claimRepository.save(refund);
+  }
+
+  /**
+   * Save an ML claim for an order (from order sync or the claims topic)
+   * Claim rows keep their restock status across syncs (set on reception)
+   */
+  async upsertClaim(
+    orderId: number,
+    sellerId: number,
+    claim: any,
+  ): Promise<void> {
+    const isReturn =
+      RETURN_CLAIM_TYPES.includes(claim.type) ||
+      (claim.related_entities || []).includes('return');
+
+    const existing = await this.claimRepository.findOne({
+      where: { ml_claim_id: claim.id },
+    });
+
+    const entity = existing || this.claimRepository.create();
+    entity.order_id = orderId;
+    entity.ml_claim_id = claim.id;
+    entity.type = isReturn ? OrderClaimType.RETURN : OrderClaimType.CLAIM;
+    entity.status = claim.status || null;
+    entity.stage = claim.stage || null;
+    entity.reason_id = claim.reason_id || null;
+    entity.reason = claim.reason_id
+      ? await this.getReasonDescription(claim.reason_id, sellerId)
+      : null;
+    entity.raw_data = claim;
+
+    if (!existing) {
+      entity.restock_status = isReturn
+        ? RestockStatus.PENDING
+        : RestockStatus.NOT_APPLICABLE;
+    } else if (
+      isReturn &&
+      existing.restock_status === RestockStatus.NOT_APPLICABLE
+    ) {
+      // A claim that turned into a return: the item is now expected back
+      entity.restock_status = RestockStatus.PENDING;
+    }
+
+    const saved = await this.claimRepository.save(entity);
+
+    this.logger.debug(
+      `[Claims] Order ${orderId}: ${entity.type} ${claim.id} (${entity.status}, ${entity.reason_id})`,
+    );
+
+    // Returns that ML already delivered back go straight to stock
+    await this.orderReturnsService.receiveIfCompleted(saved, sellerId);
+  }
+
+  private async getReasonDescription(
+    reasonId: string,
+    sellerId: number,
+  ): Promise<string | null> {
+    if (!this.reasonCache.has(reasonId)) {
+      const reason = await this.mercadoLibreService.getClaimReason(
+        reasonId,
+        sellerId,
+      );
+      if (!reason) {
+        return null;
+      }
+      this.reasonCache.set(
+        reasonId,
+        reason.detail || reason.name || reason.description || reasonId,
+      );
+    }
+
+    return this.reasonCache.get(reasonId);
+  }
+}
@@ -0,0 +1,291 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  OrderClaim,
+  OrderClaimType,
+  RestockStatus,
+  ReturnCondition,
+} from './entities/order-claim.entity';
+import { OrderItem } from './entities/order-item.entity';
+import {
+  ReceiveReturnDto,
+  ReceiveReturnResponseDto,
+  ReceivedReturnItemDto,
+} from './dto/receive-return.dto';
+import { InventoryService } from '../products/services/inventory.service';
+import { MercadoLibreService } from '../mercadolibre/mercadolibre.service';
+import { Product } from '../products/entities/product.entity';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../products/platforms/platform.constants';
+
+/**
+ * ML return statuses meaning the item reached the seller
+ */
+const COMPLETED_RETURN_STATUSES = ['delivered'];
+
+/**
+ * Order item resolved to the product whose stock it moves
+ */
+interface ReturnLine {
+  item: OrderItem;
+  product: Product;
+  units: number;
+}
+
+/**
+ * Order Returns Service
+ * Brings returned items back into inventory
+ *
+ * Good units are restored through InventoryService.restoreStock; damaged
+ * units don't touch stock and are logged as a write-off in ProductHistory.
+ *
+ * Applies:
+ * - arch-single-responsibility: Stock changes go through InventoryService
+ * - error-handle-async-errors: Automatic reception never breaks claim sync
+ */
+@Injectable()
+export class OrderReturnsService {
+  private readonly logger = new Logger(OrderReturnsService.name);
+
+  constructor(
+    @InjectRepository(OrderClaim)
+    private readonly claimRepository: Repository<OrderClaim>,
+    private readonly inventoryService: InventoryService,
+    private readonly mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  /**
+   * Receive a pending return (manual or automatic)
+   */
+  async receive(
+    claimId: number,
+    dto: ReceiveReturnDto,
+  ): Promise<ReceiveReturnResponseDto> {
+    const claim = await this.claimRepository.findOne({
+      where: { claim_id: claimId },
+      relations: ['order', 'order.items'],
+    });
+
+    if (!claim) {
+      throw new NotFoundException(`Devolución ${claimId} no encontrada`);
+    }
+
+    if (claim.type !== OrderClaimType.RETURN) {
+      throw new BadRequestException(
+        `El registro ${claimId} es de tipo ${claim.type}, no una devolución`,
+      );
+    }
+
+    if (claim.restock_status !== RestockStatus.PENDING) {
+      throw new ConflictException(
+        `La devolución ${claimId} ya fue procesada (${claim.restock_status})`,
+      );
+    }
+
+    if (claim.order?.logistic_type === 'fulfillment') {
+      throw new BadRequestException(
+        'Las devoluciones de órdenes Full vuelven a la bodega de Mercado Libre',
+      );
+    }
+
+    const lines = await this.resolveLines(claim, dto);
+    const receivedBy = dto.received_by || 'Sistema';
+    const items: ReceivedReturnItemDto[] = [];
+
+    for (const line of lines) {
+      const metadata = {
+        platform_id: MERCADO_LIBRE_PLATFORM_ID,
+        platform_order_id: String(claim.order_id),
+        changed_by: receivedBy,
+        metadata: {
+          claim_id: claim.claim_id,
+          ml_claim_id: claim.ml_claim_id ? Number(claim.ml_claim_id) : null,
+          item_id: line.item.item_id,
+          condition: dto.condition,
+          notes: dto.notes || null,
+        },
+      };
+
+      let stockAfter = line.product.stock;
+
+      if (dto.condition === ReturnCondition.GOOD) {
+        const product = await this.inventoryService.restoreStock(
+          line.product.product_id,
+          line.units,
+          {
+            ...metadata,
+            change_type: 'return',
+            change_reason: `Devolución recibida en buen estado (orden ${claim.order_id})`,
+          },
+        );
+        stockAfter = product.stock;
+      } else {
+        // Stock was already deducted on the sale: only record the loss
+        await this.inventoryService.recordChange(
+          line.product.product_id,
+          'stock',
+          line.product.stock.toString(),
+          line.product.stock.toString(),
+          0,
+          {
+            ...metadata,
+            change_type: 'write_off',
+            change_reason: `Devolución dañada dada de baja: ${line.units} unidad(es) (orden ${claim.order_id})`,
+            metadata: { ...metadata.metadata, written_off_units: line.units },
+          },
+        );
+      }
+
+      items.push({
+        item_id: line.item.item_id,
+        seller_sku: line.item.seller_sku || '',
+        product_id: line.product.product_id,
+        internal_sku: line.product.internal_sku,
+        units: line.units,
+        action:
+          dto.condition === ReturnCondition.GOOD ? 'restocked' : 'written_off',
+        stock_after: stockAfter,
+      });
+    }
+
+    claim.restock_status =
+      dto.condition === ReturnCondition.GOOD
+        ? RestockStatus.RESTOCKED
+        : RestockStatus.WRITTEN_OFF;
+    claim.return_condition = dto.condition;
+    claim.received_at = new Date();
+    claim.received_by = receivedBy;
+    await this.claimRepository.save(claim);
+
+    this.logger.log(
+      `[Returns] Claim ${claim.claim_id} (order ${claim.order_id}) received as ${dto.condition}`,
+    );
+
+    return {
+      claim_id: claim.claim_id,
+      order_id: Number(claim.order_id),
+      condition: claim.return_condition,
+      restock_status: claim.restock_status,
+      received_at: claim.received_at,
+      received_by: claim.received_by,
+      items,
+    };
+  }
+
+  /**
+   * Receive a pending return automatically once ML reports it delivered
+   * Items coming back through ML's return flow are assumed to be in good condition
+   */
+  async receiveIfCompleted(claim: OrderClaim, sellerId: number): Promise<void> {
+    if (
+      claim.type !== OrderClaimType.RETURN ||
+      claim.restock_status !== RestockStatus.PENDING ||
+      !claim.ml_claim_id
+    ) {
+      return;
+    }
+
+    try {
+      const mlReturn = await this.mercadoLibreService.getClaimReturn(
+        claim.ml_claim_id,
+        sellerId,
+      );
+
+      if (!COMPLETED_RETURN_STATUSES.includes(mlReturn?.status)) {
+        return;
+      }
+
+      await this.receive(claim.claim_id, {
+        condition: ReturnCondition.GOOD,
+        received_by: 'Sistema',
+        notes: `Devolución ${mlReturn.id ?? ''} entregada según Mercado Libre`,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `[Returns] Could not receive claim ${claim.claim_id} automatically: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Resolve the order items being received to products and units
+   * Resolves everything first so a missing SKU doesn't leave a partial restock
+   */
+  private async resolveLines(
+    claim: OrderClaim,
+    dto: ReceiveReturnDto,
+  ): Promise<ReturnLine[]> {
+    const orderItems = (claim.order?.items || []).filter(
+      (item) => !dto.item_id || item.item_id === dto.item_id,
+    );
+
+    if (orderItems.length === 0) {
+      throw new BadRequestException(
+        dto.item_id
+          ? `El ítem ${dto.item_id} no pertenece a la orden ${claim.order_id}`
+          : `La orden ${claim.order_id} no tiene ítems`,
+      );
+    }
+
+    if (dto.quantity && orderItems.length > 1) {
+      throw new BadRequestException(
+        'Indique item_id para recibir una cantidad parcial en órdenes con varios ítems',
+      );
+    }
+
+    const lines: ReturnLine[] = [];
+
+    for (const item of orderItems) {
+      const quantity = dto.quantity || item.quantity;
+
+      if (quantity > item.quantity) {
+        throw new BadRequestException(
+          `No se pueden recibir ${quantity} unidades del ítem ${item.item_id}, se vendieron ${item.quantity}`,
+        );
+      }
+
+      const product =
+        (item.seller_sku &&
+          (await this.inventoryService.findProductBySku(
+            MERCADO_LIBRE_PLATFORM_ID,
+            item.seller_sku,
+          ))) ||
+        (await this.inventoryService.findProductBySku(
+          MERCADO_LIBRE_PLATFORM_ID,
+          item.item_id,
+        ));
+
+      if (!product) {
+        throw new NotFoundException(
+          `No se encontró producto para el SKU ${item.seller_sku || item.item_id}`,
+        );
+      }
+
+      lines.push({
+        item,
+        product,
+        units: quantity * this.getUnitsPerItem(product, item.item_id),
+      });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Product units in one sold unit (packs sell several units per publication)
+   * 1 when the item is not one of the product's secondary SKUs (e.g. mapped)
+   */
+  private getUnitsPerItem(product: Product, itemId: string): number {
+    const secondary = product.secondarySkus?.find(
+      (s) => s.secondary_sku === itemId,
+    );
+
+    return secondary?.stock_quantity || 1;
+  }
+}
@@ -1,12 +1,18 @@
 import {
   Controller,
   Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
   Query,
   UsePipes,
   ValidationPipe,
   BadRequestException,
 } from '@nestjs/common';
 import { OrderService } from './order.service';
+import { OrderBackfillService } from './order-backfill.service';
+import { OrderClaimsService } from './order-claims.service';
 import { MercadoLibreService } from '../mercadolibre/mercadolibre.service';
 import { Order } from './entities/order.entity';
 import {
@@ -15,6 +21,20 @@ import {
   SyncOrdersQueryDto,
   SyncOrdersResponseDto,
 } from './dto/daily-sales.dto';
+import {
+  GetSalesReportQueryDto,
+  SalesReportGranularityEnum,
+  SalesReportResponseDto,
+} from './dto/sales-report.dto';
+import { BackfillJobStatusDto, StartBackfillDto } from './dto/backfill.dto';
+import { GetReturnsQueryDto, OrderReturnDto } from './dto/order-returns.dto';
+import { PlatformConnectorRegistry } from '../connectors/platform-connector.registry';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../products/platforms/platform.constants';
+
+/**
+ * Maximum number of days covered by a single sales report request
+ */
+const MAX_SALES_REPORT_DAYS = 366;
 
 /**
  * Orders Controller
@@ -25,6 +45,9 @@ export class OrderController {
   constructor(
     private readonly orderService: OrderService,
     private readonly mercadoLibreService: MercadoLibreService,
+    private readonly orderBackfillService: OrderBackfillService,
+    private readonly orderClaimsService: OrderClaimsService,
+    private readonly connectorRegistry: PlatformConnectorRegistry,
   ) {}
 
   /**
@@ -52,26 +75,116 @@ export class OrderController {
   }
 
   /**
-   * Sync orders from Mercado Libre API
-   * GET /orders/sync?date=YYYY-MM-DD&seller_id=123
+   * List refunds, claims and returns with reasons and restock status
+   * GET /orders/returns?from=YYYY-MM-DD&to=YYYY-MM-DD&seller_id=123&type=return&restock_status=pending
    *
-   * Fetches orders from ML API and saves them to the database
    * Applies: security-validate-all-input (using ValidationPipe + DTO)
    */
-  @Get('sync')
+  @Get('returns')
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
-  async syncOrders(
-    @Query() query: SyncOrdersQueryDto,
-  ): Promise<SyncOrdersResponseDto> {
+  async getReturns(
+    @Query() query: GetReturnsQueryDto,
+  ): Promise<OrderReturnDto[]> {
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException(
+        'La fecha de inicio debe ser anterior o igual a la fecha de término',
+      );
+    }
+
+    return this.orderClaimsService.findReturns(query);
+  }
+
+  /**
+   * Get sales report for a date range grouped by day, week or month
+   * GET /orders/sales-report?from=YYYY-MM-DD&to=YYYY-MM-DD&granularity=day|week|month&seller_id=123
+   *
+   * Applies: security-validate-all-input (using ValidationPipe + DTO)
+   */
+  @Get('sales-report')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async getSalesReport(
+    @Query() query: GetSalesReportQueryDto,
+  ): Promise<SalesReportResponseDto> {
     const sellerId = parseInt(query.seller_id, 10);
+    const fromDate = new Date(`${query.from}T00:00:00.000Z`);
+    const toDate = new Date(`${query.to}T00:00:00.000Z`);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new BadRequestException('Las fechas indicadas no son válidas');
+    }
+
+    if (fromDate > toDate) {
+      throw new BadRequestException(
+        'La fecha de inicio debe ser anterior o igual a la fecha de término',
+      );
+    }
 
-    if (!sellerId || sellerId <= 0) {
+    const days = (toDate.getTime() - fromDate.getTime()) / 86400000 + 1;
+    if (days > MAX_SALES_REPORT_DAYS) {
       throw new BadRequestException(
-        'Se requiere un seller_id válido. Por favor inicia sesión.',
+        `El rango no puede superar ${MAX_SALES_REPORT_DAYS} días`,
       );
     }
 
-    return this.orderService.syncFromMercadoLibre(query.date, sellerId);
+    return this.orderService.getSalesReport(
+      query.from,
+      query.to,
+      query.granularity || SalesReportGranularityEnum.DAY,
+      sellerId,
+    );
+  }
+
+  /**
+   * Sync orders of a day from a sales platform
+   * GET /orders/sync?date=YYYY-MM-DD&seller_id=123&platform_id=1
+   *
+   * Dispatched to the platform's connector (Mercado Libre by default,
+   * which requires seller_id)
+   * Applies: security-validate-all-input (using ValidationPipe + DTO)
+   */
+  @Get('sync')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async syncOrders(
+    @Query() query: SyncOrdersQueryDto,
+  ): Promise<SyncOrdersResponseDto> {
+    const sellerId = query.seller_id ? parseInt(query.seller_id, 10) : null;
+    const platformId = query.platform_id
+      ? parseInt(query.platform_id, 10)
+      : MERCADO_LIBRE_PLATFORM_ID;
+
+    const result = await this.connectorRegistry
+      .require(platformId)
+      .syncOrders({ date: query.date, account_id: sellerId ?? undefined });
+
+    return { ...result, date: query.date, seller_id: sellerId };
+  }
+
+  /**
+   * Start a historical backfill for a date range
+   * POST /orders/backfill
+   *
+   * Body: { seller_id: number, from: "YYYY-MM-DD", to: "YYYY-MM-DD" }
+   *
+   * Runs in the background; posting the same range again resumes an
+   * interrupted or failed job from its saved cursor
+   */
+  @Post('backfill')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async startBackfill(
+    @Body() body: StartBackfillDto,
+  ): Promise<BackfillJobStatusDto> {
+    return this.orderBackfillService.start(body);
+  }
+
+  /**
+   * Get backfill progress (days done, orders saved, failures)
+   * GET /orders/backfill/:jobId
+   */
+  @Get('backfill/:jobId')
+  async getBackfillStatus(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+  ): Promise<BackfillJobStatusDto> {
+    return this.orderBackfillService.getStatus(jobId);
   }
 
   /**
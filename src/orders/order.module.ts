@@ -5,21 +5,45 @@ import { Payment } from './entities/payment.entity';
 import { OrderItem } from './entities/order-item.entity';
 import { User } from './entities/user.entity';
 import { MonthlyFlexCost } from './entities/monthly-flex-cost.entity';
+import { OrderBackfillJob } from './entities/order-backfill-job.entity';
+import { OrderClaim } from './entities/order-claim.entity';
 import { OrderController } from './order.controller';
 import { OrderService } from './order.service';
 import { MonthlyFlexCostController } from './monthly-flex-cost.controller';
 import { MonthlyFlexCostService } from './monthly-flex-cost.service';
+import { OrderBackfillService } from './order-backfill.service';
+import { OrderClaimsService } from './order-claims.service';
+import { OrderReturnsService } from './order-returns.service';
+import { ReturnsController } from './returns.controller';
 import { MercadoLibreModule } from '../mercadolibre/mercadolibre.module';
 import { ProductsModule } from '../products/products.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ConnectorsModule } from '../connectors/connectors.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, Payment, OrderItem, User, MonthlyFlexCost]),
+    TypeOrmModule.forFeature([
+      Order,
+      Payment,
+      OrderItem,
+      User,
+      MonthlyFlexCost,
+      OrderBackfillJob,
+      OrderClaim,
+    ]),
     MercadoLibreModule,
     ProductsModule,
+    InventoryModule,
+    ConnectorsModule,
   ],
-  controllers: [OrderController, MonthlyFlexCostController],
-  providers: [OrderService, MonthlyFlexCostService],
-  exports: [OrderService, MonthlyFlexCostService],
+  controllers: [OrderController, MonthlyFlexCostController, ReturnsController],
+  providers: [
+    OrderService,
+    MonthlyFlexCostService,
+    OrderBackfillService,
+    OrderClaimsService,
+    OrderReturnsService,
+  ],
+  exports: [OrderService, MonthlyFlexCostService, OrderClaimsService],
 })
 export class OrderModule {}
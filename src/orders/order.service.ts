@@ -5,7 +5,7 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between } from 'typeorm';
+import { Repository, Between, Not } from 'typeorm';
 import { Order } from './entities/order.entity';
 import { User } from './entities/user.entity';
 import { OrderItem } from './entities/order-item.entity';
@@ -15,11 +15,29 @@ import {
   OrderSummaryDto,
   LogisticTypeSummaryDto,
   DailySalesSummaryDto,
+  LogisticTypeBreakdownDto,
+  OrdersByLogisticTypeDto,
+  PackSummaryDto,
   SyncOrdersResponseDto,
 } from './dto/daily-sales.dto';
+import {
+  SalesReportGranularityEnum,
+  SalesReportResponseDto,
+} from './dto/sales-report.dto';
 import { MercadoLibreService } from '../mercadolibre/mercadolibre.service';
 import { TaxService } from '../products/services/tax.service';
 import { MonthlyFlexCostService } from './monthly-flex-cost.service';
+import { OrderClaimsService } from './order-claims.service';
+import {
+  FALABELLA_PLATFORM_ID,
+  MANUAL_PLATFORM_ID,
+  MERCADO_LIBRE_PLATFORM_ID,
+} from '../products/platforms/platform.constants';
+
+/**
+ * MercadoLibre defines sales days using -04:00 (see findByDateRange)
+ */
+const ML_TIMEZONE_OFFSET = '-04:00';
 
 /**
  * Order Service
@@ -45,6 +63,7 @@ export class OrderService {
     private readonly mercadoLibreService: MercadoLibreService,
     private readonly taxService: TaxService,
     private readonly monthlyFlexCostService: MonthlyFlexCostService,
+    private readonly orderClaimsService: OrderClaimsService,
   ) {}
 
   /**
@@ -68,20 +87,47 @@ export class OrderService {
    * @param sellerId - Seller ID from Mercado Libre
    */
   async findByDate(date: string, sellerId: number): Promise<Order[]> {
+    return this.findByDateRange(date, date, sellerId);
+  }
+
+  /**
+   * Find orders approved between two dates (inclusive) for a specific seller
+   * Uses the same -04:00 day boundaries as findByDate
+   *
+   * @param from - First date in YYYY-MM-DD format
+   * @param to - Last date in YYYY-MM-DD format
+   * @param sellerId - Seller ID from Mercado Libre (omit for every seller)
+   *
+   * Orders from other platforms (Falabella, direct sales) have no ML
+   * seller and are always included
+   */
+  async findByDateRange(
+    from: string,
+    to: string,
+    sellerId?: number,
+  ): Promise<Order[]> {
     // MercadoLibre uses -04:00 timezone for defining days (not Chile's -03:00)
     // This affects which orders belong to which day for SII reporting
-    const startDate = new Date(`${date}T00:00:00.000-04:00`);
-    const endDate = new Date(`${date}T23:59:59.999-04:00`);
+    const startDate = new Date(`${from}T00:00:00.000${ML_TIMEZONE_OFFSET}`);
+    const endDate = new Date(`${to}T23:59:59.999${ML_TIMEZONE_OFFSET}`);
 
-    this.logger.debug(`Fetching orders for seller ${sellerId} on ${date} (ML timezone -04:00)`);
+    this.logger.debug(
+      `Fetching orders for seller ${sellerId} from ${from} to ${to} (ML timezone ${ML_TIMEZONE_OFFSET})`,
+    );
 
     // Single query with all relations - avoids N+1
+    const dateApproved = Between(startDate, endDate);
     const orders = await this.orderRepository.find({
-      where: {
-        seller: { id: sellerId },
-        date_approved: Between(startDate, endDate),
-      },
-      relations: ['buyer', 'items', 'payments'],
+      where: sellerId
+        ? [
+            { seller: { id: sellerId }, date_approved: dateApproved },
+            {
+              platform_id: Not(MERCADO_LIBRE_PLATFORM_ID),
+              date_approved: dateApproved,
+            },
+          ]
+        : { date_approved: dateApproved },
+      relations: ['buyer', 'seller', 'items', 'payments', 'claims'],
       order: { date_approved: 'DESC' },
     });
 
@@ -120,10 +166,222 @@ export class OrderService {
 
     // Map orders to DTOs once (avoid duplicate processing)
     // Pass flexCostPerOrder so Flex orders include the external shipping cost
-    const orderSummaries = orders.map((o) =>
-      this.mapToOrderSummary(o, flexCostPerOrder),
+    const orderSummaries = this.applyPackShipping(
+      orders.map((o) => this.mapToOrderSummary(o, flexCostPerOrder)),
+    );
+
+    const { orders: classified, by_logistic_type, summary, packs } =
+      this.buildLogisticTypeBreakdown(orderSummaries);
+
+    return {
+      date,
+      seller_id: sellerId,
+      summary,
+      by_logistic_type,
+      orders: classified,
+      packs,
+    };
+  }
+
+  /**
+   * Get a sales report for a date range grouped in day, week or month buckets
+   * Each bucket has the same totals as the daily sales summary, split by
+   * Full/Flex/Centro de Envío, plus a grand total for the whole range
+   *
+   * Weeks start on Monday; the first and last buckets are clipped to the range
+   */
+  async getSalesReport(
+    from: string,
+    to: string,
+    granularity: SalesReportGranularityEnum,
+    sellerId: number,
+  ): Promise<SalesReportResponseDto> {
+    const orderSummaries = await this.getOrderSummariesByDateRange(
+      from,
+      to,
+      sellerId,
     );
 
+    // Group summaries by bucket, keeping buckets with no sales in the output
+    const buckets = this.getReportBuckets(from, to, granularity);
+    const summariesByPeriod = new Map<string, OrderSummaryDto[]>(
+      buckets.map((b) => [b.period, []]),
+    );
+    for (const summary of orderSummaries) {
+      const period = this.getBucketPeriod(
+        this.toMlDate(summary.date_approved),
+        granularity,
+      );
+      summariesByPeriod.get(period)?.push(summary);
+    }
+
+    const total = this.buildLogisticTypeBreakdown(orderSummaries);
+
+    return {
+      from,
+      to,
+      granularity,
+      seller_id: sellerId,
+      summary: total.summary,
+      by_logistic_type: total.by_logistic_type,
+      buckets: buckets.map((bucket) => {
+        const { by_logistic_type, summary } = this.buildLogisticTypeBreakdown(
+          summariesByPeriod.get(bucket.period),
+        );
+        return { ...bucket, summary, by_logistic_type };
+      }),
+    };
+  }
+
+  /**
+   * Get order summaries (with fees and profit) for a date range
+   * Applies the external Flex cost registered for each seller and month
+   *
+   * @param sellerId - Optional; when omitted, orders of every seller are included
+   */
+  async getOrderSummariesByDateRange(
+    from: string,
+    to: string,
+    sellerId?: number,
+  ): Promise<OrderSummaryDto[]> {
+    const orders = await this.findByDateRange(from, to, sellerId);
+
+    this.logger.debug(`Found ${orders.length} orders between ${from} and ${to}`);
+
+    // Flex cost is registered per seller and month, so look each one up once
+    const flexCostCache = new Map<string, number>();
+    const summaries: OrderSummaryDto[] = [];
+
+    for (const order of orders) {
+      // Flex cost only applies to Mercado Libre orders
+      if (order.platform_id !== MERCADO_LIBRE_PLATFORM_ID) {
+        summaries.push(this.mapToOrderSummary(order));
+        continue;
+      }
+
+      const orderSellerId = Number(order.seller?.id ?? sellerId);
+      const yearMonth = this.toMlDate(order.date_approved).substring(0, 7);
+      const cacheKey = `${orderSellerId}:${yearMonth}`;
+
+      if (!flexCostCache.has(cacheKey)) {
+        flexCostCache.set(
+          cacheKey,
+          await this.monthlyFlexCostService.getCostPerOrder(
+            orderSellerId,
+            yearMonth,
+          ),
+        );
+      }
+
+      summaries.push(
+        this.mapToOrderSummary(order, flexCostCache.get(cacheKey)),
+      );
+    }
+
+    return this.applyPackShipping(summaries);
+  }
+
+  /**
+   * Count shipping costs once per pack
+   *
+   * Orders in the same cart (pack_id) travel in one shipment, but each order
+   * is synced with the pack's shipment costs. Only the first active order of
+   * the pack keeps shipping, courier, bonus and Flex cost; the rest are zeroed
+   * and their fees/profit recalculated.
+   */
+  private applyPackShipping(summaries: OrderSummaryDto[]): OrderSummaryDto[] {
+    const ownerByPack = new Map<number, number>();
+
+    for (const summary of [...summaries].sort((a, b) => a.id - b.id)) {
+      if (!summary.pack_id || summary.status === 'cancelled') continue;
+      if (!ownerByPack.has(summary.pack_id)) {
+        ownerByPack.set(summary.pack_id, summary.id);
+      }
+    }
+
+    return summaries.map((summary) => {
+      const ownerId = ownerByPack.get(summary.pack_id);
+      if (!summary.pack_id || ownerId === undefined || ownerId === summary.id) {
+        return summary;
+      }
+
+      // Shipping already counted on the pack owner
+      const shippingFee = this.isFlexWithIncome(summary.logistic_type)
+        ? 0
+        : summary.shipping_cost;
+      const totalFees =
+        summary.total_fees -
+        shippingFee -
+        summary.courier_cost -
+        summary.flex_shipping_cost;
+      const netProfit =
+        summary.gross_amount - totalFees - summary.refunded_amount;
+
+      return {
+        ...summary,
+        shipping_cost: 0,
+        courier_cost: 0,
+        shipping_bonus: 0,
+        flex_shipping_cost: 0,
+        total_fees: totalFees,
+        net_profit: netProfit,
+        profit_margin:
+          summary.gross_amount > 0 ? (netProfit / summary.gross_amount) * 100 : 0,
+      };
+    });
+  }
+
+  /**
+   * Group active orders that share a pack_id into a single shipment entry
+   * Orders without pack_id are single shipments and are not listed
+   */
+  private buildPackSummaries(orders: OrderSummaryDto[]): PackSummaryDto[] {
+    const packs = new Map<number, PackSummaryDto>();
+
+    for (const order of orders) {
+      if (!order.pack_id) continue;
+
+      const pack = packs.get(order.pack_id) || {
+        pack_id: order.pack_id,
+        order_ids: [],
+        logistic_type: order.logistic_type,
+        logistic_type_label: order.logistic_type_label,
+        total_items: 0,
+        gross_amount: 0,
+        shipping_cost: 0,
+        courier_cost: 0,
+        shipping_bonus: 0,
+        flex_shipping_cost: 0,
+        total_fees: 0,
+        net_profit: 0,
+        buyer: order.buyer,
+      };
+
+      pack.order_ids.push(order.id);
+      pack.total_items += order.items.reduce((sum, i) => sum + i.quantity, 0);
+      pack.gross_amount += order.gross_amount;
+      pack.shipping_cost += order.shipping_cost;
+      pack.courier_cost += order.courier_cost;
+      pack.shipping_bonus += order.shipping_bonus || 0;
+      pack.flex_shipping_cost += order.flex_shipping_cost || 0;
+      pack.total_fees += order.total_fees;
+      pack.net_profit += order.net_profit;
+      packs.set(order.pack_id, pack);
+    }
+
+    return [...packs.values()];
+  }
+
+  /**
+   * Classify order summaries by logistic type and calculate their metrics
+   * Shared by the daily sales dashboard and the date-range sales report
+   */
+  private buildLogisticTypeBreakdown(orderSummaries: OrderSummaryDto[]): {
+    orders: OrdersByLogisticTypeDto;
+    by_logistic_type: LogisticTypeBreakdownDto;
+    summary: DailySalesSummaryDto;
+    packs: PackSummaryDto[];
+  } {
     // Classify by logistic type
     // - fulfillment: Full (ML warehouse)
     // - cross_docking, self_service: Flex (seller uses own courier, buyer pays shipping to seller)
@@ -135,19 +393,29 @@ export class OrderService {
 
     // Filter out cancelled orders - they shouldn't count in sales metrics
     const activeOrders = orderSummaries.filter((o) => o.status !== 'cancelled');
+    // Other platforms are their own channel, not an ML logistic type
+    const mlOrders = activeOrders.filter(
+      (o) => o.platform_id === MERCADO_LIBRE_PLATFORM_ID,
+    );
 
     const classified = {
-      fulfillment: activeOrders.filter(
+      fulfillment: mlOrders.filter(
         (o) => o.logistic_type === 'fulfillment',
       ),
-      cross_docking: activeOrders.filter(
+      cross_docking: mlOrders.filter(
         (o) => isFlexType(o.logistic_type),
       ),
-      other: activeOrders.filter(
+      other: mlOrders.filter(
         (o) =>
           o.logistic_type !== 'fulfillment' &&
           !isFlexType(o.logistic_type),
       ),
+      falabella: activeOrders.filter(
+        (o) => o.platform_id === FALABELLA_PLATFORM_ID,
+      ),
+      manual: activeOrders.filter(
+        (o) => o.platform_id === MANUAL_PLATFORM_ID,
+      ),
     };
 
     // Calculate metrics per logistic type
@@ -167,6 +435,16 @@ export class OrderService {
         'other',
         'Centro de Envío',
       ),
+      falabella: this.calculateLogisticTypeSummary(
+        classified.falabella,
+        'falabella',
+        'Falabella',
+      ),
+      manual: this.calculateLogisticTypeSummary(
+        classified.manual,
+        'manual',
+        'Venta directa',
+      ),
     };
 
     // Calculate overall summary
@@ -174,17 +452,90 @@ export class OrderService {
       byLogisticType.fulfillment,
       byLogisticType.cross_docking,
       byLogisticType.other,
+      byLogisticType.falabella,
+      byLogisticType.manual,
     ]);
 
     return {
-      date,
-      seller_id: sellerId,
-      summary,
-      by_logistic_type: byLogisticType,
       orders: classified,
+      by_logistic_type: byLogisticType,
+      summary,
+      packs: this.buildPackSummaries(activeOrders),
     };
   }
 
+  /**
+   * Convert a timestamp to its YYYY-MM-DD day in ML timezone (-04:00)
+   */
+  private toMlDate(date: Date): string {
+    const shifted = new Date(new Date(date).getTime() - 4 * 60 * 60 * 1000);
+    return shifted.toISOString().substring(0, 10);
+  }
+
+  /**
+   * Get the bucket key for a YYYY-MM-DD day
+   * - day: the day itself
+   * - week: the Monday that starts the week
+   * - month: YYYY-MM
+   */
+  private getBucketPeriod(
+    day: string,
+    granularity: SalesReportGranularityEnum,
+  ): string {
+    switch (granularity) {
+      case SalesReportGranularityEnum.WEEK: {
+        const date = new Date(`${day}T00:00:00.000Z`);
+        const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+        date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+        return date.toISOString().substring(0, 10);
+      }
+      case SalesReportGranularityEnum.MONTH:
+        return day.substring(0, 7);
+      default:
+        return day;
+    }
+  }
+
+  /**
+   * Build the list of buckets (period + clipped from/to) covering the range
+   */
+  private getReportBuckets(
+    from: string,
+    to: string,
+    granularity: SalesReportGranularityEnum,
+  ): { period: string; from: string; to: string }[] {
+    const buckets: { period: string; from: string; to: string }[] = [];
+
+    for (const day of this.getDaysInRange(from, to)) {
+      const period = this.getBucketPeriod(day, granularity);
+      const current = buckets[buckets.length - 1];
+
+      if (current?.period === period) {
+        current.to = day;
+      } else {
+        buckets.push({ period, from: day, to: day });
+      }
+    }
+
+    return buckets;
+  }
+
+  /**
+   * List every YYYY-MM-DD day between two dates (inclusive)
+   */
+  private getDaysInRange(from: string, to: string): string[] {
+    const days: string[] = [];
+    const current = new Date(`${from}T00:00:00.000Z`);
+    const end = new Date(`${to}T00:00:00.000Z`);
+
+    while (current <= end) {
+      days.push(current.toISOString().substring(0, 10));
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+
+    return days;
+  }
+
   /**
    * Get human-readable label for logistic type
    * - fulfillment: Full (ML warehouse)
@@ -206,6 +557,29 @@ export class OrderService {
     }
   }
 
+  /**
+   * Sales channel of a non-ML order (null for Mercado Libre)
+   */
+  private getChannel(
+    platformId: number | null,
+  ): { type: string; label: string } | null {
+    switch (platformId) {
+      case FALABELLA_PLATFORM_ID:
+        return { type: 'falabella', label: 'Falabella' };
+      case MANUAL_PLATFORM_ID:
+        return { type: 'manual', label: 'Venta directa' };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Flex orders where the buyer pays shipping to the seller (shipping is income)
+   */
+  private isFlexWithIncome(logisticType: string | null): boolean {
+    return logisticType === 'cross_docking' || logisticType === 'self_service';
+  }
+
   /**
    * Map Order entity to OrderSummaryDto with financial calculations
    *
@@ -223,7 +597,7 @@ export class OrderService {
 
     // Check if this is a Flex order with shipping INCOME (seller receives payment)
     // cross_docking, self_service = normal Flex where buyer pays shipping to seller
-    const isFlexWithIncome = order.logistic_type === 'cross_docking' || order.logistic_type === 'self_service';
+    const isFlexWithIncome = this.isFlexWithIncome(order.logistic_type);
 
     // Check if this is a Flex order with shipping COST (free shipping, seller pays)
     // These are orders >$20k where ML offers free shipping but seller still pays courier
@@ -250,21 +624,34 @@ export class OrderService {
     // courier_cost siempre es un costo (solo existe para envíos gratis)
     const totalFees = shippingFee + courierCost + marketplaceFee + ivaAmount + externalFlexCost;
 
+    // Money returned to the buyer (partial/total refunds) is not profit
+    const refundedAmount = (order.claims || []).reduce(
+      (sum, claim) => sum + (Number(claim.refunded_amount) || 0),
+      0,
+    );
+
     const grossAmount = Number(order.total_amount) || 0;
-    // Net profit = gross - fees + bonus (bonus is income from ML)
-    const netProfit = grossAmount - totalFees + shippingBonus;
+    // Net profit = gross - fees + bonus (bonus is income from ML) - refunds
+    const netProfit = grossAmount - totalFees + shippingBonus - refundedAmount;
     const profitMargin = grossAmount > 0 ? (netProfit / grossAmount) * 100 : 0;
 
+    // Other platforms are labeled by channel, not by ML logistic type
+    const channel = this.getChannel(order.platform_id);
+
     return {
       id: order.id,
+      platform_id: order.platform_id ?? MERCADO_LIBRE_PLATFORM_ID,
+      platform_order_id: order.platform_order_id || null,
       date_created: order.date_approved,
       date_approved: order.date_approved,
       status: order.status,
       total_amount: grossAmount,
       paid_amount: Number(order.paid_amount) || 0,
-      logistic_type: order.logistic_type || 'other',
-      logistic_type_label: this.getLogisticTypeLabel(order.logistic_type),
+      logistic_type: channel?.type || order.logistic_type || 'other',
+      logistic_type_label:
+        channel?.label || this.getLogisticTypeLabel(order.logistic_type),
       pack_id: order.pack_id || null,
+      delivery_status: order.delivery_status || null,
       items:
         order.items?.map((item) => ({
           item_id: item.item_id,
@@ -282,6 +669,7 @@ export class OrderService {
       flex_shipping_cost: externalFlexCost,
       gross_amount: grossAmount,
       total_fees: totalFees,
+      refunded_amount: refundedAmount,
       net_profit: netProfit,
       profit_margin: profitMargin,
       buyer: order.buyer
@@ -316,6 +704,7 @@ export class OrderService {
         logistic_type: logisticType,
         logistic_type_label: label,
         total_orders: 0,
+        total_packs: 0,
         total_items: 0,
         gross_amount: 0,
         shipping_cost: 0,
@@ -324,6 +713,7 @@ export class OrderService {
         shipping_bonus: 0,
         flex_shipping_cost: 0,
         total_fees: 0,
+        refunded_amount: 0,
         net_profit: 0,
         average_order_value: 0,
         average_profit_margin: 0,
@@ -342,16 +732,21 @@ export class OrderService {
         bonus: acc.bonus + (order.shipping_bonus || 0),
         flexShipping: acc.flexShipping + (order.flex_shipping_cost || 0),
         totalFees: acc.totalFees + order.total_fees, // Pre-calculated, respects Flex logic
+        refunded: acc.refunded + (order.refunded_amount || 0),
         profit: acc.profit + order.net_profit,
         margin: acc.margin + order.profit_margin,
       }),
-      { items: 0, gross: 0, shipping: 0, fee: 0, iva: 0, bonus: 0, flexShipping: 0, totalFees: 0, profit: 0, margin: 0 },
+      { items: 0, gross: 0, shipping: 0, fee: 0, iva: 0, bonus: 0, flexShipping: 0, totalFees: 0, refunded: 0, profit: 0, margin: 0 },
     );
 
     return {
       logistic_type: logisticType,
       logistic_type_label: label,
       total_orders: totalOrders,
+      // Orders sharing a pack_id travel as one shipment
+      total_packs: new Set(
+        activeOrders.map((o) => (o.pack_id ? `pack-${o.pack_id}` : `order-${o.id}`)),
+      ).size,
       total_items: totals.items,
       gross_amount: totals.gross,
       shipping_cost: totals.shipping, // For reference only (Flex = income, not cost)
@@ -360,6 +755,7 @@ export class OrderService {
       shipping_bonus: totals.bonus,
       flex_shipping_cost: totals.flexShipping,
       total_fees: totals.totalFees, // Use pre-calculated total that respects Flex logic
+      refunded_amount: totals.refunded,
       net_profit: totals.profit,
       average_order_value: totals.gross / totalOrders,
       average_profit_margin: totals.margin / totalOrders,
@@ -376,6 +772,7 @@ export class OrderService {
     const totals = summaries.reduce(
       (acc, s) => ({
         orders: acc.orders + s.total_orders,
+        packs: acc.packs + s.total_packs,
         items: acc.items + s.total_items,
         gross: acc.gross + s.gross_amount,
         shipping: acc.shipping + s.shipping_cost,
@@ -384,13 +781,15 @@ export class OrderService {
         bonus: acc.bonus + (s.shipping_bonus || 0),
         flexShipping: acc.flexShipping + (s.flex_shipping_cost || 0),
         totalFees: acc.totalFees + s.total_fees, // Pre-calculated, respects Flex logic
+        refunded: acc.refunded + (s.refunded_amount || 0),
         profit: acc.profit + s.net_profit,
       }),
-      { orders: 0, items: 0, gross: 0, shipping: 0, fee: 0, iva: 0, bonus: 0, flexShipping: 0, totalFees: 0, profit: 0 },
+      { orders: 0, packs: 0, items: 0, gross: 0, shipping: 0, fee: 0, iva: 0, bonus: 0, flexShipping: 0, totalFees: 0, refunded: 0, profit: 0 },
     );
 
     return {
       total_orders: totals.orders,
+      total_packs: totals.packs,
       total_items: totals.items,
       gross_amount: totals.gross,
       shipping_cost: totals.shipping, // For reference (Flex = income, not cost)
@@ -399,6 +798,7 @@ export class OrderService {
       shipping_bonus: totals.bonus,
       flex_shipping_cost: totals.flexShipping,
       total_fees: totals.totalFees, // Use pre-calculated total
+      refunded_amount: totals.refunded,
       net_profit: totals.profit,
       average_order_value:
         totals.orders > 0 ? totals.gross / totals.orders : 0,
@@ -422,13 +822,11 @@ export class OrderService {
     this.logger.log(`Starting sync for seller ${sellerId} on ${date}`);
 
     try {
-      const mlResponse = await this.mercadoLibreService.getOrdersByDate(
+      // Follows ML pagination so busy days are not truncated to the first page
+      const orders = await this.mercadoLibreService.getAllOrdersByDate(
         date,
         sellerId,
       );
-
-      // ML API returns { results: [], paging: {} } but service types it as any[]
-      const orders = (mlResponse as any)?.results || mlResponse || [];
       this.logger.log(`Received ${orders.length} orders from Mercado Libre`);
 
       let syncedCount = 0;
@@ -447,7 +845,9 @@ export class OrderService {
       this.logger.log(`Successfully synced ${syncedCount} orders`);
 
       return {
+        platform_id: MERCADO_LIBRE_PLATFORM_ID,
         synced: syncedCount,
+        errors: orders.length - syncedCount,
         message: `Se sincronizaron ${syncedCount} órdenes correctamente`,
         date,
         seller_id: sellerId,
@@ -479,8 +879,9 @@ export class OrderService {
 
   /**
    * Save a single order from Mercado Libre API response
+   * Also used by the historical backfill job
    */
-  private async saveOrderFromMercadoLibre(
+  async saveOrderFromMercadoLibre(
     mlOrder: any,
     sellerId: number,
   ): Promise<void> {
@@ -593,6 +994,7 @@ export class OrderService {
     // Save order - only include buyer if it exists
     const orderData: any = {
       id: mlOrder.id,
+      platform_order_id: String(mlOrder.id),
       date_approved: new Date(mlOrder.date_closed || mlOrder.date_created),
       last_updated: new Date(mlOrder.last_updated || new Date()),
       expiration_date: mlOrder.expiration_date
@@ -736,6 +1138,14 @@ export class OrderService {
           ['id'], // Conflict column - update if this ID exists
         );
       }
+
+      // Refunds (transaction_amount_refunded) and ML claims/returns
+      await this.orderClaimsService.syncFromMercadoLibre(
+        orderId,
+        sellerId,
+        paymentsToUse,
+        fullOrderDetails?.mediations || mlOrder.mediations || [],
+      );
     }
   }
 }
@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  ParseIntPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { OrderReturnsService } from './order-returns.service';
+import {
+  ReceiveReturnDto,
+  ReceiveReturnResponseDto,
+} from './dto/receive-return.dto';
+
+/**
+ * Returns Controller
+ * Warehouse reception of returned items (listing is in GET /orders/returns)
+ */
+@Controller('returns')
+export class ReturnsController {
+  constructor(private readonly orderReturnsService: OrderReturnsService) {}
+
+  /**
+   * Receive a returned item: good units go back to stock, damaged are written off
+   * POST /returns/:id/receive
+   *
+   * Applies: security-validate-all-input (using ValidationPipe + DTO)
+   */
+  @Post(':id/receive')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async receive(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReceiveReturnDto,
+  ): Promise<ReceiveReturnResponseDto> {
+    return this.orderReturnsService.receive(id, dto);
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { InventoryService } from '../services/inventory.service';
+import { FullInventoryService } from '../services/full-inventory.service';
+import { TransferStockDto } from '../dto/transfer-stock.dto';
+import {
+  FullInventoryResponseDto,
+  FullInventorySyncResultDto,
+  GetFullInventoryQueryDto,
+} from '../dto/full-inventory.dto';
+
+@Controller('inventory')
+export class InventoryController {
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly fullInventoryService: FullInventoryService,
+  ) {}
+
+  @Post('transfers')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  transfer(@Body() dto: TransferStockDto) {
+    return this.inventoryService.transferStock(
+      dto.product_id,
+      dto.from_location,
+      dto.to_location,
+      dto.quantity,
+      {
+        changed_by: dto.changed_by,
+        change_reason:
+          dto.reason ||
+          `Transferencia ${dto.from_location} → ${dto.to_location}`,
+      },
+    );
+  }
+
+  /**
+   * Stock en Full vs. stock propio y velocidad de venta
+   * GET /inventory/full?days=30&target_days=30
+   */
+  @Get('full')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  getFullInventory(
+    @Query() query: GetFullInventoryQueryDto,
+  ): Promise<FullInventoryResponseDto> {
+    return this.fullInventoryService.getReport(query);
+  }
+
+  /**
+   * Sincronizar ahora el stock Full (también corre periódicamente)
+   */
+  @Post('full/sync')
+  syncFullInventory(): Promise<FullInventorySyncResultDto> {
+    return this.fullInventoryService.syncAll();
+  }
+
+  @Get('products/:id/locations')
+  getStockByLocation(@Param('id', ParseIntPipe) id: number) {
+    return this.inventoryService.getStockByLocation(id);
+  }
+}
@@ -1,4 +1,5 @@
-import { IsNumber, IsString, IsNotEmpty } from 'class-validator';
+import { IsNumber, IsString, IsNotEmpty, IsEnum, IsOptional, Min } from 'class-validator';
+import { StockLocationCode } from '../entities/stock-location.entity';
 
 export class AdjustStockDto {
   @IsNumber()
@@ -12,4 +13,13 @@ export class AdjustStockDto {
   @IsString()
   @IsNotEmpty()
   changed_by: string; // Usuario que hace el ajuste
+
+  @IsOptional()
+  @IsEnum(StockLocationCode, { message: 'location debe ser BODEGA, FLEX o FULL' })
+  location?: StockLocationCode; // BODEGA por defecto
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'unit_cost no puede ser negativo' })
+  unit_cost?: number; // Costo neto de las unidades que entran (ajustes positivos)
 }
@@ -0,0 +1,34 @@
+import { CostingMethod } from '../services/costing.service';
+
+export class CostLotDto {
+  cost_lot_id: number;
+  received_at: Date;
+  source: string; // change_type de la entrada u "opening"
+  reference: string | null;
+  quantity: number;
+  remaining_quantity: number;
+  unit_cost: number;
+  unit_cost_with_iva: number;
+}
+
+/**
+ * Costo de un producto (GET /products/:id/cost-with-iva)
+ * cost_net es el costo que se usa para las ventas según costing_method
+ */
+export class ProductCostBreakdownDto {
+  product_id: number;
+  name: string;
+  costing_method: CostingMethod;
+  cost_net: number;
+  iva_percentage: number;
+  iva_amount: number;
+  cost_with_iva: number;
+  average_cost: number | null; // products.cost (promedio ponderado)
+  fifo_unit_cost: number | null; // Lote más antiguo con stock
+  stock: number;
+  lot_quantity: number; // Stock cubierto por lotes
+  uncosted_quantity: number; // Stock sin lote (valorizado al promedio)
+  stock_value: number; // Neto
+  stock_value_with_iva: number;
+  lots: CostLotDto[];
+}
@@ -0,0 +1,50 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Query DTO para el reporte de stock Full
+ */
+export class GetFullInventoryQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'days debe ser un número entero' })
+  @Min(1, { message: 'days debe ser al menos 1' })
+  @Max(365, { message: 'days no puede ser mayor a 365' })
+  days?: number = 30; // Ventana para la velocidad de venta
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'target_days debe ser un número entero' })
+  @Min(1, { message: 'target_days debe ser al menos 1' })
+  target_days?: number = 30; // Días de cobertura que debe tener Full
+}
+
+export class FullInventoryRowDto {
+  product_id: number;
+  internal_sku: string;
+  name: string;
+  item_ids: string[];
+  full_available: number; // Unidades del producto vendibles en Full
+  full_not_available: number;
+  internal_stock: number; // Stock en la bodega propia (BODEGA)
+  sold_units: number; // Unidades vendidas por Full en la ventana
+  daily_velocity: number;
+  days_of_cover: number | null; // null si no hubo ventas
+  suggested_shipment: number; // Unidades a enviar para cubrir target_days
+  needs_shipment: boolean;
+  synced_at: Date;
+}
+
+export class FullInventoryResponseDto {
+  days: number;
+  target_days: number;
+  products: FullInventoryRowDto[];
+  unmatched_inventory_ids: string[]; // Inventarios Full sin producto asociado
+}
+
+export class FullInventorySyncResultDto {
+  listings: number; // Publicaciones Full traídas de ML
+  inventories: number;
+  products_updated: number;
+  errors: number;
+}
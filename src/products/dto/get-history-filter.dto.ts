@@ -1,16 +1,21 @@
-import { IsDateString, IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProductHistory } from '../entities/product-history.entity';
+import { PagingDto } from './get-products-query.dto';
 
 export class GetHistoryFilterDto {
   @IsOptional()
-  @IsNumber()
+  @Type(() => Number)
+  @IsInt()
   product_id?: number;
 
   @IsOptional()
-  @IsEnum(['manual', 'order', 'adjustment', 'import'])
+  @IsEnum(['manual', 'order', 'adjustment', 'import', 'return', 'write_off', 'transfer'])
   change_type?: string;
 
   @IsOptional()
-  @IsNumber()
+  @Type(() => Number)
+  @IsInt()
   platform_id?: number;
 
   @IsOptional()
@@ -23,13 +28,23 @@ export class GetHistoryFilterDto {
 
   @IsOptional()
   @IsDateString()
-  date_to?: string;
+  date_to?: string; // Con solo fecha (YYYY-MM-DD) incluye el día completo
 
   @IsOptional()
-  @IsNumber()
-  limit?: number;
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
 
   @IsOptional()
-  @IsNumber()
-  offset?: number;
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+}
+
+export class PaginatedHistoryDto {
+  results: ProductHistory[];
+  paging: PagingDto;
 }
@@ -0,0 +1,103 @@
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { Product } from '../entities/product.entity';
+
+export enum ProductSortEnum {
+  PRODUCT_ID = 'product_id',
+  INTERNAL_SKU = 'internal_sku',
+  NAME = 'name',
+  STOCK = 'stock',
+  COST = 'cost',
+}
+
+export enum ProductSortOrderEnum {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export enum ProductPagingEnum {
+  OFFSET = 'offset', // Páginas por limit/offset, con el total
+  CURSOR = 'cursor', // Páginas por cursor (next_cursor), estable si cambian los datos
+}
+
+/**
+ * Query DTO para el listado de productos (GET /products)
+ * Sin paging, limit, offset ni cursor responde el listado completo (arreglo)
+ */
+export class GetProductsQueryDto {
+  @IsOptional()
+  @IsString()
+  search?: string; // Nombre, SKU interno o SKU secundario (contiene, sin mayúsculas)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'category_id debe ser un número entero' })
+  category_id?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'platform_id debe ser un número entero' })
+  platform_id?: number; // Con SKU secundario o mapeo activo en la plataforma
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'stock_min debe ser un número entero' })
+  stock_min?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'stock_max debe ser un número entero' })
+  stock_max?: number;
+
+  @IsOptional()
+  @IsEnum(ProductSortEnum, {
+    message: 'sort debe ser: product_id, internal_sku, name, stock o cost',
+  })
+  sort?: ProductSortEnum = ProductSortEnum.PRODUCT_ID;
+
+  @IsOptional()
+  @IsEnum(ProductSortOrderEnum, { message: 'order debe ser asc o desc' })
+  order?: ProductSortOrderEnum = ProductSortOrderEnum.ASC;
+
+  @IsOptional()
+  @IsEnum(ProductPagingEnum, { message: 'paging debe ser offset o cursor' })
+  paging?: ProductPagingEnum;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit debe ser un número entero' })
+  @Min(1, { message: 'limit debe ser al menos 1' })
+  @Max(500, { message: 'limit no puede ser mayor a 500' })
+  limit?: number; // 50 por defecto al paginar
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'offset debe ser un número entero' })
+  @Min(0, { message: 'offset no puede ser negativo' })
+  offset?: number;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string; // next_cursor de la página anterior (implica paging=cursor)
+}
+
+export class PagingDto {
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export class PaginatedProductsDto {
+  results: Product[];
+  paging: PagingDto;
+}
+
+export class CursorPagingDto {
+  limit: number;
+  next_cursor: string | null; // null en la última página
+}
+
+export class CursorPaginatedProductsDto {
+  results: Product[];
+  paging: CursorPagingDto;
+}
@@ -1,5 +1,5 @@
 // create-product.dto.ts
-import { IsArray, IsNumber, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsInt, IsNumber, IsOptional, IsString, Min, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class CreateProductDto {
@@ -16,6 +16,16 @@ export class CreateProductDto {
   @IsOptional()
   cost?: number;
 
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  lead_time_days?: number; // Días de reposición del proveedor
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  safety_stock?: number; // Stock mínimo a mantener
+
   @IsNumber()
   category_id: number;
 
@@ -0,0 +1,73 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Columnas de la planilla de productos (importación y exportación)
+ *
+ * - secondary_skus: "platform_id:sku[:unidades]" separados por "|"
+ * - mappings: "platform_id:platform_sku" separados por "|"
+ * - category_name solo se usa para crear una categoría nueva
+ */
+export const PRODUCT_SHEET_COLUMNS = [
+  'internal_sku',
+  'name',
+  'category_id',
+  'category_name',
+  'stock',
+  'cost',
+  'lead_time_days',
+  'safety_stock',
+  'secondary_skus',
+  'mappings',
+] as const;
+
+export type ProductSheetColumn = (typeof PRODUCT_SHEET_COLUMNS)[number];
+
+export type ProductSheetRow = Partial<Record<ProductSheetColumn, string>>;
+
+export enum ProductSheetFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export class ImportProductsDto {
+  @IsString()
+  @IsNotEmpty()
+  changed_by: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  dry_run?: boolean = false; // Solo validar y mostrar la vista previa
+}
+
+export class ExportProductsQueryDto {
+  @IsOptional()
+  @IsEnum(ProductSheetFormat, { message: 'format debe ser csv o xlsx' })
+  format?: ProductSheetFormat = ProductSheetFormat.CSV;
+}
+
+export class ImportRowResultDto {
+  row: number; // Fila de la planilla (la 1 es el encabezado)
+  internal_sku: string;
+  action: 'create' | 'update' | 'unchanged' | null; // null si tiene errores
+  changes: string[]; // Campos que cambian
+  errors: string[];
+}
+
+export class ImportProductsResultDto {
+  dry_run: boolean;
+  committed: boolean;
+  total_rows: number;
+  error_rows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  rows: ImportRowResultDto[];
+}
@@ -0,0 +1,47 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * Query DTO para las sugerencias de compra
+ */
+export class GetReorderSuggestionsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'days debe ser un número entero' })
+  @Min(1, { message: 'days debe ser al menos 1' })
+  @Max(365, { message: 'days no puede ser mayor a 365' })
+  days?: number = 30; // Ventana para la velocidad de venta
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'target_days debe ser un número entero' })
+  @Min(1, { message: 'target_days debe ser al menos 1' })
+  target_days?: number = 30; // Días de venta que debe cubrir cada compra
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  only_needed?: boolean = false; // Solo productos bajo su punto de reorden
+}
+
+export class ReorderSuggestionRowDto {
+  product_id: number;
+  internal_sku: string;
+  name: string;
+  stock: number;
+  available: number; // stock - reservado
+  units_sold: number; // Unidades vendidas en la ventana (neto de devoluciones)
+  daily_velocity: number;
+  days_of_cover: number | null; // null si no hubo ventas
+  lead_time_days: number;
+  safety_stock: number;
+  reorder_point: number; // Venta durante la reposición + stock de seguridad
+  suggested_quantity: number; // Unidades a pedir para cubrir reposición + target_days
+  needs_reorder: boolean;
+}
+
+export class ReorderSuggestionsResponseDto {
+  days: number;
+  target_days: number;
+  products: ReorderSuggestionRowDto[];
+}
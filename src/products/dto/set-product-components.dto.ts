@@ -0,0 +1,30 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ProductComponentItemDto {
+  @IsInt()
+  product_id: number; // Producto componente
+
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity: number; // Unidades del componente por kit
+}
+
+/**
+ * Reemplaza la lista de materiales de un kit (lista vacía: deja de ser kit)
+ */
+export class SetProductComponentsDto {
+  @IsArray()
+  @ArrayUnique((item: ProductComponentItemDto) => item.product_id, {
+    message: 'Un componente no puede repetirse',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => ProductComponentItemDto)
+  components: ProductComponentItemDto[];
+}
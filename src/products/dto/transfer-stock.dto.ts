@@ -0,0 +1,37 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { StockLocationCode } from '../entities/stock-location.entity';
+
+export class TransferStockDto {
+  @IsInt()
+  @IsNotEmpty()
+  product_id: number;
+
+  @IsEnum(StockLocationCode, {
+    message: 'from_location debe ser BODEGA, FLEX o FULL',
+  })
+  from_location: StockLocationCode;
+
+  @IsEnum(StockLocationCode, {
+    message: 'to_location debe ser BODEGA, FLEX o FULL',
+  })
+  to_location: StockLocationCode;
+
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity: number;
+
+  @IsString()
+  @IsNotEmpty()
+  changed_by: string; // Usuario que hace la transferencia
+
+  @IsString()
+  @IsOptional()
+  reason?: string; // "Envío a Full", "Reposición Flex", etc.
+}
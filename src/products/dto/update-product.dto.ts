@@ -1,6 +1,8 @@
 import {
   IsString,
   IsNumber,
+  IsInt,
+  Min,
   IsOptional,
   IsArray,
   ValidateNested,
@@ -25,6 +27,16 @@ export class UpdateProductDto {
   @IsOptional()
   cost?: number;
 
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  lead_time_days?: number; // Días de reposición del proveedor
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  safety_stock?: number; // Stock mínimo a mantener
+
   @IsNumber()
   @IsOptional()
   category_id?: number;
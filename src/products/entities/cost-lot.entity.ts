@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+/**
+ * Lote de costo: unidades que entraron juntas a un mismo costo
+ * Las salidas de stock consumen los lotes más antiguos primero (FIFO)
+ */
+@Entity('cost_lots')
+export class CostLot {
+  @PrimaryGeneratedColumn()
+  cost_lot_id: number;
+
+  @Column()
+  product_id: number;
+
+  @Column({ type: 'int' })
+  quantity: number; // Unidades que entraron
+
+  @Column({ type: 'int' })
+  remaining_quantity: number; // Unidades aún en stock
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  unit_cost: number; // Neto (sin IVA)
+
+  @Column({ type: 'varchar', length: 50 })
+  source: string; // change_type de la entrada u "opening"
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reference: string | null;
+
+  @CreateDateColumn()
+  received_at: Date;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
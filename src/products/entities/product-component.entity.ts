@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+/**
+ * Componente de un kit (lista de materiales)
+ * Vender un kit descuenta quantity unidades de cada componente;
+ * el kit no tiene stock propio
+ */
+@Entity('product_components')
+@Unique(['kit_product_id', 'component_product_id'])
+export class ProductComponent {
+  @PrimaryGeneratedColumn()
+  product_component_id: number;
+
+  @Column()
+  kit_product_id: number;
+
+  @Column()
+  component_product_id: number;
+
+  @Column({ type: 'int' })
+  quantity: number; // Unidades del componente por kit
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'kit_product_id' })
+  kit: Product;
+
+  @ManyToOne(() => Product, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'component_product_id' })
+  component: Product;
+}
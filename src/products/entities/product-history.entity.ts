@@ -30,7 +30,7 @@ export class ProductHistory {
   changed_by: string; // Usuario o "Sistema"
 
   @Column({ length: 50, default: 'manual' })
-  change_type: string; // "manual", "order", "adjustment", "import"
+  change_type: string; // "manual", "order", "adjustment", "import", "return", "write_off", "transfer"
 
   @Column({ type: 'text', nullable: true })
   change_reason: string; // Razón del cambio
@@ -45,6 +45,12 @@ export class ProductHistory {
   @Column({ type: 'int', nullable: true })
   adjustment_amount: number; // +10, -5, etc.
 
+  @Column({ nullable: true })
+  location_id: number; // Ubicación afectada (movimientos de stock)
+
+  @Column({ nullable: true })
+  kit_product_id: number; // Kit vendido cuando el movimiento es de un componente
+
   @Column({ type: 'jsonb', nullable: true })
   metadata: any; // Datos adicionales en formato JSON
 
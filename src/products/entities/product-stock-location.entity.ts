@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { StockLocation } from './stock-location.entity';
+
+/**
+ * Stock de un producto en una ubicación
+ * products.stock es la suma de todas sus ubicaciones
+ */
+@Entity('product_stock_locations')
+@Unique(['product_id', 'location_id'])
+export class ProductStockLocation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  product_id: number;
+
+  @Column()
+  location_id: number;
+
+  @Column({ type: 'int', default: 0 })
+  quantity: number;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @ManyToOne(() => StockLocation, { eager: true })
+  @JoinColumn({ name: 'location_id' })
+  location: StockLocation;
+}
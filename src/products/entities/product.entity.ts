@@ -16,9 +16,18 @@ export class Product {
   @Column({ type: 'int' })
   stock: number;
 
+  @Column({ type: 'int', default: 0 })
+  reserved_stock: number; // Unidades en órdenes sin pago aprobado (disponible = stock - reservado)
+
   @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
   cost: number;
 
+  @Column({ type: 'int', default: 7 })
+  lead_time_days: number; // Días de reposición del proveedor
+
+  @Column({ type: 'int', default: 0 })
+  safety_stock: number; // Stock mínimo a mantener
+
   @OneToMany(
     () => SecondarySku,
     (secondarySku) => secondarySku.product,
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Unique,
+} from 'typeorm';
+
+export enum StockLedgerStatus {
+  DEDUCTED = 'deducted',
+  RESTORED = 'restored',
+}
+
+/**
+ * Registro de idempotencia: cada línea de orden (plataforma, orden, ítem,
+ * variación) descuenta stock una sola vez y una cancelación restaura solo
+ * lo descontado
+ */
+@Entity('stock_ledger')
+@Unique([
+  'platform_id',
+  'platform_order_id',
+  'platform_item_id',
+  'platform_variation_id',
+])
+export class StockLedgerEntry {
+  @PrimaryGeneratedColumn()
+  ledger_id: number;
+
+  @Column()
+  platform_id: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  platform_order_id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  platform_item_id: string; // ID de la publicación/SKU en la plataforma
+
+  @Column({ type: 'varchar', length: 255, default: '' })
+  platform_variation_id: string; // '' si la línea no tiene variación
+
+  @Column()
+  product_id: number;
+
+  @Column({ type: 'int' })
+  quantity_deducted: number; // Unidades del producto (pack * cantidad)
+
+  @Column({ type: 'int', default: 0 })
+  quantity_restored: number;
+
+  @Column({
+    type: 'enum',
+    enum: StockLedgerStatus,
+    default: StockLedgerStatus.DEDUCTED,
+  })
+  status: StockLedgerStatus;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Ubicaciones registradas en la tabla stock_locations
+ * (ver migrations/013-create-stock-locations.sql)
+ */
+export enum StockLocationCode {
+  BODEGA = 'BODEGA', // Bodega propia
+  FLEX = 'FLEX', // Punto de entrega del courier Flex
+  FULL = 'FULL', // Bodegas de Mercado Libre Full
+}
+
+@Entity('stock_locations')
+export class StockLocation {
+  @PrimaryGeneratedColumn()
+  location_id: number;
+
+  @Column({ type: 'varchar', length: 50, unique: true })
+  code: StockLocationCode;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ default: true })
+  is_active: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
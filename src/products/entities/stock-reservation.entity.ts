@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+
+export enum StockReservationStatus {
+  ACTIVE = 'active', // Unidades apartadas, aún sin pago
+  CONVERTED = 'converted', // Pago aprobado: pasó a descuento de stock
+  RELEASED = 'released', // Orden cancelada
+  EXPIRED = 'expired', // Venció sin pago (expiration_date de la orden)
+}
+
+/**
+ * Reserva de stock de una línea de orden pendiente de pago
+ */
+@Entity('stock_reservations')
+@Unique([
+  'platform_id',
+  'platform_order_id',
+  'platform_item_id',
+  'platform_variation_id',
+])
+@Index(['status', 'expires_at'])
+export class StockReservation {
+  @PrimaryGeneratedColumn()
+  reservation_id: number;
+
+  @Column()
+  platform_id: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  platform_order_id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  platform_item_id: string;
+
+  @Column({ type: 'varchar', length: 255, default: '' })
+  platform_variation_id: string; // '' si la línea no tiene variación
+
+  @Column()
+  product_id: number;
+
+  @Column({ type: 'int' })
+  quantity: number; // Unidades del producto (pack * cantidad)
+
+  @Column({
+    type: 'enum',
+    enum: StockReservationStatus,
+    default: StockReservationStatus.ACTIVE,
+  })
+  status: StockReservationStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expires_at: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closed_at: Date | null; // Conversión, liberación o vencimiento
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum StockSyncStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+  SKIPPED = 'skipped', // Publicación Full o sin vendedor conocido
+}
+
+/**
+ * Registro de cada envío de stock disponible a una publicación
+ */
+@Entity('stock_sync_logs')
+@Index(['product_id', 'created_at'])
+export class StockSyncLog {
+  @PrimaryGeneratedColumn()
+  sync_log_id: number;
+
+  @Column()
+  product_id: number;
+
+  @Column()
+  platform_id: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  platform_item_id: string; // ID de la publicación (MLC...)
+
+  @Column({ type: 'int' })
+  quantity: number; // available_quantity enviado
+
+  @Column({ type: 'int', default: 1 })
+  pack_quantity: number; // Unidades del producto por unidad publicada
+
+  @Column({
+    type: 'enum',
+    enum: StockSyncStatus,
+  })
+  status: StockSyncStatus;
+
+  @Column({ type: 'varchar', length: 20 })
+  trigger: 'auto' | 'manual';
+
+  @Column({ type: 'text', nullable: true })
+  error_message: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,7 @@
+/**
+ * IDs de las plataformas registradas en la tabla platforms
+ * (ver migrations/005-seed-platforms-data.sql)
+ */
+export const MERCADO_LIBRE_PLATFORM_ID = 1;
+export const FALABELLA_PLATFORM_ID = 2;
+export const MANUAL_PLATFORM_ID = 3; // Ventas directas (POST /sales/manual)
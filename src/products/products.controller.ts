@@ -8,18 +8,51 @@ import {
   Put,
   Query,
   BadRequestException,
+  ParseIntPipe,
+  UsePipes,
+  ValidationPipe,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ProductsService } from './products.service';
+import { Product } from './entities/product.entity';
 import { CreateProductDto } from './dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { AdjustStockDto } from './dto/adjust-stock.dto';
 import { TaxService } from './services/tax.service';
+import { StockPushService } from './services/stock-push.service';
+import { SetProductComponentsDto } from './dto/set-product-components.dto';
+import { ReorderService } from './services/reorder.service';
+import { GetReorderSuggestionsQueryDto } from './dto/reorder-suggestions.dto';
+import { ProductImportService } from './services/product-import.service';
+import {
+  ExportProductsQueryDto,
+  ImportProductsDto,
+  ImportProductsResultDto,
+  ProductSheetFormat,
+} from './dto/product-import.dto';
+
+import {
+  CursorPaginatedProductsDto,
+  GetProductsQueryDto,
+  PaginatedProductsDto,
+} from './dto/get-products-query.dto';
+import { GetHistoryFilterDto, PaginatedHistoryDto } from './dto/get-history-filter.dto';
+import { ProductHistoryService } from './services/product-history.service';
+
+const IMPORT_MAX_FILE_SIZE = 10 * 1024 * 1024;
 
 @Controller('products')
 export class ProductsController {
   constructor(
     private readonly productsService: ProductsService,
     private readonly taxService: TaxService,
+    private readonly stockPushService: StockPushService,
+    private readonly reorderService: ReorderService,
+    private readonly productImportService: ProductImportService,
+    private readonly productHistoryService: ProductHistoryService,
   ) {}
 
   @Post()
@@ -27,9 +60,65 @@ export class ProductsController {
     return this.productsService.createProduct(createProductDto);
   }
 
+  /**
+   * Listado de productos (arreglo completo si no se pide paginación)
+   * GET /products?search=&category_id=&platform_id=&stock_min=&stock_max=&sort=&order=
+   *   &paging=offset&limit=&offset=   -> { results, paging: { total, limit, offset } }
+   *   &paging=cursor&limit=&cursor=   -> { results, paging: { limit, next_cursor } }
+   */
   @Get()
-  findAll() {
-    return this.productsService.findAll();
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  findAll(
+    @Query() query: GetProductsQueryDto,
+  ): Promise<Product[] | PaginatedProductsDto | CursorPaginatedProductsDto> {
+    return this.productsService.findAll(query);
+  }
+
+  /**
+   * Historial de todos los productos con filtros y paginación
+   */
+  @Get('history')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  getAllHistory(@Query() filter: GetHistoryFilterDto): Promise<PaginatedHistoryDto> {
+    return this.productHistoryService.findByFilters(filter);
+  }
+
+  /**
+   * Importar productos desde CSV o XLSX (campo file, upsert por internal_sku)
+   * Con dry_run=true solo valida y devuelve la vista previa por fila
+   */
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: IMPORT_MAX_FILE_SIZE } }),
+  )
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  importProducts(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: ImportProductsDto,
+  ): Promise<ImportProductsResultDto> {
+    return this.productImportService.import(file, dto);
+  }
+
+  /**
+   * Exportar productos en el formato de importación
+   * GET /products/export?format=csv|xlsx
+   */
+  @Get('export')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async exportProducts(
+    @Query() query: ExportProductsQueryDto,
+  ): Promise<StreamableFile> {
+    const format = query.format || ProductSheetFormat.CSV;
+    const buffer = await this.productImportService.export(format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(buffer, {
+      type:
+        format === ProductSheetFormat.XLSX
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="productos-${date}.${format}"`,
+    });
   }
 
   @Get('low-stock')
@@ -39,6 +128,16 @@ export class ProductsController {
     );
   }
 
+  /**
+   * Sugerencias de compra según velocidad de venta, tiempo de reposición
+   * y stock de seguridad de cada producto
+   */
+  @Get('reorder-suggestions')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  getReorderSuggestions(@Query() query: GetReorderSuggestionsQueryDto) {
+    return this.reorderService.getSuggestions(query);
+  }
+
   @Get('tax/config')
   getTaxConfig() {
     return {
@@ -48,7 +147,7 @@ export class ProductsController {
 
   @Get(':id')
   findOne(@Param('id') id: number) {
-    return this.productsService.findOne(id);
+    return this.productsService.findOneWithAvailability(id);
   }
 
   @Get(':id/history')
@@ -95,20 +194,36 @@ export class ProductsController {
     return this.productsService.adjustStock(id, adjustStockDto);
   }
 
+  @Get(':id/components')
+  getComponents(@Param('id', ParseIntPipe) id: number) {
+    return this.productsService.getComponents(id);
+  }
+
+  /**
+   * Definir los componentes de un kit (lista vacía: deja de ser kit)
+   */
+  @Put(':id/components')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  setComponents(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: SetProductComponentsDto,
+  ) {
+    return this.productsService.setComponents(id, dto);
+  }
+
+  /**
+   * Enviar ahora el stock disponible a las publicaciones de ML
+   */
+  @Post(':id/push-stock')
+  pushStock(@Param('id', ParseIntPipe) id: number) {
+    return this.stockPushService.pushProduct(id, 'manual');
+  }
+
+  /**
+   * Costo del producto según el método de costeo, con y sin IVA
+   */
   @Get(':id/cost-with-iva')
-  async getCostWithIva(@Param('id') id: number) {
-    const product = await this.productsService.findOne(id);
-    if (!product) {
-      throw new BadRequestException('Producto no encontrado');
-    }
-    const cost = product.cost || 0;
-    return {
-      product_id: product.product_id,
-      name: product.name,
-      cost_net: cost,
-      iva_percentage: this.taxService.getIvaPercentage(),
-      iva_amount: this.taxService.calculateIva(cost),
-      cost_with_iva: this.taxService.addIva(cost),
-    };
+  getCostWithIva(@Param('id', ParseIntPipe) id: number) {
+    return this.productsService.getCostBreakdown(id);
   }
 }
@@ -4,21 +4,44 @@ import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { Product } from './entities/product.entity';
 import { ProductHistory } from './entities/product-history.entity';
+import { ProductComponent } from './entities/product-component.entity';
 import { PlatformsModule } from './platforms/platforms.module';
 import { CategoriesModule } from './categories/categories.module';
 import { Category } from './entities/category.entity';
 import { Platform } from './entities/platform.entity';
 import { ProductHistoryService } from './services/product-history.service';
 import { TaxService } from './services/tax.service';
+import { ReorderService } from './services/reorder.service';
+import { ProductImportService } from './services/product-import.service';
+import { ProductSheetService } from './services/product-sheet.service';
+import { SecondarySku } from './entities/secondary-sku.entity';
+import { ProductMapping } from './entities/product-mapping.entity';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Product, Category, Platform, ProductHistory]),
+    TypeOrmModule.forFeature([
+      Product,
+      Category,
+      Platform,
+      ProductHistory,
+      ProductComponent,
+      SecondarySku,
+      ProductMapping,
+    ]),
     CategoriesModule,
     PlatformsModule,
+    InventoryModule, // StockReservationService (stock disponible)
   ],
   controllers: [ProductsController],
-  providers: [ProductsService, ProductHistoryService, TaxService],
+  providers: [
+    ProductsService,
+    ProductHistoryService,
+    TaxService,
+    ReorderService,
+    ProductImportService,
+    ProductSheetService,
+  ],
   exports: [TaxService],
 })
 export class ProductsModule {}
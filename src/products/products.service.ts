@@ -1,6 +1,6 @@
 import { InjectRepository } from '@nestjs/typeorm';
 import { Product } from './entities/product.entity';
-import { Repository } from 'typeorm';
+import { DataSource, In, Repository, SelectQueryBuilder } from 'typeorm';
 import { Category } from './entities/category.entity';
 import { Platform } from './entities/platform.entity';
 import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
@@ -9,6 +9,30 @@ import { UpdateProductDto } from './dto/update-product.dto';
 import { AdjustStockDto } from './dto/adjust-stock.dto';
 import { ProductHistoryService } from './services/product-history.service';
 import { ProductHistory } from './entities/product-history.entity';
+import { StockAvailability, StockReservationService } from './services/stock-reservation.service';
+import { InventoryService } from './services/inventory.service';
+import { ProductStockLocation } from './entities/product-stock-location.entity';
+import { ProductComponent } from './entities/product-component.entity';
+import { SecondarySku } from './entities/secondary-sku.entity';
+import { ProductMapping } from './entities/product-mapping.entity';
+import { SetProductComponentsDto } from './dto/set-product-components.dto';
+import { StockPushService } from './services/stock-push.service';
+import { CostingService, CostingMethod } from './services/costing.service';
+import { TaxService } from './services/tax.service';
+import { ProductCostBreakdownDto } from './dto/cost-breakdown.dto';
+import {
+  CursorPaginatedProductsDto,
+  GetProductsQueryDto,
+  PaginatedProductsDto,
+  ProductPagingEnum,
+  ProductSortEnum,
+  ProductSortOrderEnum,
+} from './dto/get-products-query.dto';
+
+/**
+ * Tamaño de página de GET /products si se pagina sin limit
+ */
+const DEFAULT_PAGE_SIZE = 50;
 
 @Injectable()
 export class ProductsService {
@@ -19,7 +43,15 @@ export class ProductsService {
     private categoryRepository: Repository<Category>,
     @InjectRepository(Platform)
     private platformRepository: Repository<Platform>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
     private productHistoryService: ProductHistoryService,
+    private stockReservationService: StockReservationService,
+    private inventoryService: InventoryService,
+    private stockPushService: StockPushService,
+    private costingService: CostingService,
+    private taxService: TaxService,
+    private dataSource: DataSource,
   ) {}
 
   async createProduct(createProductDto: CreateProductDto) {
@@ -40,30 +72,234 @@ export class ProductsService {
       }),
     );
 
-    // Crear producto
+    // Crear producto (el stock inicial entra a la bodega vía InventoryService)
     const product = this.productRepository.create({
       ...createProductDto,
+      stock: 0,
       category,
       secondarySkus,
     });
 
-    return this.productRepository.save(product);
+    // Producto y stock inicial en la misma transacción: sin producto a medias
+    return this.dataSource.transaction(async (manager) => {
+      const saved = await manager.getRepository(Product).save(product);
+      if (createProductDto.stock > 0) {
+        saved.stock = (
+          await this.inventoryService.adjustStock(
+            saved.product_id,
+            createProductDto.stock,
+            {
+              change_type: 'manual',
+              changed_by: 'Sistema',
+              change_reason: 'Stock inicial',
+            },
+            manager,
+          )
+        ).stock;
+      }
+
+      return saved;
+    });
+  }
+
+
+  /**
+   * Listado de productos con búsqueda, filtros y orden
+   * Sin paginación pedida responde el arreglo completo (forma original del
+   * endpoint); con paging=offset (o limit/offset) o paging=cursor (o cursor)
+   * responde { results, paging }
+   */
+  async findAll(
+    query: GetProductsQueryDto = {},
+  ): Promise<Product[] | PaginatedProductsDto | CursorPaginatedProductsDto> {
+    const paging =
+      query.paging ||
+      (query.cursor !== undefined
+        ? ProductPagingEnum.CURSOR
+        : query.limit !== undefined || query.offset !== undefined
+          ? ProductPagingEnum.OFFSET
+          : null);
+    const sort = query.sort || ProductSortEnum.PRODUCT_ID;
+    const order = query.order === ProductSortOrderEnum.DESC ? 'DESC' : 'ASC';
+    const qb = this.buildListQuery(query, sort, order);
+
+    if (!paging) {
+      return qb.getMany();
+    }
+
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+    if (paging === ProductPagingEnum.CURSOR) {
+      return this.findPageByCursor(qb, query.cursor, sort, order, limit);
+    }
+
+    const offset = query.offset || 0;
+    const [results, total] = await qb.skip(offset).take(limit).getManyAndCount();
+    return { results, paging: { total, limit, offset } };
+  }
+
+  /**
+   * Página por cursor (keyset): sigue después del último producto de la
+   * página anterior según el orden pedido, aunque se creen o borren productos
+   */
+  private async findPageByCursor(
+    qb: SelectQueryBuilder<Product>,
+    cursor: string | undefined,
+    sort: ProductSortEnum,
+    order: 'ASC' | 'DESC',
+    limit: number,
+  ): Promise<CursorPaginatedProductsDto> {
+    if (cursor) {
+      const after = this.decodeCursor(cursor, sort, order);
+      const column = `product.${sort}`;
+      const next = order === 'ASC' ? '>' : '<';
+      const params = { cursorValue: after.value, cursorId: after.id };
+
+      // NULLS FIRST en ASC y NULLS LAST en DESC (mismo orden que buildListQuery)
+      if (after.value === null) {
+        qb.andWhere(
+          order === 'ASC'
+            ? `((${column} IS NULL AND product.product_id > :cursorId) OR ${column} IS NOT NULL)`
+            : `(${column} IS NULL AND product.product_id < :cursorId)`,
+          params,
+        );
+      } else {
+        qb.andWhere(
+          `(${column} ${next} :cursorValue OR (${column} = :cursorValue AND product.product_id ${next} :cursorId)${order === 'DESC' ? ` OR ${column} IS NULL` : ''})`,
+          params,
+        );
+      }
+    }
+
+    // Un producto más para saber si hay página siguiente
+    const rows = await qb.take(limit + 1).getMany();
+    const results = rows.slice(0, limit);
+    const last = results[results.length - 1];
+
+    return {
+      results,
+      paging: {
+        limit,
+        next_cursor:
+          rows.length > limit ? this.encodeCursor(last, sort, order) : null,
+      },
+    };
+  }
+
+  /**
+   * Cursor opaco: valor de la columna de orden e ID del último producto
+   */
+  private encodeCursor(product: Product, sort: ProductSortEnum, order: 'ASC' | 'DESC'): string {
+    const payload = { sort, order, value: product[sort] ?? null, id: product.product_id };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
   }
 
+  private decodeCursor(
+    cursor: string,
+    sort: ProductSortEnum,
+    order: 'ASC' | 'DESC',
+  ): { value: string | number | null; id: number } {
+    let payload: { sort?: string; order?: string; value?: string | number | null; id?: number };
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('cursor inválido');
+    }
+
+    if (!payload || !Number.isInteger(payload.id) || payload.value === undefined) {
+      throw new BadRequestException('cursor inválido');
+    }
+    if (payload.sort !== sort || payload.order !== order) {
+      throw new BadRequestException('El cursor corresponde a otro orden: repita sort y order de la primera página');
+    }
+
+    return { value: payload.value, id: payload.id };
+  }
 
-  findAll() {
-    return this.productRepository
+  /**
+   * Consulta del listado con búsqueda, filtros y orden (sin paginar)
+   */
+  private buildListQuery(
+    query: GetProductsQueryDto,
+    sort: ProductSortEnum,
+    order: 'ASC' | 'DESC',
+  ): SelectQueryBuilder<Product> {
+    const qb = this.productRepository
       .createQueryBuilder('product')
       .leftJoinAndSelect('product.secondarySkus', 'secondarySkus') // Left join para incluir incluso cuando secondarySkus es null
       .leftJoinAndSelect('product.category', 'category')
-      .orderBy('product.product_id', 'ASC')
-      .getMany(); // Obtiene todos los productos
+      .orderBy(`product.${sort}`, order, order === 'ASC' ? 'NULLS FIRST' : 'NULLS LAST')
+      .addOrderBy('product.product_id', order);
+
+    if (query.search) {
+      // Escapar comodines de LIKE
+      const search = `%${query.search.trim().replace(/[\\%_]/g, '\\$&')}%`;
+      const secondaryMatch = qb
+        .subQuery()
+        .select('1')
+        .from(SecondarySku, 's')
+        .where('s.product = product.product_id')
+        .andWhere('s.secondary_sku ILIKE :search')
+        .getQuery();
+      qb.andWhere(
+        `(product.name ILIKE :search OR product.internal_sku ILIKE :search OR EXISTS ${secondaryMatch})`,
+        { search },
+      );
+    }
+    if (query.category_id) {
+      qb.andWhere('category.platform_id = :categoryId', { categoryId: query.category_id });
+    }
+    if (query.platform_id) {
+      const onPlatform = qb
+        .subQuery()
+        .select('1')
+        .from(SecondarySku, 'ps')
+        .where('ps.product = product.product_id')
+        .andWhere('ps.platform = :platformId')
+        .getQuery();
+      const mappedOnPlatform = qb
+        .subQuery()
+        .select('1')
+        .from(ProductMapping, 'pm')
+        .where('pm.product_id = product.product_id')
+        .andWhere('pm.platform_id = :platformId')
+        .andWhere('pm.is_active = true')
+        .getQuery();
+      qb.andWhere(`(EXISTS ${onPlatform} OR EXISTS ${mappedOnPlatform})`, {
+        platformId: query.platform_id,
+      });
+    }
+    if (query.stock_min !== undefined) {
+      qb.andWhere('product.stock >= :stockMin', { stockMin: query.stock_min });
+    }
+    if (query.stock_max !== undefined) {
+      qb.andWhere('product.stock <= :stockMax', { stockMax: query.stock_max });
+    }
+
+    return qb;
   }
 
   findOne(id: number) {
     return this.productRepository.findOne({ where: { product_id: id }, relations: ['secondarySkus'] });
   }
 
+  /**
+   * Producto con stock físico, reservado, disponible y por ubicación
+   */
+  async findOneWithAvailability(
+    id: number,
+  ): Promise<Product & StockAvailability & { locations: ProductStockLocation[] }> {
+    const product = await this.findOne(id);
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${id} no encontrado`);
+    }
+
+    return {
+      ...product,
+      ...(await this.stockReservationService.getAvailability(product)),
+      locations: await this.inventoryService.getStockByLocation(id),
+    };
+  }
+
   /**
    * Actualizar producto con registro de historial
    */
@@ -90,8 +326,8 @@ export class ProductsService {
     const changes = [];
 
     for (const [field, newValue] of Object.entries(updateDto)) {
-      // Ignorar campos de metadata
-      if (['change_reason', 'changed_by', 'secondarySkus'].includes(field)) {
+      // Ignorar campos de metadata (el stock lo registra InventoryService)
+      if (['change_reason', 'changed_by', 'secondarySkus', 'stock'].includes(field)) {
         continue;
       }
 
@@ -121,6 +357,7 @@ export class ProductsService {
     delete updateData.change_reason;
     delete updateData.changed_by;
     delete updateData.secondarySkus;
+    delete updateData.stock;
 
     // Si se incluye category_id, buscar la categoría
     if (updateDto.category_id) {
@@ -140,6 +377,15 @@ export class ProductsService {
       ...updateData,
     });
 
+    // Cambio de stock: se aplica como ajuste en la bodega
+    if (updateDto.stock !== undefined && updateDto.stock !== product.stock) {
+      await this.inventoryService.adjustStock(id, updateDto.stock - product.stock, {
+        change_type: 'manual',
+        changed_by: changedBy,
+        change_reason: changeReason,
+      });
+    }
+
     // Retornar producto actualizado con relaciones
     return this.findOne(id);
   }
@@ -176,34 +422,78 @@ export class ProductsService {
    * Ajustar stock manualmente
    */
   async adjustStock(id: number, adjustDto: AdjustStockDto): Promise<Product> {
+    // Ajuste por ubicación (valida stock negativo y registra historial)
+    return await this.inventoryService.adjustStock(id, adjustDto.adjustment, {
+      change_type: 'adjustment',
+      changed_by: adjustDto.changed_by,
+      change_reason: adjustDto.reason,
+      location: adjustDto.location,
+      unit_cost: adjustDto.unit_cost,
+    });
+  }
+
+  /**
+   * Componentes de un kit
+   */
+  async getComponents(id: number): Promise<ProductComponent[]> {
     const product = await this.findOne(id);
     if (!product) {
       throw new NotFoundException(`Producto con ID ${id} no encontrado`);
     }
 
-    const oldStock = product.stock;
-    const newStock = oldStock + adjustDto.adjustment;
+    return await this.inventoryService.getComponents(id);
+  }
 
-    if (newStock < 0) {
-      throw new BadRequestException(
-        `El stock no puede ser negativo. Stock actual: ${oldStock}, Ajuste: ${adjustDto.adjustment}`,
-      );
+  /**
+   * Definir la lista de materiales de un kit (reemplaza la anterior)
+   */
+  async setComponents(id: number, dto: SetProductComponentsDto): Promise<ProductComponent[]> {
+    const kit = await this.findOne(id);
+    if (!kit) {
+      throw new NotFoundException(`Producto con ID ${id} no encontrado`);
     }
 
-    // Registrar cambio
-    await this.productHistoryService.create({
-      product_id: id,
-      field_name: 'stock',
-      old_value: String(oldStock),
-      new_value: String(newStock),
-      changed_by: adjustDto.changed_by,
-      change_type: 'adjustment',
-      change_reason: adjustDto.reason,
-    });
+    const componentIds = dto.components.map((c) => c.product_id);
+    if (componentIds.includes(id)) {
+      throw new BadRequestException('Un kit no puede ser componente de sí mismo');
+    }
+
+    if (componentIds.length > 0) {
+      // Sin kits anidados: el kit no puede ser componente ni tener kits como componentes
+      if (await this.componentRepository.count({ where: { component_product_id: id } })) {
+        throw new BadRequestException(`El producto ${kit.internal_sku} es componente de otro kit`);
+      }
+      if (kit.stock !== 0) {
+        throw new BadRequestException(
+          `El kit tiene stock propio (${kit.stock}); ajústelo a 0 antes de definir componentes`,
+        );
+      }
+
+      const components = await this.productRepository.find({ where: { product_id: In(componentIds) } });
+      const missing = componentIds.filter((cid) => !components.some((c) => c.product_id === cid));
+      if (missing.length > 0) {
+        throw new NotFoundException(`Componentes no encontrados: ${missing.join(', ')}`);
+      }
+
+      const nestedKits = await this.componentRepository.find({ where: { kit_product_id: In(componentIds) } });
+      if (nestedKits.length > 0) {
+        throw new BadRequestException('Un kit no puede tener otros kits como componentes');
+      }
+    }
 
-    // Actualizar stock
-    product.stock = newStock;
-    return await this.productRepository.save(product);
+    await this.componentRepository.delete({ kit_product_id: id });
+    await this.componentRepository.save(
+      dto.components.map((c) =>
+        this.componentRepository.create({
+          kit_product_id: id,
+          component_product_id: c.product_id,
+          quantity: c.quantity,
+        }),
+      ),
+    );
+
+    this.stockPushService.schedule(id);
+    return await this.inventoryService.getComponents(id);
   }
 
   /**
@@ -218,6 +508,49 @@ export class ProductsService {
     return await this.productHistoryService.findByProduct(id, limit);
   }
 
+  /**
+   * Costo promedio, lotes FIFO y valorización del stock, con y sin IVA
+   */
+  async getCostBreakdown(id: number): Promise<ProductCostBreakdownDto> {
+    const product = await this.findOne(id);
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${id} no encontrado`);
+    }
+
+    const breakdown = await this.costingService.getBreakdown(product);
+    const cost =
+      (breakdown.method === CostingMethod.FIFO ? breakdown.fifo_unit_cost : null) ??
+      breakdown.average_cost ??
+      0;
+
+    return {
+      product_id: product.product_id,
+      name: product.name,
+      costing_method: breakdown.method,
+      cost_net: cost,
+      iva_percentage: this.taxService.getIvaPercentage(),
+      iva_amount: this.taxService.calculateIva(cost),
+      cost_with_iva: this.taxService.addIva(cost),
+      average_cost: breakdown.average_cost,
+      fifo_unit_cost: breakdown.fifo_unit_cost,
+      stock: product.stock,
+      lot_quantity: breakdown.lot_quantity,
+      uncosted_quantity: breakdown.uncosted_quantity,
+      stock_value: breakdown.stock_value,
+      stock_value_with_iva: this.taxService.addIva(breakdown.stock_value),
+      lots: breakdown.lots.map((lot) => ({
+        cost_lot_id: lot.cost_lot_id,
+        received_at: lot.received_at,
+        source: lot.source,
+        reference: lot.reference,
+        quantity: lot.quantity,
+        remaining_quantity: lot.remaining_quantity,
+        unit_cost: Number(lot.unit_cost),
+        unit_cost_with_iva: this.taxService.addIva(Number(lot.unit_cost)),
+      })),
+    };
+  }
+
   /**
    * Obtener productos con stock bajo
    */
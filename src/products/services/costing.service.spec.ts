@@ -0,0 +1,195 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager } from 'typeorm';
+import { CostingMethod, CostingService } from './costing.service';
+import { CostLot } from '../entities/cost-lot.entity';
+import { Product } from '../entities/product.entity';
+import { ProductHistory } from '../entities/product-history.entity';
+
+describe('CostingService', () => {
+  const receipt = {
+    change_type: 'import',
+    changed_by: 'bodega',
+    change_reason: 'Recepción OC 12',
+  };
+
+  let lots: CostLot[];
+  let history: Partial<ProductHistory>[];
+  let productUpdate: jest.Mock;
+  let manager: EntityManager;
+
+  const lot = (id: number, remaining: number, unitCost: number): CostLot =>
+    ({
+      cost_lot_id: id,
+      product_id: 7,
+      quantity: remaining,
+      remaining_quantity: remaining,
+      unit_cost: unitCost,
+      received_at: new Date(2024, 0, id),
+    }) as CostLot;
+
+  const product = (stock: number, cost: number | null): Product =>
+    ({ product_id: 7, stock, cost }) as Product;
+
+  const createService = async (method?: CostingMethod) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        CostingService,
+        { provide: getRepositoryToken(CostLot), useValue: {} },
+        { provide: ConfigService, useValue: { get: () => method } },
+      ],
+    }).compile();
+
+    return module.get(CostingService);
+  };
+
+  beforeEach(() => {
+    lots = [lot(2, 5, 1500), lot(1, 3, 1000)];
+    history = [];
+    productUpdate = jest.fn();
+
+    const repositories = new Map<unknown, unknown>([
+      [
+        CostLot,
+        {
+          find: async () =>
+            lots
+              .filter((l) => l.remaining_quantity > 0)
+              .sort((a, b) => +a.received_at - +b.received_at),
+          update: async (id: number, patch: Partial<CostLot>) => {
+            Object.assign(
+              lots.find((l) => l.cost_lot_id === id),
+              patch,
+            );
+          },
+          create: (entry: Partial<CostLot>) => entry,
+          save: async (entry: CostLot) => {
+            lots.push({ ...entry, cost_lot_id: lots.length + 1 });
+            return entry;
+          },
+        },
+      ],
+      [Product, { update: productUpdate }],
+      [
+        ProductHistory,
+        {
+          create: (entry: Partial<ProductHistory>) => entry,
+          save: async (entry: Partial<ProductHistory>) => history.push(entry),
+        },
+      ],
+    ]);
+    manager = {
+      getRepository: (entity: unknown) => repositories.get(entity),
+    } as unknown as EntityManager;
+  });
+
+  describe('consume', () => {
+    it('con FIFO cuesta la salida con los lotes más antiguos', async () => {
+      const service = await createService(CostingMethod.FIFO);
+
+      const cogs = await service.consume(product(8, 1300), 4, manager);
+
+      expect(cogs).toEqual({
+        method: CostingMethod.FIFO,
+        unit_cost: 1125,
+        total_cost: 4500,
+        average_cost: 1300,
+        lots: [
+          { cost_lot_id: 1, quantity: 3, unit_cost: 1000 },
+          { cost_lot_id: 2, quantity: 1, unit_cost: 1500 },
+        ],
+        uncosted_quantity: 0,
+      });
+      expect(lots.map((l) => [l.cost_lot_id, l.remaining_quantity])).toEqual([
+        [2, 4],
+        [1, 0],
+      ]);
+    });
+
+    it('con promedio ponderado cuesta al products.cost y consume igual los lotes', async () => {
+      const service = await createService();
+
+      const cogs = await service.consume(product(8, 1300), 4, manager);
+
+      expect(cogs).toMatchObject({
+        method: CostingMethod.WEIGHTED_AVERAGE,
+        unit_cost: 1300,
+        total_cost: 5200,
+      });
+      expect(cogs.lots.map((l) => l.quantity)).toEqual([3, 1]);
+    });
+
+    it('valoriza al promedio las unidades que no tienen lote', async () => {
+      const service = await createService(CostingMethod.FIFO);
+
+      const cogs = await service.consume(product(8, 1200), 10, manager);
+
+      expect(cogs.uncosted_quantity).toBe(2);
+      expect(cogs.total_cost).toBe(3 * 1000 + 5 * 1500 + 2 * 1200);
+      expect(cogs.unit_cost).toBe(1290);
+    });
+  });
+
+  describe('recordReceipt', () => {
+    it('crea el lote y recalcula el promedio ponderado con el stock previo', async () => {
+      const service = await createService();
+      const received = product(15, 1000);
+
+      const unitCost = await service.recordReceipt(
+        received,
+        5,
+        { ...receipt, unit_cost: 1600 },
+        manager,
+      );
+
+      expect(unitCost).toBe(1600);
+      expect(lots[2]).toMatchObject({
+        quantity: 5,
+        remaining_quantity: 5,
+        unit_cost: 1600,
+        source: 'import',
+        reference: 'Recepción OC 12',
+      });
+      // (10 × 1000 + 5 × 1600) / 15
+      expect(productUpdate).toHaveBeenCalledWith(7, { cost: 1200 });
+      expect(received.cost).toBe(1200);
+      expect(history).toEqual([
+        expect.objectContaining({
+          field_name: 'cost',
+          old_value: '1000',
+          new_value: '1200',
+        }),
+      ]);
+    });
+
+    it('sin costo la entrada queda al promedio vigente', async () => {
+      const service = await createService();
+
+      const unitCost = await service.recordReceipt(
+        product(10, 1300),
+        2,
+        receipt,
+        manager,
+      );
+
+      expect(unitCost).toBe(1300);
+      expect(lots[2]).toMatchObject({ quantity: 2, unit_cost: 1300 });
+      expect(productUpdate).not.toHaveBeenCalled();
+    });
+
+    it('no crea lote si ni la entrada ni el producto tienen costo', async () => {
+      const service = await createService();
+
+      const unitCost = await service.recordReceipt(
+        product(2, null),
+        2,
+        receipt,
+        manager,
+      );
+
+      expect(unitCost).toBeNull();
+      expect(lots).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, MoreThan, Repository } from 'typeorm';
+import { Product } from '../entities/product.entity';
+import { ProductHistory } from '../entities/product-history.entity';
+import { CostLot } from '../entities/cost-lot.entity';
+
+export enum CostingMethod {
+  WEIGHTED_AVERAGE = 'weighted_average',
+  FIFO = 'fifo',
+}
+
+/**
+ * Costo de las unidades que salen (se guarda en ProductHistory.metadata.cogs)
+ */
+export interface CostOfGoods {
+  method: CostingMethod;
+  unit_cost: number;
+  total_cost: number;
+  average_cost: number; // products.cost al momento de la salida
+  lots: { cost_lot_id: number; quantity: number; unit_cost: number }[];
+  uncosted_quantity: number; // Unidades sin lote (valorizadas al promedio)
+}
+
+/**
+ * Datos de la entrada de stock que afectan el costo
+ */
+export interface StockReceipt {
+  unit_cost?: number; // Sin costo: entra al costo promedio actual
+  change_type: string;
+  changed_by: string;
+  change_reason: string;
+  metadata?: any;
+}
+
+export interface CostBreakdown {
+  method: CostingMethod;
+  average_cost: number | null;
+  fifo_unit_cost: number | null; // Costo del próximo lote a consumir
+  lot_quantity: number; // Unidades cubiertas por lotes
+  uncosted_quantity: number; // Stock sin lote
+  stock_value: number; // Lotes + stock sin lote al promedio
+  lots: CostLot[];
+}
+
+/**
+ * Costeo de productos
+ *
+ * Cada entrada de stock crea un lote con su costo unitario y, si trae costo,
+ * recalcula products.cost como promedio ponderado. Cada salida consume los
+ * lotes más antiguos (FIFO) y devuelve el costo de lo vendido según
+ * COSTING_METHOD (weighted_average por defecto). Las entradas sin costo
+ * (devoluciones, ajustes) entran al promedio vigente.
+ */
+@Injectable()
+export class CostingService {
+  private readonly logger = new Logger(CostingService.name);
+  private readonly method: CostingMethod;
+
+  constructor(
+    @InjectRepository(CostLot)
+    private lotRepository: Repository<CostLot>,
+    configService: ConfigService,
+  ) {
+    this.method =
+      configService.get('COSTING_METHOD') === CostingMethod.FIFO
+        ? CostingMethod.FIFO
+        : CostingMethod.WEIGHTED_AVERAGE;
+  }
+
+  getMethod(): CostingMethod {
+    return this.method;
+  }
+
+  /**
+   * Registrar una entrada de stock (product.stock ya incluye las unidades)
+   * @param manager - Transacción del movimiento de stock
+   * @returns Costo unitario de la entrada (null si el producto no tiene costo)
+   */
+  async recordReceipt(
+    product: Product,
+    quantity: number,
+    receipt: StockReceipt,
+    manager: EntityManager = this.lotRepository.manager,
+  ): Promise<number | null> {
+    const averageCost = this.toNumber(product.cost);
+    const unitCost = receipt.unit_cost ?? averageCost;
+    if (unitCost === null) {
+      return null;
+    }
+
+    const lotRepository = manager.getRepository(CostLot);
+    await lotRepository.save(
+      lotRepository.create({
+        product_id: product.product_id,
+        quantity,
+        remaining_quantity: quantity,
+        unit_cost: unitCost,
+        source: receipt.change_type,
+        reference: receipt.change_reason?.slice(0, 255) || null,
+      }),
+    );
+
+    if (receipt.unit_cost !== undefined) {
+      await this.updateAverageCost(
+        product,
+        quantity,
+        receipt.unit_cost,
+        receipt,
+        manager,
+      );
+    }
+
+    return unitCost;
+  }
+
+  /**
+   * Consumir lotes FIFO por una salida de stock y calcular su costo
+   * Los lotes se bloquean hasta el fin de la transacción del movimiento
+   */
+  async consume(
+    product: Product,
+    quantity: number,
+    manager: EntityManager = this.lotRepository.manager,
+  ): Promise<CostOfGoods> {
+    const averageCost = this.toNumber(product.cost) ?? 0;
+    const lotRepository = manager.getRepository(CostLot);
+    const lots = await lotRepository.find({
+      where: {
+        product_id: product.product_id,
+        remaining_quantity: MoreThan(0),
+      },
+      order: { received_at: 'ASC', cost_lot_id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    let pending = quantity;
+    let fifoTotal = 0;
+    const consumed: CostOfGoods['lots'] = [];
+
+    for (const lot of lots) {
+      if (pending === 0) {
+        break;
+      }
+
+      const taken = Math.min(lot.remaining_quantity, pending);
+      const lotCost = Number(lot.unit_cost);
+      await lotRepository.update(lot.cost_lot_id, {
+        remaining_quantity: lot.remaining_quantity - taken,
+      });
+
+      consumed.push({
+        cost_lot_id: lot.cost_lot_id,
+        quantity: taken,
+        unit_cost: lotCost,
+      });
+      fifoTotal += taken * lotCost;
+      pending -= taken;
+    }
+
+    // Unidades sin lote (ej. stock negativo o sin costo): al promedio
+    fifoTotal += pending * averageCost;
+
+    const totalCost =
+      this.method === CostingMethod.FIFO ? fifoTotal : averageCost * quantity;
+
+    return {
+      method: this.method,
+      unit_cost: this.round(totalCost / quantity),
+      total_cost: this.round(totalCost),
+      average_cost: averageCost,
+      lots: consumed,
+      uncosted_quantity: pending,
+    };
+  }
+
+  /**
+   * Costo promedio, lotes abiertos y valorización del stock de un producto
+   */
+  async getBreakdown(product: Product): Promise<CostBreakdown> {
+    const averageCost = this.toNumber(product.cost);
+    const lots = await this.lotRepository.find({
+      where: {
+        product_id: product.product_id,
+        remaining_quantity: MoreThan(0),
+      },
+      order: { received_at: 'ASC', cost_lot_id: 'ASC' },
+    });
+
+    const lotQuantity = lots.reduce(
+      (sum, lot) => sum + lot.remaining_quantity,
+      0,
+    );
+    const lotValue = lots.reduce(
+      (sum, lot) => sum + lot.remaining_quantity * Number(lot.unit_cost),
+      0,
+    );
+    const uncosted = Math.max(product.stock - lotQuantity, 0);
+
+    return {
+      method: this.method,
+      average_cost: averageCost,
+      fifo_unit_cost: lots.length > 0 ? Number(lots[0].unit_cost) : null,
+      lot_quantity: lotQuantity,
+      uncosted_quantity: uncosted,
+      stock_value: this.round(lotValue + uncosted * (averageCost ?? 0)),
+      lots,
+    };
+  }
+
+  /**
+   * Promedio ponderado entre el stock previo a su costo y lo recibido
+   * Sin stock previo (o sin costo) queda el costo de la entrada
+   */
+  private async updateAverageCost(
+    product: Product,
+    quantity: number,
+    unitCost: number,
+    receipt: StockReceipt,
+    manager: EntityManager,
+  ): Promise<void> {
+    const oldCost = this.toNumber(product.cost);
+    const previousStock = Math.max(product.stock - quantity, 0);
+
+    const newCost = this.round(
+      oldCost === null || previousStock === 0
+        ? unitCost
+        : (oldCost * previousStock + unitCost * quantity) /
+            (previousStock + quantity),
+    );
+    if (newCost === oldCost) {
+      return;
+    }
+
+    product.cost = newCost;
+    const historyRepository = manager.getRepository(ProductHistory);
+    await manager
+      .getRepository(Product)
+      .update(product.product_id, { cost: newCost });
+    await historyRepository.save(
+      historyRepository.create({
+        product_id: product.product_id,
+        field_name: 'cost',
+        old_value: oldCost === null ? null : String(oldCost),
+        new_value: String(newCost),
+        changed_by: receipt.changed_by,
+        change_type: receipt.change_type,
+        change_reason: receipt.change_reason,
+        metadata: {
+          ...receipt.metadata,
+          unit_cost: unitCost,
+          quantity,
+          previous_stock: previousStock,
+        },
+      }),
+    );
+
+    this.logger.debug(
+      `Product ${product.product_id} cost ${oldCost} -> ${newCost}`,
+    );
+  }
+
+  private toNumber(value: number | string | null | undefined): number | null {
+    return value === null || value === undefined ? null : Number(value);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
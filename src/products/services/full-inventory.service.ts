@@ -0,0 +1,387 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Not, Repository } from 'typeorm';
+import { MlListing } from '../../mercadolibre/entities/ml-listing.entity';
+import { MlFullInventory } from '../../mercadolibre/entities/ml-full-inventory.entity';
+import { OrderItem } from '../../orders/entities/order-item.entity';
+import { Product } from '../entities/product.entity';
+import { ProductStockLocation } from '../entities/product-stock-location.entity';
+import { StockLocationCode } from '../entities/stock-location.entity';
+import { MercadoLibreService } from '../../mercadolibre/mercadolibre.service';
+import { toMlListing } from '../../mercadolibre/ml-listing.mapper';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../platforms/platform.constants';
+import { InventoryService } from './inventory.service';
+import {
+  FullInventoryResponseDto,
+  FullInventoryRowDto,
+  FullInventorySyncResultDto,
+  GetFullInventoryQueryDto,
+} from '../dto/full-inventory.dto';
+
+const DEFAULT_SYNC_INTERVAL_MS = 60 * 60_000;
+
+/**
+ * Stock de Mercado Libre Full
+ *
+ * Periódicamente trae de ML las publicaciones Full de cada vendedor (a
+ * ml_listings), lee el stock de cada inventory_id, guarda el detalle en
+ * ml_full_inventory y fija la ubicación FULL de cada producto
+ * (products.stock se ajusta con la diferencia).
+ */
+@Injectable()
+export class FullInventoryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(FullInventoryService.name);
+  private readonly syncIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(
+    @InjectRepository(MlListing)
+    private listingRepository: Repository<MlListing>,
+    @InjectRepository(MlFullInventory)
+    private fullInventoryRepository: Repository<MlFullInventory>,
+    @InjectRepository(OrderItem)
+    private orderItemRepository: Repository<OrderItem>,
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    @InjectRepository(ProductStockLocation)
+    private productLocationRepository: Repository<ProductStockLocation>,
+    private mercadoLibreService: MercadoLibreService,
+    private inventoryService: InventoryService,
+    configService: ConfigService,
+  ) {
+    this.syncIntervalMs =
+      Number(configService.get('FULL_INVENTORY_SYNC_INTERVAL_MS')) ||
+      DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () =>
+        this.syncAll().catch((error) =>
+          this.logger.error(`Full inventory sync failed: ${error.message}`),
+        ),
+      this.syncIntervalMs,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sincronizar el stock Full de todas las publicaciones Full
+   */
+  async syncAll(): Promise<FullInventorySyncResultDto> {
+    const result = {
+      listings: 0,
+      inventories: 0,
+      products_updated: 0,
+      errors: 0,
+    };
+    if (this.syncing) {
+      return result;
+    }
+
+    this.syncing = true;
+    try {
+      await this.discoverListings(result);
+
+      const listings = await this.listingRepository.find({
+        where: { logistic_type: 'fulfillment' },
+      });
+
+      // Unidades del producto en Full, sumando publicaciones y variantes
+      const fullByProduct = new Map<number, number>();
+      // Productos con algún inventario que no se pudo leer
+      const unreadProducts = new Set<number>();
+
+      for (const listing of listings) {
+        const product =
+          (listing.seller_sku &&
+            (await this.inventoryService.findProductBySku(
+              MERCADO_LIBRE_PLATFORM_ID,
+              listing.seller_sku,
+            ))) ||
+          (await this.inventoryService.findProductBySku(
+            MERCADO_LIBRE_PLATFORM_ID,
+            listing.item_id,
+          ));
+        const packQuantity = this.getPackQuantity(product, listing.item_id);
+
+        for (const inventoryId of this.getInventoryIds(listing)) {
+          const stock = await this.mercadoLibreService.getFulfillmentStock(
+            inventoryId,
+            listing.seller_id,
+          );
+          if (!stock) {
+            if (product) {
+              unreadProducts.add(product.product_id);
+            }
+            result.errors++;
+            continue;
+          }
+
+          const available = Number(stock.available_quantity) || 0;
+          await this.fullInventoryRepository.save(
+            this.fullInventoryRepository.create({
+              inventory_id: inventoryId,
+              item_id: listing.item_id,
+              seller_id: listing.seller_id,
+              product_id: product?.product_id ?? null,
+              pack_quantity: packQuantity,
+              available_quantity: available,
+              not_available_quantity: Number(stock.not_available_quantity) || 0,
+              raw_data: stock,
+            }),
+          );
+          result.inventories++;
+
+          if (product) {
+            fullByProduct.set(
+              product.product_id,
+              (fullByProduct.get(product.product_id) || 0) +
+                available * packQuantity,
+            );
+          }
+        }
+      }
+
+      // Con stock Full y sin inventario en esta pasada (publicación cerrada o
+      // que dejó Full): la ubicación FULL vuelve a 0
+      const fullLocation = await this.inventoryService.getLocation(
+        StockLocationCode.FULL,
+      );
+      const stocked = await this.productLocationRepository.find({
+        where: { location_id: fullLocation.location_id, quantity: Not(0) },
+      });
+      for (const row of stocked) {
+        if (
+          !fullByProduct.has(row.product_id) &&
+          !unreadProducts.has(row.product_id)
+        ) {
+          fullByProduct.set(row.product_id, 0);
+        }
+      }
+
+      for (const [productId, quantity] of fullByProduct) {
+        try {
+          await this.inventoryService.setLocationStock(productId, quantity, {
+            location: StockLocationCode.FULL,
+            change_type: 'adjustment',
+            changed_by: 'Mercado Libre Full',
+            change_reason: 'Sincronización de stock Full',
+          });
+          result.products_updated++;
+        } catch (error) {
+          // Ej. kits: el stock está en sus componentes
+          this.logger.warn(
+            `Full stock of product ${productId} not updated: ${error.message}`,
+          );
+          result.errors++;
+        }
+      }
+
+      this.logger.log(
+        `Full inventory synced: ${result.listings} listings, ${result.inventories} inventories, ${result.products_updated} products, ${result.errors} errors`,
+      );
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Guardar en ml_listings las publicaciones Full de cada vendedor con sesión
+   * Sin esto, una publicación Full solo se conocería al llegar su primera
+   * notificación items
+   */
+  private async discoverListings(
+    result: FullInventorySyncResultDto,
+  ): Promise<void> {
+    for (const sellerId of await this.mercadoLibreService.getSessionSellerIds()) {
+      try {
+        const itemIds =
+          await this.mercadoLibreService.getFulfillmentItemIds(sellerId);
+        const items = await this.mercadoLibreService.getItems(
+          itemIds,
+          sellerId,
+        );
+
+        await this.listingRepository.save(
+          items.map((item) =>
+            this.listingRepository.create(toMlListing(item, sellerId)),
+          ),
+        );
+        result.listings += items.length;
+      } catch (error) {
+        this.logger.warn(
+          `Full listings of seller ${sellerId} not discovered: ${error.message}`,
+        );
+        result.errors++;
+      }
+    }
+  }
+
+  /**
+   * Stock Full vs. stock propio y velocidad de venta por Full
+   * Sugiere cuánto enviar para cubrir target_days de venta
+   */
+  async getReport(
+    query: GetFullInventoryQueryDto,
+  ): Promise<FullInventoryResponseDto> {
+    const days = query.days || 30;
+    const targetDays = query.target_days || 30;
+
+    const inventories = await this.fullInventoryRepository.find();
+    const matched = inventories.filter((inv) => inv.product_id);
+    const unmatched = inventories
+      .filter((inv) => !inv.product_id)
+      .map((inv) => inv.inventory_id);
+
+    const soldByItem = await this.getFullSalesByItem(
+      [...new Set(matched.map((inv) => inv.item_id))],
+      days,
+    );
+
+    const productIds = [...new Set(matched.map((inv) => inv.product_id))];
+    const products =
+      productIds.length > 0
+        ? await this.productRepository.find({
+            where: { product_id: In(productIds) },
+          })
+        : [];
+
+    const rows: FullInventoryRowDto[] = [];
+    for (const product of products) {
+      const productInventories = matched.filter(
+        (inv) => inv.product_id === product.product_id,
+      );
+      const itemIds = [
+        ...new Set(productInventories.map((inv) => inv.item_id)),
+      ];
+
+      const fullAvailable = productInventories.reduce(
+        (sum, inv) => sum + inv.available_quantity * inv.pack_quantity,
+        0,
+      );
+      const fullNotAvailable = productInventories.reduce(
+        (sum, inv) => sum + inv.not_available_quantity * inv.pack_quantity,
+        0,
+      );
+      const soldUnits = itemIds.reduce((sum, itemId) => {
+        const pack =
+          productInventories.find((inv) => inv.item_id === itemId)
+            ?.pack_quantity || 1;
+        return sum + (soldByItem.get(itemId) || 0) * pack;
+      }, 0);
+
+      const dailyVelocity = soldUnits / days;
+      const internalStock = await this.inventoryService.getLocationQuantity(
+        product.product_id,
+        StockLocationCode.BODEGA,
+      );
+      const needed = Math.max(
+        0,
+        Math.ceil(dailyVelocity * targetDays) - fullAvailable,
+      );
+
+      rows.push({
+        product_id: product.product_id,
+        internal_sku: product.internal_sku,
+        name: product.name,
+        item_ids: itemIds,
+        full_available: fullAvailable,
+        full_not_available: fullNotAvailable,
+        internal_stock: internalStock,
+        sold_units: soldUnits,
+        daily_velocity: Math.round(dailyVelocity * 100) / 100,
+        days_of_cover:
+          dailyVelocity > 0
+            ? Math.round((fullAvailable / dailyVelocity) * 10) / 10
+            : null,
+        suggested_shipment: Math.min(needed, Math.max(internalStock, 0)),
+        needs_shipment: needed > 0,
+        synced_at: productInventories
+          .map((inv) => inv.synced_at)
+          .sort((a, b) => a.getTime() - b.getTime())[0],
+      });
+    }
+
+    // Primero los que se quedan antes sin stock en Full
+    rows.sort(
+      (a, b) =>
+        (a.days_of_cover ?? Number.MAX_VALUE) -
+        (b.days_of_cover ?? Number.MAX_VALUE),
+    );
+
+    return {
+      days,
+      target_days: targetDays,
+      products: rows,
+      unmatched_inventory_ids: unmatched,
+    };
+  }
+
+  /**
+   * Unidades vendidas (de la publicación) en órdenes Full pagadas
+   */
+  private async getFullSalesByItem(
+    itemIds: string[],
+    days: number,
+  ): Promise<Map<string, number>> {
+    if (itemIds.length === 0) {
+      return new Map();
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60_000);
+    const rows = await this.orderItemRepository
+      .createQueryBuilder('item')
+      .innerJoin('item.order', 'order')
+      .select('item.item_id', 'item_id')
+      .addSelect('SUM(item.quantity)', 'quantity')
+      .where('order.logistic_type = :logisticType', {
+        logisticType: 'fulfillment',
+      })
+      .andWhere('order.status = :status', { status: 'paid' })
+      .andWhere('order.date_approved >= :since', { since })
+      .andWhere('item.item_id IN (:...itemIds)', { itemIds })
+      .groupBy('item.item_id')
+      .getRawMany();
+
+    return new Map(rows.map((row) => [row.item_id, Number(row.quantity) || 0]));
+  }
+
+  private getInventoryIds(listing: MlListing): string[] {
+    const variationIds = (listing.raw_data?.variations || [])
+      .map((variation) => variation.inventory_id)
+      .filter(Boolean);
+
+    return [
+      ...new Set([listing.inventory_id, ...variationIds].filter(Boolean)),
+    ];
+  }
+
+  /**
+   * Unidades del producto por unidad de la publicación (packs)
+   * 1 si la publicación no es un SKU secundario del producto (ej. mapeo)
+   */
+  private getPackQuantity(product: Product | null, itemId: string): number {
+    const secondary = product?.secondarySkus?.find(
+      (s) => s.secondary_sku === itemId,
+    );
+
+    return secondary?.stock_quantity || 1;
+  }
+}
@@ -0,0 +1,291 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, EntityManager } from 'typeorm';
+import { InventoryService } from './inventory.service';
+import { StockLedgerKey, StockLedgerService } from './stock-ledger.service';
+import { StockPushService } from './stock-push.service';
+import { StockReservationService } from './stock-reservation.service';
+import { CostingService } from './costing.service';
+import { Product } from '../entities/product.entity';
+import { ProductHistory } from '../entities/product-history.entity';
+import { ProductMapping } from '../entities/product-mapping.entity';
+import { StockLocation } from '../entities/stock-location.entity';
+import { ProductStockLocation } from '../entities/product-stock-location.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+
+/**
+ * Transacción de prueba: lo escrito (ledger, producto, historial) solo
+ * queda en `db` si el trabajo termina sin error
+ */
+interface FakeManager {
+  claims: Set<string>;
+  products: Map<number, Product>;
+  history: Partial<ProductHistory>[];
+  getRepository: (entity: unknown) => unknown;
+  query: jest.Mock;
+}
+
+describe('InventoryService', () => {
+  const key: StockLedgerKey = {
+    platform_id: 1,
+    platform_order_id: '2000001',
+    platform_item_id: 'MLC123',
+    platform_variation_id: '',
+  };
+  const metadata = {
+    ...key,
+    change_type: 'order' as const,
+    changed_by: 'Mercado Libre',
+    change_reason: 'Venta Mercado Libre - Orden 2000001',
+  };
+
+  let service: InventoryService;
+  let db: {
+    claims: Set<string>;
+    products: Map<number, Product>;
+    history: Partial<ProductHistory>[];
+  };
+  let stockLedgerService: { findEntry: jest.Mock; claimDeduction: jest.Mock };
+  let stockReservationService: { getReservedByOthers: jest.Mock };
+  let costingService: { consume: jest.Mock; recordReceipt: jest.Mock };
+
+  const createManager = (): FakeManager => {
+    const manager: FakeManager = {
+      claims: new Set(),
+      products: new Map(),
+      history: [],
+      getRepository: (entity) => {
+        if (entity === Product) {
+          return {
+            findOne: async ({ where }) => {
+              const product =
+                manager.products.get(where.product_id) ??
+                db.products.get(where.product_id);
+              return product ? { ...product } : null;
+            },
+          };
+        }
+        if (entity === ProductStockLocation) {
+          // Todo el stock de prueba está en BODEGA
+          return {
+            findOne: async ({ where }) => {
+              const product =
+                manager.products.get(where.product_id) ??
+                db.products.get(where.product_id);
+              return { quantity: product.stock };
+            },
+          };
+        }
+        if (entity === ProductComponent) {
+          return { find: async () => [] };
+        }
+        if (entity === ProductHistory) {
+          return {
+            create: (entry: Partial<ProductHistory>) => entry,
+            save: async (entry: Partial<ProductHistory>) => {
+              manager.history.push(entry);
+              return entry;
+            },
+          };
+        }
+        throw new Error('Repositorio no esperado');
+      },
+      query: jest.fn(async (sql: string, [productId, delta]: number[]) => {
+        if (!sql.startsWith('UPDATE products')) {
+          return [{ quantity: 0 }];
+        }
+
+        // Mismo resultado que node-postgres para UPDATE: [filas, afectadas]
+        const current =
+          manager.products.get(productId) ?? db.products.get(productId);
+        const updated = { ...current, stock: current.stock + delta };
+        manager.products.set(productId, updated);
+        return [[{ stock: updated.stock, cost: updated.cost }], 1];
+      }),
+    };
+    return manager;
+  };
+
+  beforeEach(async () => {
+    db = {
+      claims: new Set(),
+      products: new Map([
+        [
+          7,
+          {
+            product_id: 7,
+            internal_sku: 'SKU-7',
+            stock: 10,
+            cost: 1000,
+          } as Product,
+        ],
+      ]),
+      history: [],
+    };
+
+    const isClaimed = (claimKey: StockLedgerKey, manager: FakeManager) => {
+      const id = JSON.stringify(claimKey);
+      return db.claims.has(id) || manager.claims.has(id);
+    };
+    stockLedgerService = {
+      findEntry: jest.fn(async (claimKey: StockLedgerKey, manager) =>
+        isClaimed(claimKey, manager) ? { ...claimKey } : null,
+      ),
+      // Índice único de stock_ledger: visible para otras transacciones
+      // solo después del commit
+      claimDeduction: jest.fn(
+        async (
+          claimKey: StockLedgerKey,
+          _productId,
+          _quantity,
+          manager: FakeManager,
+        ) => {
+          if (isClaimed(claimKey, manager)) {
+            return false;
+          }
+          manager.claims.add(JSON.stringify(claimKey));
+          return true;
+        },
+      ),
+    };
+    stockReservationService = { getReservedByOthers: jest.fn(async () => 0) };
+    costingService = {
+      consume: jest.fn(async () => ({ unit_cost: 1000, total_cost: 2000 })),
+      recordReceipt: jest.fn(async () => 1000),
+    };
+
+    const dataSource = {
+      transaction: async (
+        work: (manager: EntityManager) => Promise<unknown>,
+      ) => {
+        const manager = createManager();
+        const result = await work(manager as unknown as EntityManager);
+        manager.claims.forEach((id) => db.claims.add(id));
+        manager.products.forEach((product, id) => db.products.set(id, product));
+        db.history.push(...manager.history);
+        return result;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        { provide: getRepositoryToken(Product), useValue: {} },
+        { provide: getRepositoryToken(ProductHistory), useValue: {} },
+        { provide: getRepositoryToken(ProductMapping), useValue: {} },
+        {
+          provide: getRepositoryToken(StockLocation),
+          useValue: {
+            findOne: async ({ where }) => ({
+              location_id: 1,
+              code: where.code,
+            }),
+          },
+        },
+        { provide: getRepositoryToken(ProductStockLocation), useValue: {} },
+        { provide: getRepositoryToken(ProductComponent), useValue: {} },
+        { provide: StockLedgerService, useValue: stockLedgerService },
+        { provide: StockPushService, useValue: { schedule: jest.fn() } },
+        {
+          provide: StockReservationService,
+          useValue: stockReservationService,
+        },
+        { provide: CostingService, useValue: costingService },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get(InventoryService);
+  });
+
+  describe('deductStock', () => {
+    it('descuenta una línea de orden una sola vez', async () => {
+      await service.deductStock(7, 2, metadata);
+      const second = await service.deductStock(7, 2, metadata);
+
+      expect(db.products.get(7).stock).toBe(8);
+      expect(second.stock).toBe(8);
+      expect(db.history).toHaveLength(1);
+      expect(db.history[0]).toMatchObject({
+        field_name: 'stock',
+        old_value: '10',
+        new_value: '8',
+        platform_order_id: key.platform_order_id,
+      });
+      expect(costingService.consume).toHaveBeenCalledTimes(1);
+    });
+
+    it('descuenta por separado dos variaciones de la misma publicación', async () => {
+      await service.deductStock(7, 1, {
+        ...metadata,
+        platform_variation_id: '174001',
+      });
+      await service.deductStock(7, 2, {
+        ...metadata,
+        platform_variation_id: '174002',
+      });
+      await service.deductStock(7, 2, {
+        ...metadata,
+        platform_variation_id: '174002',
+      });
+
+      expect(db.claims.size).toBe(2);
+      expect(db.products.get(7).stock).toBe(7);
+    });
+
+    it('libera la línea si el movimiento falla, para poder reintentarla', async () => {
+      costingService.consume.mockRejectedValueOnce(
+        new Error('conexión perdida'),
+      );
+
+      await expect(service.deductStock(7, 2, metadata)).rejects.toThrow(
+        'conexión perdida',
+      );
+      expect(db.claims.size).toBe(0);
+      expect(db.products.get(7).stock).toBe(10);
+      expect(db.history).toHaveLength(0);
+
+      await service.deductStock(7, 2, metadata);
+      await service.deductStock(7, 2, metadata);
+
+      expect(db.claims.size).toBe(1);
+      expect(db.products.get(7).stock).toBe(8);
+      expect(db.history).toHaveLength(1);
+    });
+
+    it('rechaza el descuento sin stock disponible, sin escribir nada', async () => {
+      // 10 en BODEGA, 2 apartadas por otras órdenes sin pago
+      stockReservationService.getReservedByOthers.mockResolvedValue(2);
+
+      await expect(service.deductStock(7, 9, metadata)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(stockReservationService.getReservedByOthers).toHaveBeenCalledWith(
+        expect.objectContaining({ product_id: 7 }),
+        key,
+      );
+      expect(stockLedgerService.claimDeduction).not.toHaveBeenCalled();
+      expect(db.claims.size).toBe(0);
+      expect(db.products.get(7).stock).toBe(10);
+      expect(db.history).toHaveLength(0);
+
+      await service.deductStock(7, 8, metadata);
+      expect(db.products.get(7).stock).toBe(2);
+    });
+
+    it('sin línea de orden descuenta en cada llamada', async () => {
+      const manual = {
+        change_type: 'manual' as const,
+        changed_by: 'admin',
+        change_reason: 'Merma',
+      };
+
+      await service.deductStock(7, 1, manual);
+      await service.deductStock(7, 1, manual);
+
+      expect(stockLedgerService.claimDeduction).not.toHaveBeenCalled();
+      expect(db.products.get(7).stock).toBe(8);
+    });
+  });
+});
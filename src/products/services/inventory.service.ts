@@ -1,22 +1,45 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
 import { Product } from '../entities/product.entity';
 import { ProductHistory } from '../entities/product-history.entity';
 import { ProductMapping } from '../entities/product-mapping.entity';
+import { StockLocation, StockLocationCode } from '../entities/stock-location.entity';
+import { ProductStockLocation } from '../entities/product-stock-location.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import { StockLedgerKey, StockLedgerService } from './stock-ledger.service';
+import { StockPushService } from './stock-push.service';
+import { StockReservationService } from './stock-reservation.service';
+import { CostingService } from './costing.service';
 
 interface StockChangeMetadata {
   platform_id?: number;
   platform_order_id?: string;
+  platform_item_id?: string; // Con platform_id y platform_order_id: descuento idempotente
+  platform_variation_id?: string; // Variación de la línea ('' por defecto)
+  location?: StockLocationCode; // Ubicación del movimiento (BODEGA por defecto)
+  kit_product_id?: number; // Movimiento de un componente por la venta de un kit
   adjustment_amount?: number;
-  change_type: 'manual' | 'order' | 'adjustment' | 'import';
+  change_type: 'manual' | 'order' | 'adjustment' | 'import' | 'return' | 'write_off' | 'transfer';
   changed_by: string;
   change_reason: string;
+  unit_cost?: number; // Costo neto de las unidades que entran (ej. compras)
   metadata?: any;
 }
 
+export interface StockTransferResult {
+  product_id: number;
+  from_location: StockLocationCode;
+  to_location: StockLocationCode;
+  quantity: number;
+  from_quantity: number; // Stock en origen después de transferir
+  to_quantity: number; // Stock en destino después de transferir
+}
+
 @Injectable()
 export class InventoryService {
+  private readonly locationCache = new Map<StockLocationCode, StockLocation>();
+
   constructor(
     @InjectRepository(Product)
     private productRepository: Repository<Product>,
@@ -24,6 +47,17 @@ export class InventoryService {
     private historyRepository: Repository<ProductHistory>,
     @InjectRepository(ProductMapping)
     private mappingRepository: Repository<ProductMapping>,
+    @InjectRepository(StockLocation)
+    private locationRepository: Repository<StockLocation>,
+    @InjectRepository(ProductStockLocation)
+    private productLocationRepository: Repository<ProductStockLocation>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+    private stockLedgerService: StockLedgerService,
+    private stockPushService: StockPushService,
+    private stockReservationService: StockReservationService,
+    private costingService: CostingService,
+    private dataSource: DataSource,
   ) {}
 
   /**
@@ -58,37 +92,87 @@ export class InventoryService {
 
   /**
    * Descontar stock de un producto
+   * Si la metadata identifica la línea de orden (plataforma, orden, ítem),
+   * la línea descuenta una sola vez aunque se llame varias veces. La
+   * reserva en el ledger y el movimiento van en la misma transacción: si
+   * el movimiento falla, la línea queda libre para reintentarse.
+   * El producto queda bloqueado mientras se valida el disponible: dos
+   * descuentos concurrentes no toman las mismas unidades
+   *
+   * @param manager - Transacción del llamador (si no, se abre una)
+   * @throws BadRequestException si la ubicación no tiene stock disponible
+   *   (antes de escribir nada: la transacción del llamador sigue usable)
    */
   async deductStock(
     productId: number,
     quantity: number,
     metadata: StockChangeMetadata,
+    manager?: EntityManager,
   ): Promise<Product> {
-    const product = await this.productRepository.findOne({
-      where: { product_id: productId },
-    });
+    return this.transaction(manager, async (manager) => {
+      const product = await this.lockProduct(productId, manager);
+      const key = this.getLedgerKey(metadata);
 
-    if (!product) {
-      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
-    }
+      if (key && (await this.stockLedgerService.findEntry(key, manager))) {
+        // Línea ya descontada (o restaurada): no volver a descontar
+        return product;
+      }
 
-    const oldStock = product.stock;
-    const newStock = oldStock - quantity;
+      const location = metadata.location || StockLocationCode.BODEGA;
+      const available = await this.getAvailableQuantity(product, location, key, manager);
+      if (available < quantity) {
+        throw new BadRequestException(
+          `Stock insuficiente de ${product.internal_sku} en ${location}: disponible ${available}, solicitado ${quantity}`,
+        );
+      }
 
-    product.stock = newStock;
-    await this.productRepository.save(product);
+      if (key) {
+        const claimed = await this.stockLedgerService.claimDeduction(
+          key,
+          productId,
+          quantity,
+          manager,
+        );
 
-    // Registrar en historial
-    await this.recordChange(
-      productId,
-      'stock',
-      oldStock.toString(),
-      newStock.toString(),
-      -quantity,
-      metadata,
-    );
+        if (!claimed) {
+          // Línea ya descontada: no volver a descontar
+          return product;
+        }
+      }
 
-    return product;
+      return this.applyStockChange(product, -quantity, metadata, manager);
+    });
+  }
+
+  /**
+   * Restaurar lo descontado por una línea de orden (cancelación)
+   * Liberar el ledger y devolver el stock van en la misma transacción
+   *
+   * @param legacyQuantity - Ver StockLedgerService.releaseDeduction
+   * @returns Unidades restauradas (0 si no había nada que restaurar)
+   */
+  async restoreDeduction(
+    key: StockLedgerKey,
+    productId: number,
+    legacyQuantity: number,
+    metadata: StockChangeMetadata,
+    manager?: EntityManager,
+  ): Promise<number> {
+    return this.transaction(manager, async (manager) => {
+      const restored = await this.stockLedgerService.releaseDeduction(
+        key,
+        productId,
+        legacyQuantity,
+        manager,
+      );
+
+      if (restored > 0) {
+        const product = await this.requireProduct(productId, manager);
+        await this.applyStockChange(product, restored, metadata, manager);
+      }
+
+      return restored;
+    });
   }
 
   /**
@@ -98,34 +182,337 @@ export class InventoryService {
     productId: number,
     quantity: number,
     metadata: StockChangeMetadata,
+    manager?: EntityManager,
   ): Promise<Product> {
-    const product = await this.productRepository.findOne({
+    return this.transaction(manager, async (manager) => {
+      const product = await this.requireProduct(productId, manager);
+      return this.applyStockChange(product, quantity, metadata, manager);
+    });
+  }
+
+  /**
+   * Ajustar (+/-) el stock de un producto en una ubicación
+   * No permite dejar la ubicación con stock negativo
+   */
+  async adjustStock(
+    productId: number,
+    adjustment: number,
+    metadata: StockChangeMetadata,
+    manager?: EntityManager,
+  ): Promise<Product> {
+    return this.transaction(manager, async (manager) => {
+      const product = await this.requireProduct(productId, manager);
+      await this.assertNotKit(productId, manager);
+
+      const location = metadata.location || StockLocationCode.BODEGA;
+      const current = await this.getLocationQuantity(productId, location, manager);
+      if (current + adjustment < 0) {
+        throw new BadRequestException(
+          `El stock no puede ser negativo. Stock en ${location}: ${current}, Ajuste: ${adjustment}`,
+        );
+      }
+
+      return this.applyStockChange(product, adjustment, metadata, manager);
+    });
+  }
+
+  /**
+   * Fijar el stock de una ubicación (ej. sincronización con Full)
+   * Registra la diferencia como movimiento; sin diferencia no hace nada
+   */
+  async setLocationStock(
+    productId: number,
+    quantity: number,
+    metadata: StockChangeMetadata & { location: StockLocationCode },
+    manager?: EntityManager,
+  ): Promise<Product> {
+    return this.transaction(manager, async (manager) => {
+      const product = await this.requireProduct(productId, manager);
+      await this.assertNotKit(productId, manager);
+
+      const current = await this.getLocationQuantity(productId, metadata.location, manager);
+      if (current === quantity) {
+        return product;
+      }
+
+      return this.applyStockChange(product, quantity - current, metadata, manager);
+    });
+  }
+
+  /**
+   * Mover unidades entre ubicaciones
+   * El stock total no cambia; queda historial en ambas ubicaciones
+   */
+  async transferStock(
+    productId: number,
+    from: StockLocationCode,
+    to: StockLocationCode,
+    quantity: number,
+    metadata: Pick<StockChangeMetadata, 'changed_by' | 'change_reason'>,
+    manager?: EntityManager,
+  ): Promise<StockTransferResult> {
+    if (from === to) {
+      throw new BadRequestException('La ubicación de origen y destino deben ser distintas');
+    }
+
+    return this.transaction(manager, async (manager) => {
+      await this.requireProduct(productId, manager);
+      await this.assertNotKit(productId, manager);
+
+      const source = await this.getLocation(from);
+      const target = await this.getLocation(to);
+
+      // Descuento condicional: falla si el origen no tiene stock suficiente
+      const result = await manager.query(
+        `UPDATE product_stock_locations
+         SET quantity = quantity - $3, updated_at = NOW()
+         WHERE product_id = $1 AND location_id = $2 AND quantity >= $3
+         RETURNING quantity`,
+        [productId, source.location_id, quantity],
+      );
+      const rows: { quantity: number }[] = Array.isArray(result[0]) ? result[0] : result;
+
+      if (rows.length === 0) {
+        const available = await this.getLocationQuantity(productId, from, manager);
+        throw new BadRequestException(
+          `Stock insuficiente en ${from}. Disponible: ${available}, Solicitado: ${quantity}`,
+        );
+      }
+
+      const fromQuantity = Number(rows[0].quantity);
+      const toQuantity = await this.changeLocationQuantity(
+        productId,
+        target.location_id,
+        quantity,
+        manager,
+      );
+
+      const transfer = {
+        ...metadata,
+        change_type: 'transfer' as const,
+        metadata: { from_location: from, to_location: to, quantity },
+      };
+      await this.recordChange(
+        productId,
+        'location_stock',
+        String(fromQuantity + quantity),
+        String(fromQuantity),
+        -quantity,
+        { ...transfer, location: from },
+        manager,
+      );
+      await this.recordChange(
+        productId,
+        'location_stock',
+        String(toQuantity - quantity),
+        String(toQuantity),
+        quantity,
+        { ...transfer, location: to },
+        manager,
+      );
+
+      return {
+        product_id: productId,
+        from_location: from,
+        to_location: to,
+        quantity,
+        from_quantity: fromQuantity,
+        to_quantity: toQuantity,
+      };
+    });
+  }
+
+  /**
+   * Stock del producto por ubicación
+   */
+  async getStockByLocation(productId: number): Promise<ProductStockLocation[]> {
+    return await this.productLocationRepository.find({
       where: { product_id: productId },
+      order: { location_id: 'ASC' },
     });
+  }
 
-    if (!product) {
-      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+  /**
+   * Stock de un producto en una ubicación
+   * Para un kit: kits armables con el componente más escaso
+   */
+  async getLocationQuantity(
+    productId: number,
+    code: StockLocationCode,
+    manager: EntityManager = this.productLocationRepository.manager,
+  ): Promise<number> {
+    const components = await this.getComponents(productId, manager);
+    if (components.length > 0) {
+      let kits = Number.MAX_SAFE_INTEGER;
+      for (const component of components) {
+        const quantity = await this.getLocationQuantity(
+          component.component_product_id,
+          code,
+          manager,
+        );
+        kits = Math.min(kits, Math.floor(quantity / component.quantity));
+      }
+      return Math.max(kits, 0);
+    }
+
+    const location = await this.getLocation(code);
+    const row = await manager.getRepository(ProductStockLocation).findOne({
+      where: { product_id: productId, location_id: location.location_id },
+    });
+
+    return row?.quantity || 0;
+  }
+
+  /**
+   * Stock de la ubicación que puede tomar una línea de orden: lo físico
+   * menos lo apartado por otras órdenes sin pago (las reservas no incluyen Full)
+   *
+   * @param key - Línea que descuenta: su propia reserva no se resta
+   */
+  async getAvailableQuantity(
+    product: Product,
+    code: StockLocationCode,
+    key?: StockLedgerKey | null,
+    manager: EntityManager = this.productLocationRepository.manager,
+  ): Promise<number> {
+    const onHand = await this.getLocationQuantity(product.product_id, code, manager);
+    if (code === StockLocationCode.FULL) {
+      return onHand;
+    }
+
+    return onHand - (await this.stockReservationService.getReservedByOthers(product, key || undefined));
+  }
+
+  async getLocation(code: StockLocationCode): Promise<StockLocation> {
+    const cached = this.locationCache.get(code);
+    if (cached) {
+      return cached;
+    }
+
+    const location = await this.locationRepository.findOne({ where: { code } });
+    if (!location) {
+      throw new NotFoundException(`Ubicación de stock ${code} no encontrada`);
+    }
+
+    this.locationCache.set(code, location);
+    return location;
+  }
+
+  /**
+   * Componentes de un kit (vacío si el producto no es kit)
+   */
+  async getComponents(
+    productId: number,
+    manager: EntityManager = this.componentRepository.manager,
+  ): Promise<ProductComponent[]> {
+    return await manager.getRepository(ProductComponent).find({
+      where: { kit_product_id: productId },
+    });
+  }
+
+  private async assertNotKit(productId: number, manager: EntityManager): Promise<void> {
+    if ((await this.getComponents(productId, manager)).length > 0) {
+      throw new BadRequestException(
+        'Los kits no tienen stock propio: ajuste el stock de sus componentes',
+      );
+    }
+  }
+
+  /**
+   * Aplicar un movimiento al total del producto y a su ubicación
+   * Un kit mueve el stock de cada componente (cantidad * unidades por kit)
+   */
+  private async applyStockChange(
+    product: Product,
+    delta: number,
+    metadata: StockChangeMetadata,
+    manager: EntityManager,
+  ): Promise<Product> {
+    const components = await this.getComponents(product.product_id, manager);
+    if (components.length > 0) {
+      for (const component of components) {
+        await this.applyStockChange(
+          component.component,
+          delta * component.quantity,
+          {
+            ...metadata,
+            kit_product_id: product.product_id,
+            metadata: {
+              ...metadata.metadata,
+              kit_sku: product.internal_sku,
+              kit_quantity: Math.abs(delta),
+            },
+          },
+          manager,
+        );
+      }
+      this.stockPushService.schedule(product.product_id);
+      return product;
     }
 
-    const oldStock = product.stock;
-    const newStock = oldStock + quantity;
+    const location = await this.getLocation(metadata.location || StockLocationCode.BODEGA);
+    await this.changeLocationQuantity(product.product_id, location.location_id, delta, manager);
+
+    // Incremento atómico: products.stock sigue siendo la suma de las ubicaciones
+    // aunque otras ventas muevan el mismo producto. La fila queda bloqueada
+    // hasta el fin de la transacción (el costo se recalcula sobre este stock)
+    const result = await manager.query(
+      `UPDATE products SET stock = stock + $2 WHERE product_id = $1 RETURNING stock, cost`,
+      [product.product_id, delta],
+    );
+    const rows: { stock: number; cost: number | null }[] = Array.isArray(result[0]) ? result[0] : result;
+
+    const newStock = Number(rows[0].stock);
+    const oldStock = newStock - delta;
 
     product.stock = newStock;
-    await this.productRepository.save(product);
+    product.cost = rows[0].cost;
+    this.stockPushService.schedule(product.product_id);
+
+    // Entradas crean un lote de costo; salidas guardan su costo (cogs)
+    const costing =
+      delta > 0
+        ? { unit_cost: await this.costingService.recordReceipt(product, delta, metadata, manager) }
+        : delta < 0
+          ? { cogs: await this.costingService.consume(product, -delta, manager) }
+          : {};
 
     // Registrar en historial
     await this.recordChange(
-      productId,
+      product.product_id,
       'stock',
       oldStock.toString(),
       newStock.toString(),
-      quantity,
-      metadata,
+      delta,
+      { ...metadata, location: location.code, metadata: { ...metadata.metadata, ...costing } },
+      manager,
     );
 
     return product;
   }
 
+  /**
+   * Sumar (o restar) unidades a una ubicación, creando la fila si no existe
+   * @returns Stock resultante en la ubicación
+   */
+  private async changeLocationQuantity(
+    productId: number,
+    locationId: number,
+    delta: number,
+    manager: EntityManager,
+  ): Promise<number> {
+    const result = await manager.query(
+      `INSERT INTO product_stock_locations (product_id, location_id, quantity)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (product_id, location_id)
+       DO UPDATE SET quantity = product_stock_locations.quantity + EXCLUDED.quantity, updated_at = NOW()
+       RETURNING quantity`,
+      [productId, locationId, delta],
+    );
+
+    return Number(result[0]?.quantity) || 0;
+  }
+
   /**
    * Validar disponibilidad de stock
    */
@@ -154,8 +541,10 @@ export class InventoryService {
     newValue: string,
     adjustmentAmount: number | null,
     metadata: StockChangeMetadata,
+    manager: EntityManager = this.historyRepository.manager,
   ): Promise<ProductHistory> {
-    const historyEntry = this.historyRepository.create({
+    const historyRepository = manager.getRepository(ProductHistory);
+    const historyEntry = historyRepository.create({
       product_id: productId,
       field_name: fieldName,
       old_value: oldValue,
@@ -166,9 +555,79 @@ export class InventoryService {
       platform_id: metadata.platform_id,
       platform_order_id: metadata.platform_order_id,
       adjustment_amount: adjustmentAmount,
+      location_id: metadata.location
+        ? (await this.getLocation(metadata.location)).location_id
+        : null,
+      kit_product_id: metadata.kit_product_id ?? null,
       metadata: metadata.metadata,
     });
 
-    return await this.historyRepository.save(historyEntry);
+    return await historyRepository.save(historyEntry);
+  }
+
+  /**
+   * Ejecutar en la transacción del llamador o en una nueva
+   */
+  private async transaction<T>(
+    manager: EntityManager | undefined,
+    work: (manager: EntityManager) => Promise<T>,
+  ): Promise<T> {
+    return manager ? work(manager) : this.dataSource.transaction(work);
+  }
+
+  private async requireProduct(productId: number, manager: EntityManager): Promise<Product> {
+    const product = await manager.getRepository(Product).findOne({
+      where: { product_id: productId },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+    }
+
+    return product;
+  }
+
+  /**
+   * Producto bloqueado hasta el fin de la transacción; un kit bloquea
+   * también sus componentes (en orden de ID), que son los que tienen stock
+   */
+  private async lockProduct(productId: number, manager: EntityManager): Promise<Product> {
+    const product = await manager.getRepository(Product).findOne({
+      where: { product_id: productId },
+      lock: { mode: 'pessimistic_write' },
+      loadEagerRelations: false,
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+    }
+
+    const components = await this.getComponents(productId, manager);
+    if (components.length > 0) {
+      await manager.getRepository(Product).find({
+        where: { product_id: In(components.map((c) => c.component_product_id)) },
+        order: { product_id: 'ASC' },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+    }
+
+    return product;
+  }
+
+  /**
+   * Línea de orden de la metadata (null si no la identifica completa)
+   */
+  private getLedgerKey(metadata: StockChangeMetadata): StockLedgerKey | null {
+    if (!metadata.platform_id || !metadata.platform_order_id || !metadata.platform_item_id) {
+      return null;
+    }
+
+    return {
+      platform_id: metadata.platform_id,
+      platform_order_id: metadata.platform_order_id,
+      platform_item_id: metadata.platform_item_id,
+      platform_variation_id: metadata.platform_variation_id || '',
+    };
   }
 }
@@ -1,7 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { ProductHistory } from '../entities/product-history.entity';
+import { GetHistoryFilterDto, PaginatedHistoryDto } from '../dto/get-history-filter.dto';
 
 export interface CreateHistoryDto {
   product_id: number;
@@ -58,6 +59,51 @@ export class ProductHistoryService {
     });
   }
 
+  /**
+   * Historial filtrado y paginado (más reciente primero)
+   */
+  async findByFilters(filter: GetHistoryFilterDto): Promise<PaginatedHistoryDto> {
+    const limit = filter.limit || 50;
+    const offset = filter.offset || 0;
+    const qb = this.historyRepository
+      .createQueryBuilder('history')
+      .leftJoinAndSelect('history.product', 'product')
+      .leftJoinAndSelect('history.platform', 'platform')
+      .orderBy('history.created_at', 'DESC')
+      .addOrderBy('history.history_id', 'DESC')
+      .skip(offset)
+      .take(limit);
+
+    if (filter.product_id) {
+      qb.andWhere('history.product_id = :productId', { productId: filter.product_id });
+    }
+    if (filter.change_type) {
+      qb.andWhere('history.change_type = :changeType', { changeType: filter.change_type });
+    }
+    if (filter.platform_id) {
+      qb.andWhere('history.platform_id = :platformId', { platformId: filter.platform_id });
+    }
+    if (filter.changed_by) {
+      qb.andWhere('history.changed_by = :changedBy', { changedBy: filter.changed_by });
+    }
+    if (filter.date_from) {
+      qb.andWhere('history.created_at >= :dateFrom', { dateFrom: new Date(filter.date_from) });
+    }
+    if (filter.date_to) {
+      // Solo fecha: hasta el final de ese día
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filter.date_to)) {
+        const dayAfter = new Date(filter.date_to);
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+        qb.andWhere('history.created_at < :dateTo', { dateTo: dayAfter });
+      } else {
+        qb.andWhere('history.created_at <= :dateTo', { dateTo: new Date(filter.date_to) });
+      }
+    }
+
+    const [results, total] = await qb.getManyAndCount();
+    return { results, paging: { total, limit, offset } };
+  }
+
   /**
    * Obtener historial por tipo de cambio
    */
@@ -75,16 +121,21 @@ export class ProductHistoryService {
 
   /**
    * Registrar múltiples cambios en una transacción
+   * @param manager - Transacción del llamador (ej. la importación)
    */
-  async createMany(changes: CreateHistoryDto[]): Promise<ProductHistory[]> {
+  async createMany(
+    changes: CreateHistoryDto[],
+    manager: EntityManager = this.historyRepository.manager,
+  ): Promise<ProductHistory[]> {
+    const historyRepository = manager.getRepository(ProductHistory);
     const histories = changes.map((data) =>
-      this.historyRepository.create({
+      historyRepository.create({
         ...data,
         changed_by: data.changed_by || 'Sistema',
         change_type: data.change_type || 'manual',
       }),
     );
 
-    return await this.historyRepository.save(histories);
+    return await historyRepository.save(histories);
   }
 }
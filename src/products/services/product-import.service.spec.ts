@@ -0,0 +1,217 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { ProductImportService } from './product-import.service';
+import { ProductSheetService } from './product-sheet.service';
+import { ProductHistoryService } from './product-history.service';
+import { InventoryService } from './inventory.service';
+import { Product } from '../entities/product.entity';
+import { Category } from '../entities/category.entity';
+import { Platform } from '../entities/platform.entity';
+import { SecondarySku } from '../entities/secondary-sku.entity';
+import { ProductMapping } from '../entities/product-mapping.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import { ProductSheetRow } from '../dto/product-import.dto';
+
+describe('ProductImportService', () => {
+  const file = {
+    buffer: Buffer.from('planilla'),
+    originalname: 'productos.csv',
+  } as Express.Multer.File;
+
+  let service: ProductImportService;
+  let sheetRows: ProductSheetRow[];
+  let inventoryService: {
+    getLocationQuantity: jest.Mock;
+    adjustStock: jest.Mock;
+  };
+  let transaction: jest.Mock;
+  let manager: { getRepository: () => unknown };
+
+  beforeEach(async () => {
+    const products = [
+      {
+        product_id: 1,
+        internal_sku: 'POL-001',
+        name: 'Polera',
+        stock: 8,
+        cost: 1000,
+        lead_time_days: 7,
+        safety_stock: 2,
+        category: { platform_id: 10 },
+        secondarySkus: [],
+      },
+      {
+        product_id: 2,
+        internal_sku: 'KIT-001',
+        name: 'Pack',
+        stock: 0,
+        category: { platform_id: 10 },
+        secondarySkus: [],
+      },
+    ];
+    const kits = {
+      select: () => kits,
+      getRawMany: async () => [{ kit_product_id: 2 }],
+    };
+
+    inventoryService = {
+      // POL-001: 5 en BODEGA y 3 en Full
+      getLocationQuantity: jest.fn(async () => 5),
+      adjustStock: jest.fn(),
+    };
+    manager = {
+      // Stock actual de POL-001 al aplicar: cambió desde la validación
+      getRepository: () => ({
+        findOne: async () => ({ product_id: 1, stock: 6 }),
+      }),
+    };
+    transaction = jest.fn((work) => work(manager));
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductImportService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: { find: async () => products },
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: { find: async () => [{ platform_id: 10 }] },
+        },
+        {
+          provide: getRepositoryToken(Platform),
+          useValue: {
+            find: async () => [{ platform_id: 1 }, { platform_id: 2 }],
+          },
+        },
+        { provide: getRepositoryToken(SecondarySku), useValue: {} },
+        {
+          provide: getRepositoryToken(ProductMapping),
+          useValue: {
+            find: async () => [
+              { platform_id: 1, platform_sku: 'MLC999', product_id: 2 },
+            ],
+          },
+        },
+        {
+          provide: getRepositoryToken(ProductComponent),
+          useValue: { createQueryBuilder: () => kits },
+        },
+        {
+          provide: ProductSheetService,
+          useValue: { read: async () => sheetRows },
+        },
+        { provide: ProductHistoryService, useValue: { createMany: jest.fn() } },
+        { provide: InventoryService, useValue: inventoryService },
+        { provide: DataSource, useValue: { transaction } },
+      ],
+    }).compile();
+
+    service = module.get(ProductImportService);
+  });
+
+  it('muestra la vista previa sin aplicar cambios', async () => {
+    sheetRows = [
+      { internal_sku: 'POL-001', name: 'Polera', stock: '8' },
+      {
+        internal_sku: 'POL-002',
+        name: 'Polera blanca',
+        category_id: '10',
+        cost: '1234,50',
+        mappings: '1:MLC200',
+      },
+      { internal_sku: 'KIT-001', cost: '1100' },
+    ];
+
+    const result = await service.import(file, {
+      changed_by: 'admin',
+      dry_run: true,
+    });
+
+    expect(result).toMatchObject({
+      dry_run: true,
+      committed: false,
+      error_rows: 0,
+      created: 1,
+      updated: 1,
+      unchanged: 1,
+    });
+    expect(result.rows.map((r) => [r.row, r.action, r.changes])).toEqual([
+      [2, 'unchanged', []],
+      [3, 'create', ['name', 'category_id', 'cost', 'mappings']],
+      [4, 'update', ['cost']],
+    ]);
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('reporta los errores de cada fila', async () => {
+    sheetRows = [
+      { name: 'Sin SKU' },
+      { internal_sku: 'NEW-1' },
+      { internal_sku: 'NEW-2', name: 'Gorro', category_id: '99' },
+      { internal_sku: 'POL-001', stock: '2' },
+      { internal_sku: 'KIT-001', stock: '3' },
+      {
+        internal_sku: 'NEW-3',
+        name: 'Bufanda',
+        category_id: '10',
+        lead_time_days: '-1',
+        secondary_skus: '1:MLC300:0',
+        mappings: '1:MLC999',
+      },
+      { internal_sku: 'NEW-3', name: 'Bufanda' },
+    ];
+
+    const result = await service.import(file, {
+      changed_by: 'admin',
+      dry_run: true,
+    });
+
+    expect(result.error_rows).toBe(7);
+    expect(result.rows.map((r) => r.errors)).toEqual([
+      ['internal_sku es obligatorio'],
+      [
+        'name es obligatorio para productos nuevos',
+        'category_id es obligatorio para productos nuevos',
+      ],
+      ['La categoría 99 no existe (indique category_name para crearla)'],
+      ['stock 2 es menor que el stock fuera de BODEGA (3)'],
+      ['Los kits no tienen stock propio: deje stock vacío'],
+      [
+        'lead_time_days debe ser un entero mayor o igual a 0 (recibido "-1")',
+        'SKU secundario inválido "1:MLC300:0" (formato platform_id:sku[:unidades])',
+        'El SKU MLC999 ya está mapeado a otro producto en la plataforma 1',
+      ],
+      ['internal_sku NEW-3 está repetido en la planilla'],
+    ]);
+    expect(result.rows.every((r) => r.action === null)).toBe(true);
+  });
+
+  it('no importa nada si alguna fila tiene errores', async () => {
+    sheetRows = [
+      { internal_sku: 'POL-001', stock: '10' },
+      { internal_sku: 'NEW-1' },
+    ];
+
+    await expect(service.import(file, { changed_by: 'admin' })).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('ajusta el stock contra el valor actual del producto', async () => {
+    sheetRows = [{ internal_sku: 'POL-001', stock: '10' }];
+
+    const result = await service.import(file, { changed_by: 'admin' });
+
+    expect(result.committed).toBe(true);
+    expect(inventoryService.adjustStock).toHaveBeenCalledWith(
+      1,
+      4,
+      expect.objectContaining({ change_type: 'import', changed_by: 'admin' }),
+      manager,
+    );
+  });
+});
@@ -0,0 +1,667 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Product } from '../entities/product.entity';
+import { Category } from '../entities/category.entity';
+import { Platform } from '../entities/platform.entity';
+import { SecondarySku } from '../entities/secondary-sku.entity';
+import { ProductMapping } from '../entities/product-mapping.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import { StockLocationCode } from '../entities/stock-location.entity';
+import { InventoryService } from './inventory.service';
+import {
+  CreateHistoryDto,
+  ProductHistoryService,
+} from './product-history.service';
+import { ProductSheetService } from './product-sheet.service';
+import {
+  ImportProductsDto,
+  ImportProductsResultDto,
+  ImportRowResultDto,
+  ProductSheetFormat,
+  ProductSheetRow,
+} from '../dto/product-import.dto';
+
+const IMPORT_REASON = 'Importación de productos';
+
+interface SecondarySkuInput {
+  platform_id: number;
+  secondary_sku: string;
+  stock_quantity: number;
+}
+
+/**
+ * Cambios validados de una fila, listos para aplicar
+ */
+interface RowPlan {
+  result: ImportRowResultDto;
+  product: Product | null; // null = producto nuevo
+  internal_sku: string;
+  fields: Partial<
+    Pick<Product, 'name' | 'cost' | 'lead_time_days' | 'safety_stock'>
+  >;
+  category: { platform_id: number; platform_name?: string } | null; // platform_name: crear
+  stock: number | null; // Stock total final (se ajusta la diferencia en BODEGA)
+  secondarySkus: SecondarySkuInput[] | null; // Reemplaza los actuales
+  mappings: { platform_id: number; platform_sku: string }[]; // Mapeos nuevos
+}
+
+/**
+ * Datos cargados una vez por importación
+ */
+interface ImportLookups {
+  productsBySku: Map<string, Product>;
+  categories: Map<number, Category>;
+  platforms: Set<number>;
+  mappings: Map<string, number>; // Key: "platform_id:platform_sku" -> product_id
+  kitIds: Set<number>;
+}
+
+/**
+ * Importación y exportación masiva de productos
+ *
+ * Upsert por internal_sku: las celdas vacías no cambian nada. Primero se
+ * valida toda la planilla; si alguna fila tiene errores no se aplica
+ * ninguna, y las filas válidas se aplican en una sola transacción. Los
+ * cambios quedan en product_history con change_type 'import'.
+ */
+@Injectable()
+export class ProductImportService {
+  private readonly logger = new Logger(ProductImportService.name);
+
+  constructor(
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    @InjectRepository(Category)
+    private categoryRepository: Repository<Category>,
+    @InjectRepository(Platform)
+    private platformRepository: Repository<Platform>,
+    @InjectRepository(SecondarySku)
+    private secondarySkuRepository: Repository<SecondarySku>,
+    @InjectRepository(ProductMapping)
+    private mappingRepository: Repository<ProductMapping>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+    private productSheetService: ProductSheetService,
+    private productHistoryService: ProductHistoryService,
+    private inventoryService: InventoryService,
+    private dataSource: DataSource,
+  ) {}
+
+  async import(
+    file: Express.Multer.File,
+    dto: ImportProductsDto,
+  ): Promise<ImportProductsResultDto> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(
+        'Debe adjuntar un archivo CSV o XLSX (campo file)',
+      );
+    }
+
+    const rows = await this.productSheetService.read(
+      file.buffer,
+      this.getFormat(file),
+    );
+    if (rows.length === 0) {
+      throw new BadRequestException('La planilla no tiene filas');
+    }
+
+    const lookups = await this.loadLookups();
+    const plans: RowPlan[] = [];
+    const seenSkus = new Set<string>();
+    for (const [index, row] of rows.entries()) {
+      plans.push(await this.planRow(row, index + 2, lookups, seenSkus));
+    }
+
+    const results = plans.map((plan) => plan.result);
+    const errorRows = results.filter((r) => r.errors.length > 0).length;
+    const summary: ImportProductsResultDto = {
+      dry_run: !!dto.dry_run,
+      committed: false,
+      total_rows: results.length,
+      error_rows: errorRows,
+      created: results.filter((r) => r.action === 'create').length,
+      updated: results.filter((r) => r.action === 'update').length,
+      unchanged: results.filter((r) => r.action === 'unchanged').length,
+      rows: results,
+    };
+
+    if (dto.dry_run) {
+      return summary;
+    }
+    if (errorRows > 0) {
+      throw new BadRequestException({
+        message: `La planilla tiene ${errorRows} filas con errores; no se importó nada`,
+        ...summary,
+      });
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const createdCategories = new Set<number>();
+      for (const plan of plans.filter((p) => p.result.action !== 'unchanged')) {
+        await this.applyPlan(plan, dto.changed_by, createdCategories, manager);
+      }
+    });
+
+    this.logger.log(
+      `Product import by ${dto.changed_by}: ${summary.created} created, ${summary.updated} updated`,
+    );
+    return { ...summary, committed: true };
+  }
+
+  /**
+   * Planilla con todos los productos en el formato de importación
+   */
+  async export(format: ProductSheetFormat): Promise<Buffer> {
+    const products = await this.productRepository.find({
+      relations: ['category', 'secondarySkus', 'secondarySkus.platform'],
+      order: { internal_sku: 'ASC' },
+    });
+    const mappings = await this.mappingRepository.find({
+      where: { is_active: true },
+      order: { platform_id: 'ASC', platform_sku: 'ASC' },
+    });
+    const kitIds = await this.getKitIds();
+
+    const rows: ProductSheetRow[] = products.map((product) => ({
+      internal_sku: product.internal_sku,
+      name: product.name,
+      category_id: product.category ? String(product.category.platform_id) : '',
+      category_name: product.category?.platform_name ?? '',
+      // Los kits no tienen stock propio
+      stock: kitIds.has(product.product_id) ? '' : String(product.stock),
+      cost:
+        product.cost === null || product.cost === undefined
+          ? ''
+          : String(Number(product.cost)),
+      lead_time_days: String(product.lead_time_days ?? ''),
+      safety_stock: String(product.safety_stock ?? ''),
+      secondary_skus: this.formatSecondarySkus(
+        (product.secondarySkus || []).map((s) => ({
+          platform_id: s.platform?.platform_id,
+          secondary_sku: s.secondary_sku,
+          stock_quantity: s.stock_quantity,
+        })),
+      ),
+      mappings: mappings
+        .filter((m) => m.product_id === product.product_id)
+        .map((m) => `${m.platform_id}:${m.platform_sku}`)
+        .join('|'),
+    }));
+
+    return this.productSheetService.write(rows, format);
+  }
+
+  private async planRow(
+    row: ProductSheetRow,
+    rowNumber: number,
+    lookups: ImportLookups,
+    seenSkus: Set<string>,
+  ): Promise<RowPlan> {
+    const sku = row.internal_sku || '';
+    const errors: string[] = [];
+    const changes: string[] = [];
+    const product = lookups.productsBySku.get(sku) || null;
+    const plan: RowPlan = {
+      result: {
+        row: rowNumber,
+        internal_sku: sku,
+        action: null,
+        changes,
+        errors,
+      },
+      product,
+      internal_sku: sku,
+      fields: {},
+      category: null,
+      stock: null,
+      secondarySkus: null,
+      mappings: [],
+    };
+
+    if (!sku) {
+      errors.push('internal_sku es obligatorio');
+      return plan;
+    }
+    if (seenSkus.has(sku)) {
+      errors.push(`internal_sku ${sku} está repetido en la planilla`);
+      return plan;
+    }
+    seenSkus.add(sku);
+
+    // Nombre
+    if (row.name) {
+      if (row.name !== product?.name) {
+        plan.fields.name = row.name;
+        changes.push('name');
+      }
+    } else if (!product) {
+      errors.push('name es obligatorio para productos nuevos');
+    }
+
+    // Categoría
+    if (row.category_id) {
+      const categoryId = this.parseInteger(
+        row.category_id,
+        'category_id',
+        errors,
+      );
+      if (categoryId !== null) {
+        if (lookups.categories.has(categoryId)) {
+          if (product?.category?.platform_id !== categoryId) {
+            plan.category = { platform_id: categoryId };
+            changes.push('category_id');
+          }
+        } else if (row.category_name) {
+          plan.category = {
+            platform_id: categoryId,
+            platform_name: row.category_name,
+          };
+          changes.push('category_id');
+        } else {
+          errors.push(
+            `La categoría ${categoryId} no existe (indique category_name para crearla)`,
+          );
+        }
+      }
+    } else if (!product) {
+      errors.push('category_id es obligatorio para productos nuevos');
+    }
+
+    // Costo, reposición y stock de seguridad
+    if (row.cost) {
+      const cost = this.parseDecimal(row.cost, 'cost', errors);
+      if (
+        cost !== null &&
+        cost !== (product?.cost == null ? null : Number(product.cost))
+      ) {
+        plan.fields.cost = cost;
+        changes.push('cost');
+      }
+    }
+    for (const field of ['lead_time_days', 'safety_stock'] as const) {
+      if (row[field]) {
+        const value = this.parseInteger(row[field], field, errors);
+        if (value !== null && value !== product?.[field]) {
+          plan.fields[field] = value;
+          changes.push(field);
+        }
+      }
+    }
+
+    // Stock total: la diferencia se ajusta en BODEGA
+    if (row.stock) {
+      const stock = this.parseInteger(row.stock, 'stock', errors);
+      if (stock !== null && product && lookups.kitIds.has(product.product_id)) {
+        errors.push('Los kits no tienen stock propio: deje stock vacío');
+      } else if (stock !== null && stock !== (product?.stock ?? 0)) {
+        if (product) {
+          const delta = stock - product.stock;
+          const bodega = await this.inventoryService.getLocationQuantity(
+            product.product_id,
+            StockLocationCode.BODEGA,
+          );
+          if (bodega + delta < 0) {
+            errors.push(
+              `stock ${stock} es menor que el stock fuera de BODEGA (${product.stock - bodega})`,
+            );
+          }
+        }
+        plan.stock = stock;
+        changes.push('stock');
+      }
+    }
+
+    // SKUs secundarios (reemplazan a los actuales)
+    if (row.secondary_skus) {
+      const secondarySkus = this.parseSecondarySkus(
+        row.secondary_skus,
+        lookups,
+        errors,
+      );
+      const current = this.formatSecondarySkus(
+        (product?.secondarySkus || []).map((s) => ({
+          platform_id: s.platform?.platform_id,
+          secondary_sku: s.secondary_sku,
+          stock_quantity: s.stock_quantity,
+        })),
+      );
+      if (
+        secondarySkus &&
+        this.formatSecondarySkus(secondarySkus) !== current
+      ) {
+        plan.secondarySkus = secondarySkus;
+        changes.push('secondary_skus');
+      }
+    }
+
+    // Mapeos (se agregan; los existentes se mantienen)
+    if (row.mappings) {
+      for (const entry of row.mappings
+        .split('|')
+        .map((e) => e.trim())
+        .filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const platformId = Number(entry.slice(0, separator));
+        const platformSku = entry.slice(separator + 1).trim();
+        if (separator < 0 || !Number.isInteger(platformId) || !platformSku) {
+          errors.push(
+            `Mapeo inválido "${entry}" (formato platform_id:platform_sku)`,
+          );
+          continue;
+        }
+        if (!lookups.platforms.has(platformId)) {
+          errors.push(`La plataforma ${platformId} no existe`);
+          continue;
+        }
+
+        const key = `${platformId}:${platformSku}`;
+        const mappedTo = lookups.mappings.get(key);
+        if (mappedTo === undefined) {
+          plan.mappings.push({
+            platform_id: platformId,
+            platform_sku: platformSku,
+          });
+          // Reservar el SKU para detectar repetidos en filas siguientes
+          lookups.mappings.set(key, product?.product_id ?? -rowNumber);
+        } else if (mappedTo !== (product?.product_id ?? -rowNumber)) {
+          errors.push(
+            `El SKU ${platformSku} ya está mapeado a otro producto en la plataforma ${platformId}`,
+          );
+        }
+      }
+      if (plan.mappings.length > 0) {
+        changes.push('mappings');
+      }
+    }
+
+    if (errors.length === 0) {
+      plan.result.action = !product
+        ? 'create'
+        : changes.length > 0
+          ? 'update'
+          : 'unchanged';
+    }
+    return plan;
+  }
+
+  private async applyPlan(
+    plan: RowPlan,
+    changedBy: string,
+    createdCategories: Set<number>,
+    manager: EntityManager,
+  ): Promise<void> {
+    const productRepository = manager.getRepository(Product);
+    const secondarySkuRepository = manager.getRepository(SecondarySku);
+    const mappingRepository = manager.getRepository(ProductMapping);
+
+    if (
+      plan.category?.platform_name &&
+      !createdCategories.has(plan.category.platform_id)
+    ) {
+      await manager.getRepository(Category).save({
+        platform_id: plan.category.platform_id,
+        platform_name: plan.category.platform_name,
+      });
+      createdCategories.add(plan.category.platform_id);
+    }
+
+    const category = plan.category
+      ? { platform_id: plan.category.platform_id }
+      : undefined;
+    const history: CreateHistoryDto[] = [];
+    let productId: number;
+
+    if (!plan.product) {
+      const created = await productRepository.save(
+        productRepository.create({
+          internal_sku: plan.internal_sku,
+          stock: 0,
+          ...plan.fields,
+          category: category as Category,
+        }),
+      );
+      productId = created.product_id;
+      history.push({
+        product_id: productId,
+        field_name: 'created',
+        old_value: 'false',
+        new_value: 'true',
+      });
+    } else {
+      productId = plan.product.product_id;
+      for (const [field, value] of Object.entries(plan.fields)) {
+        history.push({
+          product_id: productId,
+          field_name: field,
+          old_value:
+            plan.product[field] == null ? null : String(plan.product[field]),
+          new_value: String(value),
+        });
+      }
+      if (category) {
+        history.push({
+          product_id: productId,
+          field_name: 'category_id',
+          old_value: plan.product.category
+            ? String(plan.product.category.platform_id)
+            : null,
+          new_value: String(category.platform_id),
+        });
+      }
+      if (Object.keys(plan.fields).length > 0 || category) {
+        await productRepository.save({
+          product_id: productId,
+          ...plan.fields,
+          ...(category ? { category: category as Category } : {}),
+        });
+      }
+    }
+
+    if (plan.secondarySkus) {
+      await secondarySkuRepository.delete({
+        product: { product_id: productId },
+      });
+      await secondarySkuRepository.save(
+        plan.secondarySkus.map((s) =>
+          secondarySkuRepository.create({
+            secondary_sku: s.secondary_sku,
+            stock_quantity: s.stock_quantity,
+            product: { product_id: productId } as Product,
+            platform: { platform_id: s.platform_id } as Platform,
+          }),
+        ),
+      );
+      if (plan.product) {
+        history.push({
+          product_id: productId,
+          field_name: 'secondary_skus',
+          old_value: this.formatSecondarySkus(
+            (plan.product.secondarySkus || []).map((s) => ({
+              platform_id: s.platform?.platform_id,
+              secondary_sku: s.secondary_sku,
+              stock_quantity: s.stock_quantity,
+            })),
+          ),
+          new_value: this.formatSecondarySkus(plan.secondarySkus),
+        });
+      }
+    }
+
+    for (const mapping of plan.mappings) {
+      await mappingRepository.save(
+        mappingRepository.create({
+          ...mapping,
+          product_id: productId,
+          created_by: changedBy,
+        }),
+      );
+    }
+
+    if (history.length > 0) {
+      await this.productHistoryService.createMany(
+        history.map((entry) => ({
+          ...entry,
+          changed_by: changedBy,
+          change_type: 'import',
+          change_reason: IMPORT_REASON,
+        })),
+        manager,
+      );
+    }
+
+    if (plan.stock !== null) {
+      // Diferencia con el stock actual, no con el leído al validar: las
+      // ventas pueden haberlo cambiado. El bloqueo lo mantiene hasta el commit
+      const { stock } = await productRepository.findOne({
+        select: ['product_id', 'stock'],
+        where: { product_id: productId },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+      const delta = plan.stock - stock;
+      if (delta !== 0) {
+        await this.inventoryService.adjustStock(
+          productId,
+          delta,
+          {
+            change_type: 'import',
+            changed_by: changedBy,
+            change_reason: IMPORT_REASON,
+          },
+          manager,
+        );
+      }
+    }
+  }
+
+  private async loadLookups(): Promise<ImportLookups> {
+    const products = await this.productRepository.find({
+      relations: ['category', 'secondarySkus', 'secondarySkus.platform'],
+    });
+    const categories = await this.categoryRepository.find();
+    const platforms = await this.platformRepository.find();
+    const mappings = await this.mappingRepository.find();
+
+    return {
+      productsBySku: new Map(products.map((p) => [p.internal_sku, p])),
+      categories: new Map(categories.map((c) => [c.platform_id, c])),
+      platforms: new Set(platforms.map((p) => p.platform_id)),
+      mappings: new Map(
+        mappings.map((m) => [
+          `${m.platform_id}:${m.platform_sku}`,
+          m.product_id,
+        ]),
+      ),
+      kitIds: await this.getKitIds(),
+    };
+  }
+
+  private async getKitIds(): Promise<Set<number>> {
+    const rows = await this.componentRepository
+      .createQueryBuilder('component')
+      .select('DISTINCT component.kit_product_id', 'kit_product_id')
+      .getRawMany();
+
+    return new Set(rows.map((row) => Number(row.kit_product_id)));
+  }
+
+  /**
+   * "platform_id:sku[:unidades]" separados por "|"
+   */
+  private parseSecondarySkus(
+    value: string,
+    lookups: ImportLookups,
+    errors: string[],
+  ): SecondarySkuInput[] | null {
+    const parsed: SecondarySkuInput[] = [];
+    const errorCount = errors.length;
+
+    for (const entry of value
+      .split('|')
+      .map((e) => e.trim())
+      .filter(Boolean)) {
+      const [platform, sku, units] = entry
+        .split(':')
+        .map((part) => part.trim());
+      const platformId = Number(platform);
+      const stockQuantity = units ? Number(units) : 1;
+
+      if (
+        !sku ||
+        !Number.isInteger(platformId) ||
+        !Number.isInteger(stockQuantity) ||
+        stockQuantity < 1
+      ) {
+        errors.push(
+          `SKU secundario inválido "${entry}" (formato platform_id:sku[:unidades])`,
+        );
+      } else if (!lookups.platforms.has(platformId)) {
+        errors.push(`La plataforma ${platformId} no existe`);
+      } else {
+        parsed.push({
+          platform_id: platformId,
+          secondary_sku: sku,
+          stock_quantity: stockQuantity,
+        });
+      }
+    }
+
+    return errors.length > errorCount ? null : parsed;
+  }
+
+  private formatSecondarySkus(
+    secondarySkus: {
+      platform_id?: number;
+      secondary_sku: string;
+      stock_quantity: number;
+    }[],
+  ): string {
+    return secondarySkus
+      .map(
+        (s) => `${s.platform_id ?? ''}:${s.secondary_sku}:${s.stock_quantity}`,
+      )
+      .sort()
+      .join('|');
+  }
+
+  private parseInteger(
+    value: string,
+    field: string,
+    errors: string[],
+  ): number | null {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      errors.push(
+        `${field} debe ser un entero mayor o igual a 0 (recibido "${value}")`,
+      );
+      return null;
+    }
+    return parsed;
+  }
+
+  /**
+   * Acepta coma decimal (ej. "1234,50")
+   */
+  private parseDecimal(
+    value: string,
+    field: string,
+    errors: string[],
+  ): number | null {
+    const parsed = Number(value.replace(',', '.'));
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      errors.push(
+        `${field} debe ser un número mayor o igual a 0 (recibido "${value}")`,
+      );
+      return null;
+    }
+    return Math.round(parsed * 100) / 100;
+  }
+
+  private getFormat(file: Express.Multer.File): ProductSheetFormat {
+    const name = (file.originalname || '').toLowerCase();
+    return name.endsWith('.xlsx') || file.mimetype?.includes('spreadsheetml')
+      ? ProductSheetFormat.XLSX
+      : ProductSheetFormat.CSV;
+  }
+}
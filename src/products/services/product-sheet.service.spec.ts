@@ -0,0 +1,79 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProductSheetService } from './product-sheet.service';
+import { ProductSheetFormat, ProductSheetRow } from '../dto/product-import.dto';
+
+describe('ProductSheetService', () => {
+  const service = new ProductSheetService();
+
+  const rows: ProductSheetRow[] = [
+    {
+      internal_sku: 'POL-001',
+      name: 'Polera "básica", negra',
+      category_id: '10',
+      category_name: '',
+      stock: '12',
+      cost: '4990.5',
+      lead_time_days: '7',
+      safety_stock: '2',
+      secondary_skus: '1:MLC123:2|2:FAL-9',
+      mappings: '1:MLC123',
+    },
+    {
+      internal_sku: 'KIT-002',
+      name: 'Pack ñandú; 2 unidades',
+      category_id: '10',
+      category_name: '',
+      stock: '',
+      cost: '',
+      lead_time_days: '',
+      safety_stock: '',
+      secondary_skus: '',
+      mappings: '',
+    },
+  ];
+
+  it.each([ProductSheetFormat.CSV, ProductSheetFormat.XLSX])(
+    'lee lo que escribe en %s',
+    async (format) => {
+      const buffer = await service.write(rows, format);
+
+      expect(await service.read(buffer, format)).toEqual(rows);
+    },
+  );
+
+  it('exporta el CSV con BOM para Excel', async () => {
+    const buffer = await service.write(rows, ProductSheetFormat.CSV);
+
+    expect(buffer.toString('utf8').startsWith('\uFEFFinternal_sku,')).toBe(
+      true,
+    );
+  });
+
+  it('acepta ";" como separador y solo las columnas conocidas', async () => {
+    const csv = [
+      'Internal_SKU;Name;Color;Stock',
+      'POL-001;"Polera; negra";rojo; 5 ',
+      ';;;',
+      'POL-002;Polera blanca',
+    ].join('\n');
+
+    const read = await service.read(Buffer.from(csv), ProductSheetFormat.CSV);
+
+    expect(read).toEqual([
+      { internal_sku: 'POL-001', name: 'Polera; negra', stock: '5' },
+      { internal_sku: 'POL-002', name: 'Polera blanca', stock: '' },
+    ]);
+  });
+
+  it('exige la columna internal_sku', async () => {
+    await expect(
+      service.read(Buffer.from('sku,name\nA,B'), ProductSheetFormat.CSV),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rechaza un XLSX inválido', async () => {
+    await expect(
+      service.read(Buffer.from('no es xlsx'), ProductSheetFormat.XLSX),
+    ).rejects.toThrow('El archivo XLSX no es válido');
+  });
+});
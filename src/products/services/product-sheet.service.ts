@@ -0,0 +1,158 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import {
+  PRODUCT_SHEET_COLUMNS,
+  ProductSheetFormat,
+  ProductSheetRow,
+} from '../dto/product-import.dto';
+
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Lectura y escritura de planillas de productos (CSV y XLSX)
+ *
+ * El CSV acepta "," o ";" como separador (Excel en español usa ";") y se
+ * exporta con BOM para que Excel lo abra en UTF-8.
+ */
+@Injectable()
+export class ProductSheetService {
+  /**
+   * Filas de la planilla con las columnas conocidas (encabezado en la fila 1)
+   */
+  async read(
+    buffer: Buffer,
+    format: ProductSheetFormat,
+  ): Promise<ProductSheetRow[]> {
+    const table =
+      format === ProductSheetFormat.XLSX
+        ? await this.readXlsx(buffer)
+        : this.parseCsv(buffer.toString('utf8'));
+
+    const [header, ...rows] = table;
+    const columns = (header || []).map((name) => name.trim().toLowerCase());
+    if (!columns.includes('internal_sku')) {
+      throw new BadRequestException(
+        'La planilla debe tener encabezado con la columna internal_sku',
+      );
+    }
+
+    return rows.map((cells) => {
+      const row: ProductSheetRow = {};
+      columns.forEach((column, index) => {
+        if ((PRODUCT_SHEET_COLUMNS as readonly string[]).includes(column)) {
+          row[column] = (cells[index] ?? '').trim();
+        }
+      });
+      return row;
+    });
+  }
+
+  async write(
+    rows: ProductSheetRow[],
+    format: ProductSheetFormat,
+  ): Promise<Buffer> {
+    if (format === ProductSheetFormat.XLSX) {
+      const workbook = new Workbook();
+      const sheet = workbook.addWorksheet('Productos');
+      sheet.columns = PRODUCT_SHEET_COLUMNS.map((column) => ({
+        header: column,
+        key: column,
+        width: Math.max(column.length + 2, 14),
+      }));
+      sheet.addRows(rows);
+      sheet.getRow(1).font = { bold: true };
+
+      return Buffer.from(await workbook.xlsx.writeBuffer());
+    }
+
+    const lines = [
+      PRODUCT_SHEET_COLUMNS.join(','),
+      ...rows.map((row) =>
+        PRODUCT_SHEET_COLUMNS.map((column) =>
+          this.escapeCsv(row[column] ?? ''),
+        ).join(','),
+      ),
+    ];
+    return Buffer.from(UTF8_BOM + lines.join('\r\n') + '\r\n', 'utf8');
+  }
+
+  private async readXlsx(buffer: Buffer): Promise<string[][]> {
+    const workbook = new Workbook();
+    try {
+      await workbook.xlsx.load(buffer);
+    } catch {
+      throw new BadRequestException('El archivo XLSX no es válido');
+    }
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    const table: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push(row.getCell(col).text ?? '');
+      }
+      table.push(cells);
+    });
+    return table;
+  }
+
+  /**
+   * CSV con comillas dobles (RFC 4180); se ignoran las líneas vacías
+   */
+  private parseCsv(content: string): string[][] {
+    const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter =
+      firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+    const table: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        table.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      table.push(row);
+    }
+
+    return table.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\r\n;]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Product } from '../entities/product.entity';
+import { ProductHistory } from '../entities/product-history.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import {
+  GetReorderSuggestionsQueryDto,
+  ReorderSuggestionRowDto,
+  ReorderSuggestionsResponseDto,
+} from '../dto/reorder-suggestions.dto';
+
+/**
+ * Sugerencias de compra
+ *
+ * La velocidad de venta sale de los movimientos de stock por órdenes
+ * (product_history, change_type 'order') de todas las plataformas; las
+ * devoluciones que vuelven al stock (change_type 'return') restan. La venta de un kit se registra en sus componentes,
+ * así que los kits no aparecen: se compran sus componentes.
+ */
+@Injectable()
+export class ReorderService {
+  constructor(
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    @InjectRepository(ProductHistory)
+    private historyRepository: Repository<ProductHistory>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+  ) {}
+
+  async getSuggestions(
+    query: GetReorderSuggestionsQueryDto,
+  ): Promise<ReorderSuggestionsResponseDto> {
+    const days = query.days || 30;
+    const targetDays = query.target_days || 30;
+
+    const soldByProduct = await this.getUnitsSoldByProduct(days);
+    const kitIds = new Set(
+      (
+        await this.componentRepository
+          .createQueryBuilder('component')
+          .select('DISTINCT component.kit_product_id', 'kit_product_id')
+          .getRawMany()
+      ).map((row) => Number(row.kit_product_id)),
+    );
+    const products = await this.productRepository.find();
+
+    const rows: ReorderSuggestionRowDto[] = [];
+    for (const product of products) {
+      if (kitIds.has(product.product_id)) {
+        continue;
+      }
+
+      const unitsSold = Math.max(soldByProduct.get(product.product_id) || 0, 0);
+      const dailyVelocity = unitsSold / days;
+      const available = product.stock - (product.reserved_stock || 0);
+      const leadTime = product.lead_time_days ?? 0;
+      const safetyStock = product.safety_stock ?? 0;
+
+      const reorderPoint = Math.ceil(dailyVelocity * leadTime) + safetyStock;
+      const needsReorder =
+        available <= reorderPoint && (unitsSold > 0 || safetyStock > 0);
+      const suggested = needsReorder
+        ? Math.max(
+            0,
+            Math.ceil(dailyVelocity * (leadTime + targetDays)) +
+              safetyStock -
+              available,
+          )
+        : 0;
+
+      if (query.only_needed && !needsReorder) {
+        continue;
+      }
+
+      rows.push({
+        product_id: product.product_id,
+        internal_sku: product.internal_sku,
+        name: product.name,
+        stock: product.stock,
+        available,
+        units_sold: unitsSold,
+        daily_velocity: Math.round(dailyVelocity * 100) / 100,
+        days_of_cover:
+          dailyVelocity > 0
+            ? Math.round((Math.max(available, 0) / dailyVelocity) * 10) / 10
+            : null,
+        lead_time_days: leadTime,
+        safety_stock: safetyStock,
+        reorder_point: reorderPoint,
+        suggested_quantity: suggested,
+        needs_reorder: needsReorder,
+      });
+    }
+
+    // Primero los que se quedan antes sin stock
+    rows.sort(
+      (a, b) =>
+        (a.days_of_cover ?? Number.MAX_VALUE) -
+          (b.days_of_cover ?? Number.MAX_VALUE) ||
+        b.suggested_quantity - a.suggested_quantity,
+    );
+
+    return { days, target_days: targetDays, products: rows };
+  }
+
+  /**
+   * Unidades netas descontadas por órdenes en la ventana
+   * (descuentos negativos; restauraciones por cancelación y devoluciones
+   * positivas)
+   */
+  private async getUnitsSoldByProduct(
+    days: number,
+  ): Promise<Map<number, number>> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60_000);
+    const rows = await this.historyRepository
+      .createQueryBuilder('history')
+      .select('history.product_id', 'product_id')
+      .addSelect('-SUM(history.adjustment_amount)', 'quantity')
+      .where('history.change_type IN (:...changeTypes)', {
+        changeTypes: ['order', 'return'],
+      })
+      .andWhere('history.field_name = :field', { field: 'stock' })
+      .andWhere('history.adjustment_amount IS NOT NULL')
+      .andWhere('history.created_at >= :since', { since })
+      .groupBy('history.product_id')
+      .getRawMany();
+
+    return new Map(
+      rows.map((row) => [Number(row.product_id), Number(row.quantity) || 0]),
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  StockLedgerEntry,
+  StockLedgerStatus,
+} from '../entities/stock-ledger-entry.entity';
+
+/**
+ * Clave de una línea de orden en una plataforma
+ */
+export interface StockLedgerKey {
+  platform_id: number;
+  platform_order_id: string;
+  platform_item_id: string;
+  platform_variation_id: string; // '' si la línea no tiene variación
+}
+
+@Injectable()
+export class StockLedgerService {
+  constructor(
+    @InjectRepository(StockLedgerEntry)
+    private ledgerRepository: Repository<StockLedgerEntry>,
+  ) {}
+
+  async findEntry(
+    key: StockLedgerKey,
+    manager: EntityManager = this.ledgerRepository.manager,
+  ): Promise<StockLedgerEntry | null> {
+    return await manager
+      .getRepository(StockLedgerEntry)
+      .findOne({ where: { ...key } });
+  }
+
+  /**
+   * Si alguna variación de la publicación ya tiene registro en la orden
+   */
+  async hasItemEntries(key: StockLedgerKey): Promise<boolean> {
+    return await this.ledgerRepository.exists({
+      where: {
+        platform_id: key.platform_id,
+        platform_order_id: key.platform_order_id,
+        platform_item_id: key.platform_item_id,
+      },
+    });
+  }
+
+  /**
+   * Reservar el descuento de una línea de orden
+   * El índice único hace que solo la primera llamada inserte
+   *
+   * @param manager - Transacción del movimiento de stock: si se revierte,
+   *   la línea vuelve a quedar libre
+   * @returns true si esta llamada debe descontar el stock
+   */
+  async claimDeduction(
+    key: StockLedgerKey,
+    productId: number,
+    quantity: number,
+    manager: EntityManager = this.ledgerRepository.manager,
+  ): Promise<boolean> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(StockLedgerEntry)
+      .values({
+        ...key,
+        product_id: productId,
+        quantity_deducted: quantity,
+        status: StockLedgerStatus.DEDUCTED,
+      })
+      .orIgnore()
+      .execute();
+
+    // ON CONFLICT DO NOTHING: sin filas devueltas si la línea ya existía
+    return result.raw?.length > 0;
+  }
+
+  /**
+   * Liberar el descuento de una línea de orden (cancelación)
+   * Solo la primera llamada devuelve la cantidad a restaurar
+   *
+   * @param legacyQuantity - Cantidad descontada antes de existir el ledger
+   *   (según product_audits); se usa si la línea no tiene registro
+   * @returns Unidades a restaurar (0 si no se descontó o ya se restauró)
+   */
+  async releaseDeduction(
+    key: StockLedgerKey,
+    productId: number,
+    legacyQuantity = 0,
+    manager: EntityManager = this.ledgerRepository.manager,
+  ): Promise<number> {
+    const result = await manager
+      .createQueryBuilder()
+      .update(StockLedgerEntry)
+      .set({
+        status: StockLedgerStatus.RESTORED,
+        quantity_restored: () => 'quantity_deducted',
+      })
+      .where('platform_id = :platform_id', key)
+      .andWhere('platform_order_id = :platform_order_id', key)
+      .andWhere('platform_item_id = :platform_item_id', key)
+      .andWhere('platform_variation_id = :platform_variation_id', key)
+      .andWhere('status = :status', { status: StockLedgerStatus.DEDUCTED })
+      .returning(['quantity_deducted'])
+      .execute();
+
+    if (result.affected > 0) {
+      return Number(result.raw[0]?.quantity_deducted) || 0;
+    }
+
+    if (legacyQuantity <= 0) {
+      return 0;
+    }
+
+    // Línea descontada antes del ledger: registrarla ya restaurada
+    const inserted = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(StockLedgerEntry)
+      .values({
+        ...key,
+        product_id: productId,
+        quantity_deducted: legacyQuantity,
+        quantity_restored: legacyQuantity,
+        status: StockLedgerStatus.RESTORED,
+      })
+      .orIgnore()
+      .execute();
+
+    return inserted.raw?.length > 0 ? legacyQuantity : 0;
+  }
+}
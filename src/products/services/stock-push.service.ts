@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Product } from '../entities/product.entity';
+import { ProductMapping } from '../entities/product-mapping.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import { ProductStockLocation } from '../entities/product-stock-location.entity';
+import { StockLocationCode } from '../entities/stock-location.entity';
+import {
+  StockSyncLog,
+  StockSyncStatus,
+} from '../entities/stock-sync-log.entity';
+import { MlListing } from '../../mercadolibre/entities/ml-listing.entity';
+import { Session } from '../../auth/entities/session.entity';
+import { PlatformConnectorRegistry } from '../../connectors/platform-connector.registry';
+import { MERCADO_LIBRE_PLATFORM_ID } from '../platforms/platform.constants';
+
+/**
+ * Espera tras el último cambio antes de enviar (agrupa ráfagas de ventas)
+ */
+const DEFAULT_DEBOUNCE_MS = 5_000;
+
+/**
+ * IDs de publicación de ML (MLC123456789); otros SKUs mapeados se ignoran
+ */
+const ML_ITEM_ID_PATTERN = /^ML[A-Z]\d+$/;
+
+interface PushTarget {
+  platform_id: number;
+  item_id: string;
+  pack_quantity: number;
+}
+
+/**
+ * Envío del stock disponible a las publicaciones de cada plataforma
+ *
+ * InventoryService y StockReservationService avisan cada cambio con
+ * schedule(); el envío se agrupa por producto. Cada publicación recibe
+ * floor(disponible / stock_quantity del pack) a través del conector de su
+ * plataforma. Las publicaciones Full se omiten: ML administra su stock.
+ */
+@Injectable()
+export class StockPushService implements OnModuleDestroy {
+  private readonly logger = new Logger(StockPushService.name);
+  private readonly debounceMs: number;
+  private readonly enabled: boolean;
+  private readonly timers = new Map<number, NodeJS.Timeout>();
+
+  constructor(
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    @InjectRepository(ProductMapping)
+    private mappingRepository: Repository<ProductMapping>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+    @InjectRepository(ProductStockLocation)
+    private productLocationRepository: Repository<ProductStockLocation>,
+    @InjectRepository(StockSyncLog)
+    private syncLogRepository: Repository<StockSyncLog>,
+    @InjectRepository(MlListing)
+    private listingRepository: Repository<MlListing>,
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    private connectorRegistry: PlatformConnectorRegistry,
+    configService: ConfigService,
+  ) {
+    this.debounceMs =
+      Number(configService.get('STOCK_PUSH_DEBOUNCE_MS')) ||
+      DEFAULT_DEBOUNCE_MS;
+    // Permite apagar el envío automático (ej. entornos de desarrollo)
+    this.enabled = configService.get('STOCK_PUSH_ENABLED') !== 'false';
+  }
+
+  onModuleDestroy(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Programar el envío del stock de un producto (con debounce)
+   */
+  schedule(productId: number): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const pending = this.timers.get(productId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.timers.set(
+      productId,
+      setTimeout(() => {
+        this.timers.delete(productId);
+        this.pushProduct(productId, 'auto').catch((error) =>
+          this.logger.error(
+            `Stock push for product ${productId} failed: ${error.message}`,
+          ),
+        );
+      }, this.debounceMs),
+    );
+  }
+
+  /**
+   * Enviar ahora el stock disponible a todas las publicaciones del producto
+   */
+  async pushProduct(
+    productId: number,
+    trigger: 'auto' | 'manual' = 'manual',
+  ): Promise<StockSyncLog[]> {
+    const product = await this.productRepository.findOne({
+      where: { product_id: productId },
+      relations: ['secondarySkus', 'secondarySkus.platform'],
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+    }
+
+    const sellable = await this.getSellableStock(product);
+    const logs: StockSyncLog[] = [];
+
+    for (const target of await this.getTargets(product)) {
+      const quantity = Math.max(0, Math.floor(sellable / target.pack_quantity));
+      const log = this.syncLogRepository.create({
+        product_id: productId,
+        platform_id: target.platform_id,
+        platform_item_id: target.item_id,
+        quantity,
+        pack_quantity: target.pack_quantity,
+        trigger,
+        error_message: null,
+      });
+
+      await this.pushTarget(target, quantity, log);
+      logs.push(await this.syncLogRepository.save(log));
+    }
+
+    this.logger.log(
+      `Product ${productId}: pushed ${sellable} sellable units to ${logs.length} listings (${trigger})`,
+    );
+
+    // Los kits que usan este producto cambian de disponibilidad
+    const kits = await this.componentRepository.find({
+      where: { component_product_id: productId },
+    });
+    kits.forEach((kit) => this.schedule(kit.kit_product_id));
+
+    return logs;
+  }
+
+  /**
+   * Enviar a una publicación y dejar el resultado en el log
+   */
+  private async pushTarget(
+    target: PushTarget,
+    quantity: number,
+    log: StockSyncLog,
+  ): Promise<void> {
+    const connector = this.connectorRegistry.get(target.platform_id);
+    let accountId: number | undefined;
+
+    if (target.platform_id === MERCADO_LIBRE_PLATFORM_ID) {
+      const listing = await this.listingRepository.findOne({
+        where: { item_id: target.item_id },
+      });
+
+      if (listing?.logistic_type === 'fulfillment') {
+        log.status = StockSyncStatus.SKIPPED;
+        log.error_message =
+          'Publicación Full: el stock lo administra Mercado Libre';
+        return;
+      }
+
+      accountId = listing?.seller_id ?? (await this.getDefaultSellerId());
+      if (!accountId) {
+        log.status = StockSyncStatus.SKIPPED;
+        log.error_message =
+          'No se pudo determinar el vendedor de la publicación';
+        return;
+      }
+    }
+
+    if (!connector) {
+      log.status = StockSyncStatus.SKIPPED;
+      log.error_message = `La plataforma ${target.platform_id} no tiene conector`;
+      return;
+    }
+
+    try {
+      await connector.pushStock(target.item_id, quantity, accountId);
+      log.status = StockSyncStatus.SUCCESS;
+    } catch (error) {
+      log.status = StockSyncStatus.FAILED;
+      log.error_message = error.message;
+    }
+  }
+
+  /**
+   * Stock vendible fuera de Full: total - Full - reservado
+   * Un kit vende lo que permita su componente más escaso
+   */
+  private async getSellableStock(product: Product): Promise<number> {
+    const components = await this.componentRepository.find({
+      where: { kit_product_id: product.product_id },
+    });
+    if (components.length > 0) {
+      let kits = Number.MAX_SAFE_INTEGER;
+      for (const component of components) {
+        const sellable = await this.getSellableStock(component.component);
+        kits = Math.min(kits, Math.floor(sellable / component.quantity));
+      }
+      return kits;
+    }
+
+    const full = await this.productLocationRepository.findOne({
+      where: {
+        product_id: product.product_id,
+        location: { code: StockLocationCode.FULL },
+      },
+    });
+
+    return Math.max(
+      0,
+      product.stock - (full?.quantity || 0) - (product.reserved_stock || 0),
+    );
+  }
+
+  /**
+   * Publicaciones del producto: SKUs secundarios de ML y mapeos activos
+   * (en ML solo los que son IDs de publicación)
+   */
+  private async getTargets(product: Product): Promise<PushTarget[]> {
+    const targets = new Map<string, PushTarget>();
+
+    for (const secondary of product.secondarySkus || []) {
+      if (
+        secondary.platform?.platform_id !== MERCADO_LIBRE_PLATFORM_ID ||
+        !ML_ITEM_ID_PATTERN.test(secondary.secondary_sku)
+      ) {
+        continue;
+      }
+
+      targets.set(`${MERCADO_LIBRE_PLATFORM_ID}:${secondary.secondary_sku}`, {
+        platform_id: MERCADO_LIBRE_PLATFORM_ID,
+        item_id: secondary.secondary_sku,
+        pack_quantity: secondary.stock_quantity || 1,
+      });
+    }
+
+    const mappings = await this.mappingRepository.find({
+      where: {
+        product_id: product.product_id,
+        is_active: true,
+      },
+    });
+    for (const mapping of mappings) {
+      const key = `${mapping.platform_id}:${mapping.platform_sku}`;
+      if (
+        (mapping.platform_id === MERCADO_LIBRE_PLATFORM_ID &&
+          !ML_ITEM_ID_PATTERN.test(mapping.platform_sku)) ||
+        targets.has(key)
+      ) {
+        continue;
+      }
+
+      targets.set(key, {
+        platform_id: mapping.platform_id,
+        item_id: mapping.platform_sku,
+        pack_quantity: 1,
+      });
+    }
+
+    return [...targets.values()];
+  }
+
+  /**
+   * Con una sola cuenta conectada, las publicaciones sin ml_listings son suyas
+   */
+  private async getDefaultSellerId(): Promise<number | null> {
+    const sessions = await this.sessionRepository.find({ take: 2 });
+    return sessions.length === 1 ? Number(sessions[0].user_id) : null;
+  }
+}
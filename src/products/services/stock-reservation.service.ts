@@ -0,0 +1,333 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  DataSource,
+  EntityManager,
+  In,
+  LessThan,
+  Repository,
+} from 'typeorm';
+import { Product } from '../entities/product.entity';
+import { ProductComponent } from '../entities/product-component.entity';
+import {
+  StockReservation,
+  StockReservationStatus,
+} from '../entities/stock-reservation.entity';
+import { StockLedgerKey } from './stock-ledger.service';
+import { StockPushService } from './stock-push.service';
+
+/**
+ * Vigencia de la reserva si la orden no trae expiration_date
+ */
+const DEFAULT_RESERVATION_TTL_HOURS = 24;
+
+const DEFAULT_EXPIRY_INTERVAL_MS = 60_000;
+
+/**
+ * Stock disponible de un producto
+ */
+export interface StockAvailability {
+  on_hand: number; // Stock físico
+  reserved: number; // Apartado por órdenes sin pago
+  available: number; // on_hand - reserved
+}
+
+/**
+ * Reservas de stock para órdenes sin pago aprobado
+ *
+ * Una orden pendiente de pago aparta unidades (products.reserved_stock);
+ * al aprobarse el pago la reserva se convierte (el descuento lo hace
+ * InventoryService) y al cancelarse o vencer se libera.
+ */
+@Injectable()
+export class StockReservationService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(StockReservationService.name);
+  private readonly expiryIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(StockReservation)
+    private reservationRepository: Repository<StockReservation>,
+    @InjectRepository(ProductComponent)
+    private componentRepository: Repository<ProductComponent>,
+    private stockPushService: StockPushService,
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.expiryIntervalMs =
+      Number(configService.get('STOCK_RESERVATION_EXPIRY_INTERVAL_MS')) ||
+      DEFAULT_EXPIRY_INTERVAL_MS;
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () =>
+        this.expireDue().catch((error) =>
+          this.logger.error(`Reservation expiry failed: ${error.message}`),
+        ),
+      this.expiryIntervalMs,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Para un kit se calcula con el componente más escaso
+   */
+  async getAvailability(product: Product): Promise<StockAvailability> {
+    const components = await this.componentRepository.find({
+      where: { kit_product_id: product.product_id },
+    });
+
+    if (components.length === 0) {
+      const reserved = product.reserved_stock || 0;
+      return {
+        on_hand: product.stock,
+        reserved,
+        available: product.stock - reserved,
+      };
+    }
+
+    const onHand = Math.min(
+      ...components.map((c) => Math.floor(c.component.stock / c.quantity)),
+    );
+    const available = Math.min(
+      ...components.map((c) =>
+        Math.floor(
+          (c.component.stock - (c.component.reserved_stock || 0)) / c.quantity,
+        ),
+      ),
+    );
+
+    return { on_hand: onHand, reserved: onHand - available, available };
+  }
+
+  /**
+   * Unidades apartadas del producto por otras líneas de orden
+   * La reserva de `key` no cuenta: es la que se convierte al descontar
+   */
+  async getReservedByOthers(
+    product: Product,
+    key?: StockLedgerKey,
+  ): Promise<number> {
+    const { reserved } = await this.getAvailability(product);
+    if (!key) {
+      return reserved;
+    }
+
+    const own = await this.reservationRepository.findOne({
+      where: { ...key, status: StockReservationStatus.ACTIVE },
+    });
+    return Math.max(reserved - (own?.quantity || 0), 0);
+  }
+
+  /**
+   * Reservar unidades para una línea de orden pendiente de pago
+   * El índice único evita reservar dos veces la misma línea. La reserva y
+   * products.reserved_stock se escriben en la misma transacción, con los
+   * productos bloqueados; no se reserva más que el disponible.
+   *
+   * @returns true si se creó la reserva
+   * @throws BadRequestException si no hay stock disponible para reservar
+   */
+  async reserve(
+    key: StockLedgerKey,
+    productId: number,
+    quantity: number,
+    expiresAt?: Date | null,
+    manager?: EntityManager,
+  ): Promise<boolean> {
+    return this.transaction(manager, async (manager) => {
+      const targets = await this.getTargets(productId, quantity, manager);
+      const products = await manager.getRepository(Product).find({
+        where: { product_id: In(targets.map((t) => t.productId)) },
+        order: { product_id: 'ASC' },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const result = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(StockReservation)
+        .values({
+          ...key,
+          product_id: productId,
+          quantity,
+          status: StockReservationStatus.ACTIVE,
+          expires_at:
+            expiresAt ||
+            new Date(Date.now() + DEFAULT_RESERVATION_TTL_HOURS * 3_600_000),
+        })
+        .orIgnore()
+        .execute();
+
+      if (!(result.raw?.length > 0)) {
+        return false;
+      }
+
+      for (const target of targets) {
+        const product = products.find(
+          (p) => p.product_id === target.productId,
+        );
+        const available = product
+          ? product.stock - (product.reserved_stock || 0)
+          : 0;
+        if (target.delta > available) {
+          throw new BadRequestException(
+            `Stock insuficiente para reservar ${target.delta} unidades de ${product?.internal_sku ?? target.productId}: disponible ${available}`,
+          );
+        }
+      }
+
+      await this.changeReserved(targets, manager);
+      return true;
+    });
+  }
+
+  /**
+   * Pago aprobado: la reserva deja de contar como reservada
+   * El descuento del stock lo hace InventoryService.deductStock
+   * @param manager - Transacción del descuento, para no contar dos veces las unidades
+   */
+  async convert(key: StockLedgerKey, manager?: EntityManager): Promise<number> {
+    return this.close(key, StockReservationStatus.CONVERTED, manager);
+  }
+
+  /**
+   * Orden cancelada o línea sin stock: devolver las unidades al disponible
+   */
+  async release(key: StockLedgerKey, manager?: EntityManager): Promise<number> {
+    return this.close(key, StockReservationStatus.RELEASED, manager);
+  }
+
+  /**
+   * Liberar reservas vencidas (orden sin pago pasada su expiration_date)
+   */
+  async expireDue(): Promise<number> {
+    const due = await this.reservationRepository.find({
+      where: {
+        status: StockReservationStatus.ACTIVE,
+        expires_at: LessThan(new Date()),
+      },
+    });
+
+    let expired = 0;
+    for (const reservation of due) {
+      const quantity = await this.close(
+        {
+          platform_id: reservation.platform_id,
+          platform_order_id: reservation.platform_order_id,
+          platform_item_id: reservation.platform_item_id,
+          platform_variation_id: reservation.platform_variation_id,
+        },
+        StockReservationStatus.EXPIRED,
+      );
+      if (quantity > 0) {
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} stock reservations`);
+    }
+    return expired;
+  }
+
+  /**
+   * Cerrar una reserva activa y descontarla de products.reserved_stock
+   * (en la misma transacción). Solo la primera llamada devuelve la cantidad
+   */
+  private async close(
+    key: StockLedgerKey,
+    status: StockReservationStatus,
+    manager?: EntityManager,
+  ): Promise<number> {
+    return this.transaction(manager, async (manager) => {
+      const result = await manager
+        .createQueryBuilder()
+        .update(StockReservation)
+        .set({ status, closed_at: () => 'NOW()' })
+        .where('platform_id = :platform_id', key)
+        .andWhere('platform_order_id = :platform_order_id', key)
+        .andWhere('platform_item_id = :platform_item_id', key)
+        .andWhere('platform_variation_id = :platform_variation_id', key)
+        .andWhere('status = :active', {
+          active: StockReservationStatus.ACTIVE,
+        })
+        .returning(['product_id', 'quantity'])
+        .execute();
+
+      const closed = result.affected > 0 ? result.raw[0] : null;
+      if (!closed) {
+        return 0;
+      }
+
+      const quantity = Number(closed.quantity) || 0;
+      await this.changeReserved(
+        await this.getTargets(closed.product_id, -quantity, manager),
+        manager,
+      );
+      return quantity;
+    });
+  }
+
+  /**
+   * Productos cuyo reserved_stock cambia; un kit reserva sus componentes
+   */
+  private async getTargets(
+    productId: number,
+    delta: number,
+    manager: EntityManager,
+  ): Promise<{ productId: number; delta: number }[]> {
+    const components = await manager.getRepository(ProductComponent).find({
+      where: { kit_product_id: productId },
+    });
+
+    return components.length > 0
+      ? components.map((c) => ({
+          productId: c.component_product_id,
+          delta: delta * c.quantity,
+        }))
+      : [{ productId, delta }];
+  }
+
+  /**
+   * Ajustar products.reserved_stock
+   */
+  private async changeReserved(
+    targets: { productId: number; delta: number }[],
+    manager: EntityManager,
+  ): Promise<void> {
+    for (const target of targets) {
+      await manager
+        .getRepository(Product)
+        .increment(
+          { product_id: target.productId },
+          'reserved_stock',
+          target.delta,
+        );
+      this.stockPushService.schedule(target.productId);
+    }
+  }
+
+  private async transaction<T>(
+    manager: EntityManager | undefined,
+    work: (manager: EntityManager) => Promise<T>,
+  ): Promise<T> {
+    return manager ? work(manager) : this.dataSource.transaction(work);
+  }
+}
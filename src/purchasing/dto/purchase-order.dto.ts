@@ -0,0 +1,161 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockLocationCode } from '../../products/entities/stock-location.entity';
+import { PurchaseOrderStatus } from '../entities/purchase-order.entity';
+
+export class PurchaseOrderLineDto {
+  @IsInt()
+  product_id: number;
+
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity: number;
+
+  @IsNumber()
+  @Min(0, { message: 'unit_cost no puede ser negativo' })
+  unit_cost: number; // Costo neto (sin IVA)
+}
+
+export class CreatePurchaseOrderDto {
+  @IsInt()
+  supplier_id: number;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'La orden debe tener al menos una línea' })
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines: PurchaseOrderLineDto[];
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'expected_date debe ser una fecha válida (YYYY-MM-DD)' },
+  )
+  expected_date?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  created_by: string;
+}
+
+/**
+ * Solo órdenes en borrador; lines reemplaza todas las líneas
+ */
+export class UpdatePurchaseOrderDto {
+  @IsOptional()
+  @IsInt()
+  supplier_id?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'La orden debe tener al menos una línea' })
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines?: PurchaseOrderLineDto[];
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'expected_date debe ser una fecha válida (YYYY-MM-DD)' },
+  )
+  expected_date?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class GetPurchaseOrdersQueryDto {
+  @IsOptional()
+  @IsEnum(PurchaseOrderStatus, {
+    message:
+      'status debe ser: draft, sent, partially_received, received o cancelled',
+  })
+  status?: PurchaseOrderStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  supplier_id?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  product_id?: number;
+}
+
+export class ReceiveLineDto {
+  @IsInt()
+  product_id: number;
+
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'unit_cost no puede ser negativo' })
+  unit_cost?: number; // Costo facturado si difiere del de la orden
+}
+
+/**
+ * Sin lines se recibe todo lo pendiente
+ */
+export class ReceivePurchaseOrderDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveLineDto)
+  lines?: ReceiveLineDto[];
+
+  @IsOptional()
+  @IsEnum(StockLocationCode, {
+    message: 'location debe ser BODEGA, FLEX o FULL',
+  })
+  location?: StockLocationCode; // BODEGA por defecto
+
+  @IsString()
+  @IsNotEmpty()
+  received_by: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string; // Ej. número de factura o guía
+}
+
+export class OpenPurchaseOrderRefDto {
+  purchase_order_id: number;
+  supplier_id: number;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_pending: number;
+  unit_cost: number;
+}
+
+export class OpenPurchaseOrdersByProductDto {
+  product_id: number;
+  internal_sku: string;
+  name: string;
+  quantity_pending: number; // Unidades pedidas que aún no llegan
+  purchase_orders: OpenPurchaseOrderRefDto[];
+}
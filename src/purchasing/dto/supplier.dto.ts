@@ -0,0 +1,64 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateSupplierDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  tax_id?: string; // RUT
+
+  @IsOptional()
+  @IsString()
+  contact_name?: string;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'email debe ser un email válido' })
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateSupplierDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  tax_id?: string;
+
+  @IsOptional()
+  @IsString()
+  contact_name?: string;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'email debe ser un email válido' })
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+import { PurchaseOrder } from './purchase-order.entity';
+
+/**
+ * Línea de una orden de compra (un producto por línea)
+ */
+@Entity('purchase_order_lines')
+@Unique(['purchase_order_id', 'product_id'])
+export class PurchaseOrderLine {
+  @PrimaryGeneratedColumn()
+  purchase_order_line_id: number;
+
+  @Column()
+  purchase_order_id: number;
+
+  @Column()
+  product_id: number;
+
+  @Column({ type: 'int' })
+  quantity_ordered: number;
+
+  @Column({ type: 'int', default: 0 })
+  quantity_received: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  unit_cost: number; // Costo neto (sin IVA)
+
+  @ManyToOne(() => PurchaseOrder, (order) => order.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'purchase_order_id' })
+  purchaseOrder: PurchaseOrder;
+
+  @ManyToOne(() => Product, { eager: true })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Supplier } from './supplier.entity';
+import { PurchaseOrderLine } from './purchase-order-line.entity';
+
+export enum PurchaseOrderStatus {
+  DRAFT = 'draft', // Editable, aún no se pide
+  SENT = 'sent', // Pedida al proveedor
+  PARTIALLY_RECEIVED = 'partially_received', // Llegó parte de la mercadería
+  RECEIVED = 'received', // Todas las líneas recibidas
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Orden de compra a un proveedor
+ */
+@Entity('purchase_orders')
+export class PurchaseOrder {
+  @PrimaryGeneratedColumn()
+  purchase_order_id: number;
+
+  @Column()
+  supplier_id: number;
+
+  @Column({
+    type: 'enum',
+    enum: PurchaseOrderStatus,
+    default: PurchaseOrderStatus.DRAFT,
+  })
+  status: PurchaseOrderStatus;
+
+  @Column({ type: 'date', nullable: true })
+  expected_date: string | null; // Format: YYYY-MM-DD
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  created_by: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sent_at: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  received_at: Date | null; // Recepción completa
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Supplier, { eager: true })
+  @JoinColumn({ name: 'supplier_id' })
+  supplier: Supplier;
+
+  @OneToMany(() => PurchaseOrderLine, (line) => line.purchaseOrder, {
+    cascade: true,
+  })
+  lines: PurchaseOrderLine[];
+}
@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import {
+  CreatePurchaseOrderDto,
+  GetPurchaseOrdersQueryDto,
+  OpenPurchaseOrdersByProductDto,
+  ReceivePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+} from './dto/purchase-order.dto';
+
+@Controller('purchase-orders')
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  create(@Body() dto: CreatePurchaseOrderDto) {
+    return this.purchaseOrdersService.create(dto);
+  }
+
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  findAll(@Query() query: GetPurchaseOrdersQueryDto) {
+    return this.purchaseOrdersService.findAll(query);
+  }
+
+  /**
+   * Unidades por llegar de cada producto (órdenes enviadas o parciales)
+   * GET /purchase-orders/open-by-product?product_id=
+   */
+  @Get('open-by-product')
+  getOpenByProduct(
+    @Query('product_id') productId?: string,
+  ): Promise<OpenPurchaseOrdersByProductDto[]> {
+    return this.purchaseOrdersService.getOpenByProduct(
+      productId ? Number(productId) : undefined,
+    );
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.purchaseOrdersService.findOne(id);
+  }
+
+  @Put(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdatePurchaseOrderDto,
+  ) {
+    return this.purchaseOrdersService.update(id, dto);
+  }
+
+  @Post(':id/send')
+  send(@Param('id', ParseIntPipe) id: number) {
+    return this.purchaseOrdersService.send(id);
+  }
+
+  @Post(':id/cancel')
+  cancel(@Param('id', ParseIntPipe) id: number) {
+    return this.purchaseOrdersService.cancel(id);
+  }
+
+  /**
+   * Recibir mercadería: suma stock y actualiza el costo de los productos
+   * POST /purchase-orders/:id/receive
+   */
+  @Post(':id/receive')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  receive(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReceivePurchaseOrderDto,
+  ) {
+    return this.purchaseOrdersService.receive(id, dto);
+  }
+}
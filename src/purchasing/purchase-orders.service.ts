@@ -0,0 +1,413 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { Product } from '../products/entities/product.entity';
+import { StockLocationCode } from '../products/entities/stock-location.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from './entities/purchase-order.entity';
+import { PurchaseOrderLine } from './entities/purchase-order-line.entity';
+import { SuppliersService } from './suppliers.service';
+import {
+  CreatePurchaseOrderDto,
+  GetPurchaseOrdersQueryDto,
+  OpenPurchaseOrdersByProductDto,
+  PurchaseOrderLineDto,
+  ReceivePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+} from './dto/purchase-order.dto';
+
+/**
+ * Órdenes con mercadería por llegar
+ */
+const OPEN_STATUSES = [
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+/**
+ * Órdenes de compra
+ *
+ * draft -> sent -> partially_received -> received. Recibir suma el stock con
+ * InventoryService (change_type 'import') con el costo de la línea, que
+ * crea el lote de costo y recalcula Product.cost (CostingService).
+ */
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(
+    @InjectRepository(PurchaseOrder)
+    private purchaseOrderRepository: Repository<PurchaseOrder>,
+    @InjectRepository(PurchaseOrderLine)
+    private lineRepository: Repository<PurchaseOrderLine>,
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    private suppliersService: SuppliersService,
+    private inventoryService: InventoryService,
+    private dataSource: DataSource,
+  ) {}
+
+  async create(dto: CreatePurchaseOrderDto): Promise<PurchaseOrder> {
+    await this.requireActiveSupplier(dto.supplier_id);
+    await this.validateLines(dto.lines);
+
+    const order = await this.purchaseOrderRepository.save(
+      this.purchaseOrderRepository.create({
+        supplier_id: dto.supplier_id,
+        status: PurchaseOrderStatus.DRAFT,
+        expected_date: dto.expected_date || null,
+        notes: dto.notes || null,
+        created_by: dto.created_by,
+        lines: dto.lines.map((line) => this.toLine(line)),
+      }),
+    );
+
+    return this.findOne(order.purchase_order_id);
+  }
+
+  async findAll(query: GetPurchaseOrdersQueryDto): Promise<PurchaseOrder[]> {
+    const qb = this.purchaseOrderRepository
+      .createQueryBuilder('po')
+      .leftJoinAndSelect('po.supplier', 'supplier')
+      .leftJoinAndSelect('po.lines', 'line')
+      .leftJoinAndSelect('line.product', 'product')
+      .orderBy('po.created_at', 'DESC');
+
+    if (query.status) {
+      qb.andWhere('po.status = :status', { status: query.status });
+    }
+    if (query.supplier_id) {
+      qb.andWhere('po.supplier_id = :supplierId', {
+        supplierId: query.supplier_id,
+      });
+    }
+    if (query.product_id) {
+      qb.andWhere(
+        'po.purchase_order_id IN (SELECT purchase_order_id FROM purchase_order_lines WHERE product_id = :productId)',
+        { productId: query.product_id },
+      );
+    }
+
+    return qb.getMany();
+  }
+
+  async findOne(
+    id: number,
+    manager: EntityManager = this.purchaseOrderRepository.manager,
+  ): Promise<PurchaseOrder> {
+    const order = await manager.getRepository(PurchaseOrder).findOne({
+      where: { purchase_order_id: id },
+      relations: ['lines'],
+    });
+    if (!order) {
+      throw new NotFoundException(`Orden de compra ${id} no encontrada`);
+    }
+    return order;
+  }
+
+  async update(
+    id: number,
+    dto: UpdatePurchaseOrderDto,
+  ): Promise<PurchaseOrder> {
+    const order = await this.findOne(id);
+    this.assertStatus(order, [PurchaseOrderStatus.DRAFT], 'editar');
+
+    if (dto.supplier_id && dto.supplier_id !== order.supplier_id) {
+      await this.requireActiveSupplier(dto.supplier_id);
+    }
+    if (dto.lines) {
+      await this.validateLines(dto.lines);
+      await this.lineRepository.delete({ purchase_order_id: id });
+    }
+
+    await this.purchaseOrderRepository.save({
+      purchase_order_id: id,
+      ...(dto.supplier_id ? { supplier_id: dto.supplier_id } : {}),
+      ...(dto.expected_date !== undefined
+        ? { expected_date: dto.expected_date }
+        : {}),
+      ...(dto.notes !== undefined ? { notes: dto.notes } : {}),
+      ...(dto.lines
+        ? { lines: dto.lines.map((line) => this.toLine(line)) }
+        : {}),
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Marcar la orden como pedida al proveedor
+   */
+  async send(id: number): Promise<PurchaseOrder> {
+    const order = await this.findOne(id);
+    this.assertStatus(order, [PurchaseOrderStatus.DRAFT], 'enviar');
+
+    await this.purchaseOrderRepository.update(id, {
+      status: PurchaseOrderStatus.SENT,
+      sent_at: new Date(),
+    });
+    return this.findOne(id);
+  }
+
+  /**
+   * Anular una orden; lo ya recibido se mantiene en stock
+   */
+  async cancel(id: number): Promise<PurchaseOrder> {
+    const order = await this.findOne(id);
+    this.assertStatus(
+      order,
+      [PurchaseOrderStatus.DRAFT, ...OPEN_STATUSES],
+      'anular',
+    );
+
+    await this.purchaseOrderRepository.update(id, {
+      status: PurchaseOrderStatus.CANCELLED,
+    });
+    return this.findOne(id);
+  }
+
+  /**
+   * Recibir mercadería de una orden enviada
+   * Valida todas las líneas antes de mover stock
+   */
+  async receive(
+    id: number,
+    dto: ReceivePurchaseOrderDto,
+  ): Promise<PurchaseOrder> {
+    const { lines, complete } = await this.dataSource.transaction((manager) =>
+      this.applyReceipt(id, dto, manager),
+    );
+
+    this.logger.log(
+      `Purchase order ${id}: received ${lines} lines${complete ? ' (complete)' : ''}`,
+    );
+    return this.findOne(id);
+  }
+
+  /**
+   * Validar lo recibido y sumar el stock, las líneas y el estado en la
+   * transacción de receive
+   */
+  private async applyReceipt(
+    id: number,
+    dto: ReceivePurchaseOrderDto,
+    manager: EntityManager,
+  ): Promise<{ lines: number; complete: boolean }> {
+    // La orden queda bloqueada hasta el commit: dos recepciones simultáneas
+    // no pueden sumar dos veces las mismas unidades pendientes
+    await manager.getRepository(PurchaseOrder).findOne({
+      where: { purchase_order_id: id },
+      lock: { mode: 'pessimistic_write' },
+      loadEagerRelations: false,
+    });
+    const order = await this.findOne(id, manager);
+    this.assertStatus(order, OPEN_STATUSES, 'recibir');
+
+    const receipts = dto.lines
+      ? dto.lines.map((received) => {
+          const line = order.lines.find(
+            (l) => l.product_id === received.product_id,
+          );
+          if (!line) {
+            throw new BadRequestException(
+              `El producto ${received.product_id} no está en la orden de compra ${id}`,
+            );
+          }
+          return {
+            line,
+            quantity: received.quantity,
+            unit_cost: received.unit_cost ?? Number(line.unit_cost),
+          };
+        })
+      : order.lines
+          .filter((line) => line.quantity_received < line.quantity_ordered)
+          .map((line) => ({
+            line,
+            quantity: line.quantity_ordered - line.quantity_received,
+            unit_cost: Number(line.unit_cost),
+          }));
+
+    if (receipts.length === 0) {
+      throw new BadRequestException(
+        `La orden de compra ${id} no tiene unidades pendientes`,
+      );
+    }
+    for (const { line, quantity } of receipts) {
+      const pending = line.quantity_ordered - line.quantity_received;
+      if (
+        quantity > pending ||
+        receipts.filter((r) => r.line === line).length > 1
+      ) {
+        throw new BadRequestException(
+          `Se reciben más unidades de ${line.product.internal_sku} que las pendientes (${pending})`,
+        );
+      }
+    }
+
+    const location = dto.location || StockLocationCode.BODEGA;
+    const reason = `Recepción OC ${id} - ${order.supplier.name}${dto.notes ? ` (${dto.notes})` : ''}`;
+
+    for (const { line, quantity, unit_cost } of receipts) {
+      await this.inventoryService.restoreStock(
+        line.product_id,
+        quantity,
+        {
+          location,
+          change_type: 'import',
+          changed_by: dto.received_by,
+          change_reason: reason,
+          adjustment_amount: quantity,
+          unit_cost,
+          metadata: {
+            purchase_order_id: id,
+            supplier_id: order.supplier_id,
+          },
+        },
+        manager,
+      );
+
+      line.quantity_received += quantity;
+      await manager
+        .getRepository(PurchaseOrderLine)
+        .update(line.purchase_order_line_id, {
+          quantity_received: line.quantity_received,
+        });
+    }
+
+    const complete = order.lines.every(
+      (line) => line.quantity_received >= line.quantity_ordered,
+    );
+    await manager.getRepository(PurchaseOrder).update(id, {
+      status: complete
+        ? PurchaseOrderStatus.RECEIVED
+        : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      ...(complete ? { received_at: new Date() } : {}),
+    });
+
+    return { lines: receipts.length, complete };
+  }
+
+  /**
+   * Unidades pedidas y aún no recibidas, por producto
+   */
+  async getOpenByProduct(
+    productId?: number,
+  ): Promise<OpenPurchaseOrdersByProductDto[]> {
+    const qb = this.lineRepository
+      .createQueryBuilder('line')
+      .innerJoinAndSelect('line.purchaseOrder', 'po')
+      .innerJoinAndSelect('po.supplier', 'supplier')
+      .innerJoinAndSelect('line.product', 'product')
+      .where('po.status IN (:...statuses)', { statuses: OPEN_STATUSES })
+      .andWhere('line.quantity_received < line.quantity_ordered')
+      .orderBy('po.expected_date', 'ASC', 'NULLS LAST')
+      .addOrderBy('po.purchase_order_id', 'ASC');
+
+    if (productId) {
+      qb.andWhere('line.product_id = :productId', { productId });
+    }
+
+    const byProduct = new Map<number, OpenPurchaseOrdersByProductDto>();
+    for (const line of await qb.getMany()) {
+      const pending = line.quantity_ordered - line.quantity_received;
+      let row = byProduct.get(line.product_id);
+      if (!row) {
+        row = {
+          product_id: line.product_id,
+          internal_sku: line.product.internal_sku,
+          name: line.product.name,
+          quantity_pending: 0,
+          purchase_orders: [],
+        };
+        byProduct.set(line.product_id, row);
+      }
+
+      row.quantity_pending += pending;
+      row.purchase_orders.push({
+        purchase_order_id: line.purchase_order_id,
+        supplier_id: line.purchaseOrder.supplier_id,
+        supplier_name: line.purchaseOrder.supplier.name,
+        status: line.purchaseOrder.status,
+        expected_date: line.purchaseOrder.expected_date,
+        quantity_ordered: line.quantity_ordered,
+        quantity_received: line.quantity_received,
+        quantity_pending: pending,
+        unit_cost: Number(line.unit_cost),
+      });
+    }
+
+    return [...byProduct.values()].sort((a, b) =>
+      a.internal_sku.localeCompare(b.internal_sku),
+    );
+  }
+
+  /**
+   * Productos existentes, sin kits (se compran sus componentes) ni repetidos
+   */
+  private async validateLines(lines: PurchaseOrderLineDto[]): Promise<void> {
+    const productIds = lines.map((line) => line.product_id);
+    const duplicated = productIds.find(
+      (productId, index) => productIds.indexOf(productId) !== index,
+    );
+    if (duplicated) {
+      throw new BadRequestException(
+        `El producto ${duplicated} está repetido en la orden de compra`,
+      );
+    }
+
+    const products = await this.productRepository.find({
+      where: { product_id: In(productIds) },
+    });
+    for (const productId of productIds) {
+      const product = products.find((p) => p.product_id === productId);
+      if (!product) {
+        throw new NotFoundException(
+          `Producto con ID ${productId} no encontrado`,
+        );
+      }
+      if ((await this.inventoryService.getComponents(productId)).length > 0) {
+        throw new BadRequestException(
+          `${product.internal_sku} es un kit: compre sus componentes`,
+        );
+      }
+    }
+  }
+
+  private toLine(line: PurchaseOrderLineDto): Partial<PurchaseOrderLine> {
+    return {
+      product_id: line.product_id,
+      quantity_ordered: line.quantity,
+      quantity_received: 0,
+      unit_cost: line.unit_cost,
+    };
+  }
+
+  private async requireActiveSupplier(supplierId: number): Promise<void> {
+    const supplier = await this.suppliersService.findOne(supplierId);
+    if (!supplier.active) {
+      throw new BadRequestException(
+        `El proveedor ${supplier.name} está inactivo`,
+      );
+    }
+  }
+
+  private assertStatus(
+    order: PurchaseOrder,
+    allowed: PurchaseOrderStatus[],
+    action: string,
+  ): void {
+    if (!allowed.includes(order.status)) {
+      throw new BadRequestException(
+        `No se puede ${action} la orden de compra ${order.purchase_order_id} en estado ${order.status}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Product } from '../products/entities/product.entity';
+import { InventoryModule } from '../inventory/inventory.module';
+import { Supplier } from './entities/supplier.entity';
+import { PurchaseOrder } from './entities/purchase-order.entity';
+import { PurchaseOrderLine } from './entities/purchase-order-line.entity';
+import { SuppliersService } from './suppliers.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { SuppliersController } from './suppliers.controller';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Supplier,
+      PurchaseOrder,
+      PurchaseOrderLine,
+      Product,
+    ]),
+    InventoryModule,
+  ],
+  controllers: [SuppliersController, PurchaseOrdersController],
+  providers: [SuppliersService, PurchaseOrdersService],
+})
+export class PurchasingModule {}
@@ -0,0 +1,56 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Supplier } from './entities/supplier.entity';
+import { CreateSupplierDto, UpdateSupplierDto } from './dto/supplier.dto';
+
+@Injectable()
+export class SuppliersService {
+  constructor(
+    @InjectRepository(Supplier)
+    private supplierRepository: Repository<Supplier>,
+  ) {}
+
+  async create(dto: CreateSupplierDto): Promise<Supplier> {
+    await this.assertNameAvailable(dto.name);
+    return this.supplierRepository.save(this.supplierRepository.create(dto));
+  }
+
+  /**
+   * Proveedores ordenados por nombre (solo activos salvo includeInactive)
+   */
+  async findAll(includeInactive = false): Promise<Supplier[]> {
+    return this.supplierRepository.find({
+      where: includeInactive ? {} : { active: true },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: number): Promise<Supplier> {
+    const supplier = await this.supplierRepository.findOne({
+      where: { supplier_id: id },
+    });
+    if (!supplier) {
+      throw new NotFoundException(`Proveedor con ID ${id} no encontrado`);
+    }
+    return supplier;
+  }
+
+  async update(id: number, dto: UpdateSupplierDto): Promise<Supplier> {
+    const supplier = await this.findOne(id);
+    if (dto.name && dto.name !== supplier.name) {
+      await this.assertNameAvailable(dto.name);
+    }
+    return this.supplierRepository.save({ ...supplier, ...dto });
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    if (await this.supplierRepository.findOne({ where: { name } })) {
+      throw new ConflictException(`Ya existe un proveedor llamado ${name}`);
+    }
+  }
+}
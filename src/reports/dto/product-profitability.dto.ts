@@ -0,0 +1,123 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumberString,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Fields the profitability report can be sorted by
+ */
+export enum ProfitabilitySortEnum {
+  MARGIN = 'margin',
+  MARGIN_PERCENT = 'margin_percent',
+  REVENUE = 'revenue',
+  UNITS_SOLD = 'units_sold',
+  TOTAL_COST = 'total_cost',
+}
+
+export enum SortOrderEnum {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+/**
+ * Query DTO for product profitability endpoint
+ * Applies: security-validate-all-input
+ */
+export class GetProductProfitabilityQueryDto {
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de inicio es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  from: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'La fecha de término es obligatoria' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Formato de fecha inválido. Use YYYY-MM-DD',
+  })
+  to: string;
+
+  @IsOptional()
+  @IsNumberString({}, { message: 'seller_id debe ser un número válido' })
+  seller_id?: string;
+
+  @IsOptional()
+  @IsEnum(ProfitabilitySortEnum, {
+    message:
+      'sort_by debe ser: margin, margin_percent, revenue, units_sold, o total_cost',
+  })
+  sort_by?: ProfitabilitySortEnum;
+
+  @IsOptional()
+  @IsEnum(SortOrderEnum, { message: 'order debe ser: asc o desc' })
+  order?: SortOrderEnum;
+}
+
+/**
+ * Profitability of a single product in the period
+ */
+export class ProductProfitabilityDto {
+  product_id: number;
+  internal_sku: string;
+  name: string;
+  units_sold: number;
+  orders_count: number;
+  revenue: number; // Sale price with IVA
+  iva_amount: number; // IVA included in revenue
+  fees: number; // Allocated marketplace fee + shipping + Flex cost (net of bonus)
+  unit_cost: number; // Average net cost per unit sold (without IVA)
+  total_cost: number;
+  margin: number; // revenue - iva - fees - total_cost
+  margin_percent: number; // margin / revenue
+  missing_cost: boolean; // true when some units had no recorded COGS nor Product.cost
+}
+
+/**
+ * Sold items whose SKU could not be resolved to a product
+ */
+export class UnmatchedItemDto {
+  seller_sku: string;
+  item_id: string;
+  title: string;
+  units_sold: number;
+  revenue: number;
+}
+
+/**
+ * Totals across all products in the report
+ */
+export class ProfitabilityTotalsDto {
+  units_sold: number;
+  revenue: number;
+  iva_amount: number;
+  fees: number;
+  total_cost: number;
+  margin: number;
+  margin_percent: number;
+}
+
+/**
+ * Complete response DTO for product profitability endpoint
+ */
+export class ProductProfitabilityResponseDto {
+  from: string;
+  to: string;
+  seller_id: number | null;
+  sort_by: ProfitabilitySortEnum;
+  order: SortOrderEnum;
+
+  @Type(() => ProfitabilityTotalsDto)
+  totals: ProfitabilityTotalsDto;
+
+  @Type(() => ProductProfitabilityDto)
+  products: ProductProfitabilityDto[];
+
+  @Type(() => UnmatchedItemDto)
+  unmatched_items: UnmatchedItemDto[];
+}
@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UsePipes,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import {
+  GetProductProfitabilityQueryDto,
+  ProductProfitabilityResponseDto,
+  ProfitabilitySortEnum,
+  SortOrderEnum,
+} from './dto/product-profitability.dto';
+
+/**
+ * Reports Controller
+ * Handles business reports that combine sales with product data
+ */
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * Get profitability per product for a date range
+   * GET /reports/product-profitability?from=YYYY-MM-DD&to=YYYY-MM-DD&seller_id=123&sort_by=margin&order=desc
+   *
+   * Applies: security-validate-all-input (using ValidationPipe + DTO)
+   */
+  @Get('product-profitability')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async getProductProfitability(
+    @Query() query: GetProductProfitabilityQueryDto,
+  ): Promise<ProductProfitabilityResponseDto> {
+    if (query.from > query.to) {
+      throw new BadRequestException(
+        'La fecha de inicio debe ser anterior o igual a la fecha de término',
+      );
+    }
+
+    const sellerId = query.seller_id ? parseInt(query.seller_id, 10) : null;
+
+    return this.reportsService.getProductProfitability(
+      query.from,
+      query.to,
+      sellerId,
+      query.sort_by || ProfitabilitySortEnum.MARGIN,
+      query.order || SortOrderEnum.DESC,
+    );
+  }
+}
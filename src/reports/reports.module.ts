@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Product } from '../products/entities/product.entity';
+import { ProductMapping } from '../products/entities/product-mapping.entity';
+import { ProductHistory } from '../products/entities/product-history.entity';
+import { OrderModule } from '../orders/order.module';
+import { ProductsModule } from '../products/products.module';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Product, ProductMapping, ProductHistory]),
+    OrderModule,
+    ProductsModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+})
+export class ReportsModule {}
@@ -0,0 +1,362 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OrderService } from '../orders/order.service';
+import {
+  OrderItemSummaryDto,
+  OrderSummaryDto,
+} from '../orders/dto/daily-sales.dto';
+import { Product } from '../products/entities/product.entity';
+import { ProductMapping } from '../products/entities/product-mapping.entity';
+import { ProductHistory } from '../products/entities/product-history.entity';
+import { TaxService } from '../products/services/tax.service';
+import {
+  ProductProfitabilityDto,
+  ProductProfitabilityResponseDto,
+  ProfitabilitySortEnum,
+  ProfitabilityTotalsDto,
+  SortOrderEnum,
+  UnmatchedItemDto,
+} from './dto/product-profitability.dto';
+
+/**
+ * Product resolved for an order item, with how many product units one sold
+ * unit consumes (SecondarySku.stock_quantity for packs, 1 otherwise)
+ */
+interface ResolvedItem {
+  product: Product;
+  unitsPerItem: number;
+}
+
+/**
+ * SKU lookups loaded once per report (avoids one query per order item)
+ */
+interface SkuLookups {
+  productsById: Map<number, Product>;
+  productsBySku: Map<string, Product>;
+  mappingsBySku: Map<string, number>; // Key: "platform_id:platform_sku"
+  secondarySkus: Map<string, ResolvedItem>;
+}
+
+/**
+ * Reports Service
+ * Cross-module reports combining orders, products and costs
+ *
+ * Applies:
+ * - db-avoid-n-plus-one: Loads products and mappings once per report
+ * - arch-single-responsibility: Order fees come from OrderService
+ */
+@Injectable()
+export class ReportsService {
+  private readonly logger = new Logger(ReportsService.name);
+
+  constructor(
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(ProductMapping)
+    private readonly mappingRepository: Repository<ProductMapping>,
+    @InjectRepository(ProductHistory)
+    private readonly historyRepository: Repository<ProductHistory>,
+    private readonly orderService: OrderService,
+    private readonly taxService: TaxService,
+  ) {}
+
+  /**
+   * Profitability per product for a date range
+   *
+   * Each order's marketplace fee, shipping and Flex cost (minus ML shipping
+   * bonus) is allocated across its items proportionally to item revenue.
+   * Cost is the COGS recorded when stock was deducted for the order; orders
+   * without it (sold before costing, or never deducted) use Product.cost.
+   * Margin = revenue - IVA - allocated fees - cost (net)
+   */
+  async getProductProfitability(
+    from: string,
+    to: string,
+    sellerId: number | null,
+    sortBy: ProfitabilitySortEnum,
+    order: SortOrderEnum,
+  ): Promise<ProductProfitabilityResponseDto> {
+    const orders = (
+      await this.orderService.getOrderSummariesByDateRange(
+        from,
+        to,
+        sellerId || undefined,
+      )
+    ).filter((o) => o.status !== 'cancelled');
+
+    this.logger.debug(
+      `Computing profitability for ${orders.length} orders between ${from} and ${to}`,
+    );
+
+    const lookups = await this.loadSkuLookups();
+    const recordedCogs = await this.loadRecordedCogs(orders);
+    const byProduct = new Map<
+      number,
+      ProductProfitabilityDto & { orderIds: Set<number> }
+    >();
+    const unmatched = new Map<string, UnmatchedItemDto>();
+
+    for (const orderSummary of orders) {
+      const orderRevenue = orderSummary.items.reduce(
+        (sum, i) => sum + i.unit_price * i.quantity,
+        0,
+      );
+      const orderFees = this.getAllocatableFees(orderSummary);
+
+      for (const item of orderSummary.items) {
+        const revenue = item.unit_price * item.quantity;
+        const share =
+          orderRevenue > 0
+            ? revenue / orderRevenue
+            : 1 / orderSummary.items.length;
+        const resolved = this.resolveItem(
+          item,
+          orderSummary.platform_id,
+          lookups,
+        );
+
+        if (!resolved) {
+          const key = item.seller_sku || item.item_id;
+          const entry = unmatched.get(key) || {
+            seller_sku: item.seller_sku,
+            item_id: item.item_id,
+            title: item.title,
+            units_sold: 0,
+            revenue: 0,
+          };
+          entry.units_sold += item.quantity;
+          entry.revenue += revenue;
+          unmatched.set(key, entry);
+          continue;
+        }
+
+        const { product, unitsPerItem } = resolved;
+        const units = item.quantity * unitsPerItem;
+        const cogsKey = `${orderSummary.platform_id}:${orderSummary.platform_order_id}:${product.product_id}`;
+        const cogs = recordedCogs.get(cogsKey);
+        recordedCogs.delete(cogsKey); // Counted once per order and product
+        const entry = byProduct.get(product.product_id) || {
+          product_id: product.product_id,
+          internal_sku: product.internal_sku,
+          name: product.name,
+          units_sold: 0,
+          orders_count: 0,
+          revenue: 0,
+          iva_amount: 0,
+          fees: 0,
+          unit_cost: 0,
+          total_cost: 0,
+          margin: 0,
+          margin_percent: 0,
+          missing_cost: false,
+          orderIds: new Set<number>(),
+        };
+
+        entry.units_sold += units;
+        entry.revenue += revenue;
+        entry.iva_amount += this.taxService.extractIva(revenue);
+        entry.fees += orderFees * share;
+        entry.total_cost += cogs ?? units * (Number(product.cost) || 0);
+        entry.missing_cost ||= cogs === undefined && !product.cost;
+        entry.orderIds.add(orderSummary.id);
+        byProduct.set(product.product_id, entry);
+      }
+    }
+
+    const products: ProductProfitabilityDto[] = [...byProduct.values()].map(
+      ({ orderIds, ...entry }) => {
+        const margin =
+          entry.revenue - entry.iva_amount - entry.fees - entry.total_cost;
+        return {
+          ...entry,
+          orders_count: orderIds.size,
+          fees: this.round(entry.fees),
+          iva_amount: this.round(entry.iva_amount),
+          unit_cost:
+            entry.units_sold > 0
+              ? this.round(entry.total_cost / entry.units_sold)
+              : 0,
+          total_cost: this.round(entry.total_cost),
+          margin: this.round(margin),
+          margin_percent:
+            entry.revenue > 0 ? this.round((margin / entry.revenue) * 100) : 0,
+        };
+      },
+    );
+
+    const direction = order === SortOrderEnum.ASC ? 1 : -1;
+    products.sort((a, b) => (a[sortBy] - b[sortBy]) * direction);
+
+    return {
+      from,
+      to,
+      seller_id: sellerId || null,
+      sort_by: sortBy,
+      order,
+      totals: this.calculateTotals(products),
+      products,
+      unmatched_items: [...unmatched.values()].sort(
+        (a, b) => b.revenue - a.revenue,
+      ),
+    };
+  }
+
+  /**
+   * Order costs to allocate across items: everything in total_fees except IVA
+   * (IVA is computed per item), minus the shipping bonus ML pays back
+   */
+  private getAllocatableFees(orderSummary: OrderSummaryDto): number {
+    return (
+      orderSummary.total_fees -
+      orderSummary.iva_amount -
+      (orderSummary.shipping_bonus || 0)
+    );
+  }
+
+  /**
+   * COGS recorded in product_history when each order deducted stock
+   * Key: "platform_id:platform_order_id:product_id"; kit components count
+   * toward the kit sold
+   */
+  private async loadRecordedCogs(
+    orders: OrderSummaryDto[],
+  ): Promise<Map<string, number>> {
+    const orderIds = [
+      ...new Set(
+        orders.map((o) => o.platform_order_id).filter((id) => id !== null),
+      ),
+    ];
+    if (orderIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.historyRepository
+      .createQueryBuilder('history')
+      .select('history.platform_id', 'platform_id')
+      .addSelect('history.platform_order_id', 'platform_order_id')
+      .addSelect(
+        'COALESCE(history.kit_product_id, history.product_id)',
+        'product_id',
+      )
+      .addSelect(
+        "SUM((history.metadata->'cogs'->>'total_cost')::numeric)",
+        'total_cost',
+      )
+      .where('history.change_type = :changeType', { changeType: 'order' })
+      .andWhere('history.field_name = :field', { field: 'stock' })
+      .andWhere('history.adjustment_amount < 0')
+      .andWhere("history.metadata->'cogs' IS NOT NULL")
+      .andWhere('history.platform_order_id IN (:...orderIds)', { orderIds })
+      .groupBy('history.platform_id')
+      .addGroupBy('history.platform_order_id')
+      .addGroupBy('COALESCE(history.kit_product_id, history.product_id)')
+      .getRawMany();
+
+    return new Map(
+      rows.map((row) => [
+        `${row.platform_id}:${row.platform_order_id}:${row.product_id}`,
+        Number(row.total_cost) || 0,
+      ]),
+    );
+  }
+
+  /**
+   * Resolve an order item to a product
+   * Order: ProductMapping (order's platform) > internal_sku > SecondarySku (ML item id)
+   */
+  private resolveItem(
+    item: OrderItemSummaryDto,
+    platformId: number,
+    lookups: SkuLookups,
+  ): ResolvedItem | null {
+    for (const sku of [item.seller_sku, item.item_id].filter(Boolean)) {
+      const mappedProductId = lookups.mappingsBySku.get(`${platformId}:${sku}`);
+      if (mappedProductId && lookups.productsById.has(mappedProductId)) {
+        return {
+          product: lookups.productsById.get(mappedProductId),
+          unitsPerItem: 1,
+        };
+      }
+
+      const product = lookups.productsBySku.get(sku);
+      if (product) {
+        return { product, unitsPerItem: 1 };
+      }
+
+      const secondary = lookups.secondarySkus.get(sku);
+      if (secondary) {
+        return secondary;
+      }
+    }
+
+    return null;
+  }
+
+  private async loadSkuLookups(): Promise<SkuLookups> {
+    const products = await this.productRepository.find({
+      relations: ['secondarySkus'],
+    });
+    const mappings = await this.mappingRepository.find({
+      where: { is_active: true },
+    });
+
+    const lookups: SkuLookups = {
+      productsById: new Map(products.map((p) => [p.product_id, p])),
+      productsBySku: new Map(products.map((p) => [p.internal_sku, p])),
+      mappingsBySku: new Map(
+        mappings.map((m) => [
+          `${m.platform_id}:${m.platform_sku}`,
+          m.product_id,
+        ]),
+      ),
+      secondarySkus: new Map(),
+    };
+
+    for (const product of products) {
+      for (const secondary of product.secondarySkus || []) {
+        lookups.secondarySkus.set(secondary.secondary_sku, {
+          product,
+          unitsPerItem: secondary.stock_quantity || 1,
+        });
+      }
+    }
+
+    return lookups;
+  }
+
+  private calculateTotals(
+    products: ProductProfitabilityDto[],
+  ): ProfitabilityTotalsDto {
+    const totals = products.reduce(
+      (acc, p) => ({
+        units_sold: acc.units_sold + p.units_sold,
+        revenue: acc.revenue + p.revenue,
+        iva_amount: acc.iva_amount + p.iva_amount,
+        fees: acc.fees + p.fees,
+        total_cost: acc.total_cost + p.total_cost,
+        margin: acc.margin + p.margin,
+      }),
+      {
+        units_sold: 0,
+        revenue: 0,
+        iva_amount: 0,
+        fees: 0,
+        total_cost: 0,
+        margin: 0,
+      },
+    );
+
+    return {
+      ...totals,
+      margin_percent:
+        totals.revenue > 0
+          ? this.round((totals.margin / totals.revenue) * 100)
+          : 0,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { StockLocationCode } from '../../products/entities/stock-location.entity';
+
+export enum ManualPaymentMethodEnum {
+  CASH = 'cash',
+  TRANSFER = 'transfer',
+  DEBIT_CARD = 'debit_card',
+  CREDIT_CARD = 'credit_card',
+  OTHER = 'other',
+}
+
+export class ManualSaleItemDto {
+  @ValidateIf((item) => !item.sku)
+  @IsInt({ message: 'Cada ítem necesita product_id o sku' })
+  product_id?: number;
+
+  @ValidateIf((item) => !item.product_id)
+  @IsString({ message: 'Cada ítem necesita product_id o sku' })
+  @IsNotEmpty()
+  sku?: string; // SKU interno o mapeado a la plataforma de venta directa
+
+  @IsInt()
+  @Min(1, { message: 'quantity debe ser mayor a 0' })
+  quantity: number;
+
+  @IsNumber()
+  @Min(0, { message: 'unit_price no puede ser negativo' })
+  unit_price: number; // Precio final con IVA
+}
+
+export class ManualSaleCustomerDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  contact?: string; // Usuario de Instagram, teléfono o email
+}
+
+/**
+ * Venta directa (Instagram, feria, tienda)
+ */
+export class CreateManualSaleDto {
+  @IsArray()
+  @ArrayMinSize(1, { message: 'La venta debe tener al menos un ítem' })
+  @ValidateNested({ each: true })
+  @Type(() => ManualSaleItemDto)
+  items: ManualSaleItemDto[];
+
+  @IsEnum(ManualPaymentMethodEnum, {
+    message:
+      'payment_method debe ser: cash, transfer, debit_card, credit_card u other',
+  })
+  payment_method: ManualPaymentMethodEnum;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'payment_fee no puede ser negativo' })
+  payment_fee?: number; // Comisión del medio de pago (ej. POS)
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'shipping_cost no puede ser negativo' })
+  shipping_cost?: number; // Envío pagado por el vendedor
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ManualSaleCustomerDto)
+  customer?: ManualSaleCustomerDto;
+
+  @IsOptional()
+  @IsString()
+  channel?: string; // instagram, feria, tienda...
+
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'sale_date debe ser una fecha válida (ISO 8601)' },
+  )
+  sale_date?: string; // Ahora por defecto
+
+  @IsOptional()
+  @IsEnum(StockLocationCode, {
+    message: 'location debe ser BODEGA, FLEX o FULL',
+  })
+  location?: StockLocationCode; // BODEGA por defecto
+
+  @IsString()
+  @IsNotEmpty()
+  created_by: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ManualSaleResponseDto {
+  order_id: number;
+  platform_id: number;
+  date_approved: Date;
+  total_amount: number;
+  payment_method: ManualPaymentMethodEnum;
+  channel: string | null;
+  items: {
+    product_id: number;
+    internal_sku: string;
+    quantity: number;
+    unit_price: number;
+  }[];
+}
@@ -0,0 +1,267 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Order } from '../orders/entities/order.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { Payment } from '../orders/entities/payment.entity';
+import { User } from '../orders/entities/user.entity';
+import { Product } from '../products/entities/product.entity';
+import { StockLocationCode } from '../products/entities/stock-location.entity';
+import { InventoryService } from '../products/services/inventory.service';
+import { StockReservationService } from '../products/services/stock-reservation.service';
+import { TaxService } from '../products/services/tax.service';
+import { MANUAL_PLATFORM_ID } from '../products/platforms/platform.constants';
+import {
+  CreateManualSaleDto,
+  ManualSaleItemDto,
+  ManualSaleResponseDto,
+} from './dto/create-manual-sale.dto';
+
+/**
+ * Ventas directas (Instagram, ferias, tienda)
+ *
+ * Se guardan como órdenes de la plataforma 3 (id de external_order_id_seq),
+ * con su pago y, si se indica, el cliente como buyer. El stock se descuenta
+ * con InventoryService (change_type 'order'), así que aparecen en el
+ * historial, las ventas diarias y la rentabilidad como cualquier orden.
+ * Todo se guarda en una transacción: si falla un descuento no queda la orden.
+ */
+@Injectable()
+export class ManualSalesService {
+  private readonly logger = new Logger(ManualSalesService.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private orderRepository: Repository<Order>,
+    @InjectRepository(Product)
+    private productRepository: Repository<Product>,
+    private inventoryService: InventoryService,
+    private stockReservationService: StockReservationService,
+    private taxService: TaxService,
+    private dataSource: DataSource,
+  ) {}
+
+  async create(dto: CreateManualSaleDto): Promise<ManualSaleResponseDto> {
+    const location = dto.location || StockLocationCode.BODEGA;
+    const lines = await this.resolveItems(dto.items);
+    const saleDate = dto.sale_date ? new Date(dto.sale_date) : new Date();
+    const total = lines.reduce(
+      (sum, { item }) => sum + item.unit_price * item.quantity,
+      0,
+    );
+    const orderId = await this.nextId();
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.assertAvailable(lines, location, manager);
+      await this.saveSale(
+        dto,
+        lines,
+        location,
+        orderId,
+        saleDate,
+        total,
+        manager,
+      );
+    });
+
+    this.logger.log(
+      `Manual sale ${orderId}: ${lines.length} items, total ${total} (${dto.payment_method})`,
+    );
+
+    return {
+      order_id: orderId,
+      platform_id: MANUAL_PLATFORM_ID,
+      date_approved: saleDate,
+      total_amount: total,
+      payment_method: dto.payment_method,
+      channel: dto.channel || null,
+      items: lines.map(({ product, item }) => ({
+        product_id: product.product_id,
+        internal_sku: product.internal_sku,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+      })),
+    };
+  }
+
+  /**
+   * Validar todo el stock antes de guardar nada
+   * En BODEGA no se venden las unidades reservadas por órdenes pendientes de
+   * pago. Los productos se bloquean (en orden de ID) para que dos ventas no
+   * validen las mismas unidades.
+   */
+  private async assertAvailable(
+    lines: { product: Product; item: ManualSaleItemDto }[],
+    location: StockLocationCode,
+    manager: EntityManager,
+  ): Promise<void> {
+    const sorted = [...lines].sort(
+      (a, b) => a.product.product_id - b.product.product_id,
+    );
+
+    for (const { product, item } of sorted) {
+      const current = await manager.getRepository(Product).findOne({
+        where: { product_id: product.product_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const onHand = await this.inventoryService.getLocationQuantity(
+        product.product_id,
+        location,
+        manager,
+      );
+      const available =
+        location === StockLocationCode.FULL
+          ? onHand
+          : onHand -
+            (await this.stockReservationService.getReservedByOthers(current));
+
+      if (available < item.quantity) {
+        throw new BadRequestException(
+          `Stock insuficiente de ${product.internal_sku} en ${location}: disponible ${available}, solicitado ${item.quantity}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Orden, ítems, pago, buyer y descuentos de stock de la venta
+   */
+  private async saveSale(
+    dto: CreateManualSaleDto,
+    lines: { product: Product; item: ManualSaleItemDto }[],
+    location: StockLocationCode,
+    orderId: number,
+    saleDate: Date,
+    total: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    let buyer: User | null = null;
+    if (dto.customer) {
+      const [firstName, ...lastName] = dto.customer.name.trim().split(/\s+/);
+      buyer = await manager.getRepository(User).save({
+        id: await this.nextId(),
+        nickname: dto.customer.contact || dto.customer.name,
+        first_name: firstName,
+        last_name: lastName.join(' '),
+      });
+    }
+
+    await manager.getRepository(Order).save({
+      id: orderId,
+      platform_id: MANUAL_PLATFORM_ID,
+      platform_order_id: String(orderId),
+      date_approved: saleDate,
+      last_updated: new Date(),
+      date_closed: saleDate,
+      status: 'paid',
+      total_amount: total,
+      paid_amount: total,
+      currency_id: 'CLP',
+      fulfilled: true,
+      tags: ['manual', dto.channel].filter(Boolean),
+      logistic_type: null,
+      ...(buyer ? { buyer: { id: buyer.id } } : {}),
+    });
+
+    for (const { product, item } of lines) {
+      await manager.getRepository(OrderItem).save({
+        order: { id: orderId },
+        item_id: product.internal_sku,
+        title: product.name,
+        category_id: '',
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        full_unit_price: item.unit_price,
+        currency_id: 'CLP',
+        condition: 'new',
+        warranty: '',
+        seller_sku: product.internal_sku,
+        thumbnail: null,
+      });
+    }
+
+    await manager.getRepository(Payment).save({
+      id: await this.nextId(),
+      order: { id: orderId },
+      payment_method_id: dto.payment_method,
+      payment_type: 'manual',
+      status: 'approved',
+      transaction_amount: total,
+      shipping_cost: dto.shipping_cost || 0,
+      marketplace_fee: dto.payment_fee || 0,
+      iva_amount: this.taxService.extractIva(total),
+      shipping_bonus: 0,
+      courier_cost: 0,
+      total_paid_amount: total,
+      date_approved: saleDate,
+      currency_id: 'CLP',
+    });
+
+    for (const { product, item } of lines) {
+      await this.inventoryService.deductStock(
+        product.product_id,
+        item.quantity,
+        {
+          platform_id: MANUAL_PLATFORM_ID,
+          platform_order_id: String(orderId),
+          platform_item_id: product.internal_sku,
+          location,
+          change_type: 'order',
+          changed_by: dto.created_by,
+          change_reason: `Venta directa${dto.channel ? ` (${dto.channel})` : ''} - Orden ${orderId}`,
+          adjustment_amount: -item.quantity,
+          metadata: {
+            order_id: orderId,
+            payment_method: dto.payment_method,
+            notes: dto.notes,
+          },
+        },
+        manager,
+      );
+    }
+  }
+
+  /**
+   * Buscar el producto de cada ítem (por ID, mapeo o SKU interno)
+   */
+  private async resolveItems(
+    items: ManualSaleItemDto[],
+  ): Promise<{ product: Product; item: ManualSaleItemDto }[]> {
+    const lines: { product: Product; item: ManualSaleItemDto }[] = [];
+
+    for (const item of items) {
+      const product = item.product_id
+        ? await this.productRepository.findOne({
+            where: { product_id: item.product_id },
+          })
+        : await this.inventoryService.findProductBySku(
+            MANUAL_PLATFORM_ID,
+            item.sku,
+          );
+
+      if (!product) {
+        throw new BadRequestException(
+          `Producto ${item.product_id ?? item.sku} no encontrado`,
+        );
+      }
+      if (
+        lines.some((line) => line.product.product_id === product.product_id)
+      ) {
+        throw new BadRequestException(
+          `El producto ${product.internal_sku} está repetido en la venta`,
+        );
+      }
+
+      lines.push({ product, item });
+    }
+
+    return lines;
+  }
+
+  private async nextId(): Promise<number> {
+    const [row] = await this.orderRepository.query(
+      `SELECT nextval('external_order_id_seq') AS id`,
+    );
+    return Number(row.id);
+  }
+}
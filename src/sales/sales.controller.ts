@@ -0,0 +1,29 @@
+import {
+  Body,
+  Controller,
+  Post,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ManualSalesService } from './manual-sales.service';
+import {
+  CreateManualSaleDto,
+  ManualSaleResponseDto,
+} from './dto/create-manual-sale.dto';
+
+@Controller('sales')
+export class SalesController {
+  constructor(private readonly manualSalesService: ManualSalesService) {}
+
+  /**
+   * Registrar una venta directa (Instagram, feria, tienda)
+   * POST /sales/manual
+   */
+  @Post('manual')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  createManualSale(
+    @Body() dto: CreateManualSaleDto,
+  ): Promise<ManualSaleResponseDto> {
+    return this.manualSalesService.create(dto);
+  }
+}
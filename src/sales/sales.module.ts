@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Order } from '../orders/entities/order.entity';
+import { OrderItem } from '../orders/entities/order-item.entity';
+import { Payment } from '../orders/entities/payment.entity';
+import { User } from '../orders/entities/user.entity';
+import { Product } from '../products/entities/product.entity';
+import { InventoryModule } from '../inventory/inventory.module';
+import { ProductsModule } from '../products/products.module';
+import { ManualSalesService } from './manual-sales.service';
+import { SalesController } from './sales.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Order, OrderItem, Payment, User, Product]),
+    InventoryModule,
+    ProductsModule, // TaxService
+  ],
+  controllers: [SalesController],
+  providers: [ManualSalesService],
+})
+export class SalesModule {}